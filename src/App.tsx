@@ -11,8 +11,14 @@ import WorkerDetail from "./pages/WorkerDetail";
 import WorkerProfile from "@/pages/WorkerProfile";
 import Booking from "./pages/Booking";
 import {BookingDetails} from "@/pages/BookingDetails";
+import BookingDetail from "./pages/BookingDetail";
 import DirectChatPage from "./pages/DirectChatPage";
+import Inbox from "./pages/Inbox";
+import AdminVerifications from "./pages/AdminVerifications";
+import AdminReviews from "./pages/AdminReviews";
+import AdminMessages from "./pages/AdminMessages";
 import NotFound from "./pages/NotFound";
+import { PresenceProvider } from "@/components/PresenceProvider";
 
 const queryClient = new QueryClient();
 
@@ -20,8 +26,9 @@ const App = () => {
   return(
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
-      <Toaster />
-      <Sonner />
+      <PresenceProvider>
+        <Toaster />
+        <Sonner />
         <BrowserRouter>
           <Routes>
             <Route path="/" element={<Index />} />
@@ -34,10 +41,15 @@ const App = () => {
             <Route path="/booking/:id" element={<BookingDetails />} />
             <Route path="/booking-detail/:bookingId" element={<BookingDetail />} />
             <Route path="/chat/:userId" element={<DirectChatPage />} />
+            <Route path="/inbox" element={<Inbox />} />
+            <Route path="/admin/verifications" element={<AdminVerifications />} />
+            <Route path="/admin/reviews" element={<AdminReviews />} />
+            <Route path="/admin/messages" element={<AdminMessages />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
+      </PresenceProvider>
     </TooltipProvider>
   </QueryClientProvider>
   );
@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Repeat, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import {
+  AVAILABILITY_STATUS_LABELS,
+  AvailabilityStatus,
+  WEEKDAY_LABELS,
+  describeAvailabilityRule,
+  getAvailabilityLabel,
+} from "@/lib/availability";
+
+interface AvailabilityRulesEditorProps {
+  workerId: string;
+  onChange?: () => void;
+}
+
+const StatusSelect = ({ value, onChange }: { value: AvailabilityStatus; onChange: (value: AvailabilityStatus) => void }) => (
+  <Select value={value} onValueChange={(status) => onChange(status as AvailabilityStatus)}>
+    <SelectTrigger>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {Object.entries(AVAILABILITY_STATUS_LABELS).map(([status, label]) => (
+        <SelectItem key={status} value={status}>
+          {label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export const AvailabilityRulesEditor = ({ workerId, onChange }: AvailabilityRulesEditorProps) => {
+  const [rules, setRules] = useState<Tables<"availability_rules">[]>([]);
+  const [weekdays, setWeekdays] = useState<number[]>([1, 2, 3, 4, 5, 6]);
+  const [weeklyStatus, setWeeklyStatus] = useState<AvailabilityStatus>("available");
+  const [rangeStart, setRangeStart] = useState("");
+  const [rangeEnd, setRangeEnd] = useState("");
+  const [rangeStatus, setRangeStatus] = useState<AvailabilityStatus>("holiday");
+  const [rangeNotes, setRangeNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadRules();
+  }, [workerId]);
+
+  const loadRules = async () => {
+    const { data, error } = await supabase
+      .from("availability_rules")
+      .select("*")
+      .eq("worker_id", workerId)
+      .order("rule_type", { ascending: false })
+      .order("start_date", { ascending: true, nullsFirst: true });
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load availability rules"));
+      return;
+    }
+    setRules(data || []);
+  };
+
+  const saveRule = async (rule: Omit<Tables<"availability_rules">, "id" | "created_at" | "updated_at" | "worker_id">) => {
+    setSaving(true);
+    const { error } = await supabase.from("availability_rules").insert({ ...rule, worker_id: workerId });
+    setSaving(false);
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to save availability rule"));
+      return false;
+    }
+
+    toast.success("Availability rule added");
+    loadRules();
+    onChange?.();
+    return true;
+  };
+
+  const handleAddWeekly = async () => {
+    if (weekdays.length === 0) {
+      toast.error("Please pick at least one day");
+      return;
+    }
+    await saveRule({
+      rule_type: "weekly",
+      weekdays,
+      start_date: null,
+      end_date: null,
+      status: weeklyStatus,
+      notes: null,
+    });
+  };
+
+  const handleAddRange = async () => {
+    if (!rangeStart || !rangeEnd) {
+      toast.error("Please choose a start and end date");
+      return;
+    }
+    if (rangeEnd < rangeStart) {
+      toast.error("End date must be on or after the start date");
+      return;
+    }
+    const saved = await saveRule({
+      rule_type: "date_range",
+      weekdays: null,
+      start_date: rangeStart,
+      end_date: rangeEnd,
+      status: rangeStatus,
+      notes: rangeNotes.trim() || null,
+    });
+    if (saved) {
+      setRangeStart("");
+      setRangeEnd("");
+      setRangeNotes("");
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from("availability_rules").delete().eq("id", id);
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to remove availability rule"));
+      return;
+    }
+    loadRules();
+    onChange?.();
+  };
+
+  const toggleWeekday = (day: number) => {
+    setWeekdays(weekdays.includes(day) ? weekdays.filter((d) => d !== day) : [...weekdays, day].sort());
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold flex items-center gap-2">
+        <Repeat className="h-4 w-4" />
+        Recurring Schedule
+      </h3>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No rules yet. Days without a rule or exception are shown as available.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+              <div>
+                <p>{describeAvailabilityRule(rule)}</p>
+                {rule.notes && <p className="text-xs text-muted-foreground">{rule.notes}</p>}
+              </div>
+              <div className="flex items-center gap-1">
+                <Badge variant={rule.status === "available" ? "default" : "secondary"}>
+                  {getAvailabilityLabel(rule.status)}
+                </Badge>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(rule.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Tabs defaultValue="weekly">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="weekly">Weekly</TabsTrigger>
+          <TabsTrigger value="date_range">Date Range</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="weekly" className="space-y-3">
+          <div className="flex flex-wrap gap-1">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                className={cn(
+                  "rounded-md border px-2 py-1 text-xs",
+                  weekdays.includes(day) ? "bg-primary text-primary-foreground border-primary" : "hover:bg-accent"
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <StatusSelect value={weeklyStatus} onChange={setWeeklyStatus} />
+          <Button size="sm" className="w-full" onClick={handleAddWeekly} disabled={saving}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Weekly Rule
+          </Button>
+        </TabsContent>
+
+        <TabsContent value="date_range" className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label htmlFor="rangeStart" className="text-xs">From</Label>
+              <Input id="rangeStart" type="date" value={rangeStart} onChange={(e) => setRangeStart(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="rangeEnd" className="text-xs">To</Label>
+              <Input id="rangeEnd" type="date" value={rangeEnd} onChange={(e) => setRangeEnd(e.target.value)} />
+            </div>
+          </div>
+          <StatusSelect value={rangeStatus} onChange={setRangeStatus} />
+          <Input
+            placeholder="Notes (optional)"
+            value={rangeNotes}
+            onChange={(e) => setRangeNotes(e.target.value)}
+            maxLength={200}
+          />
+          <Button size="sm" className="w-full" onClick={handleAddRange} disabled={saving}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Date Range
+          </Button>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
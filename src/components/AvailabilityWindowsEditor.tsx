@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Clock, Plus, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { WEEKDAY_LABELS } from "@/lib/availability";
+
+interface AvailabilityWindowsEditorProps {
+  workerId: string;
+  selectedDate?: Date;
+  onChange?: () => void;
+}
+
+const SELECTED_DATE = "date";
+
+export const AvailabilityWindowsEditor = ({ workerId, selectedDate, onChange }: AvailabilityWindowsEditorProps) => {
+  const [windows, setWindows] = useState<Tables<"availability_windows">[]>([]);
+  const [day, setDay] = useState("1");
+  const [startTime, setStartTime] = useState("09:00");
+  const [endTime, setEndTime] = useState("17:00");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadWindows();
+  }, [workerId]);
+
+  const loadWindows = async () => {
+    const { data, error } = await supabase
+      .from("availability_windows")
+      .select("*")
+      .eq("worker_id", workerId)
+      .or(`date.is.null,date.gte.${format(new Date(), "yyyy-MM-dd")}`)
+      .order("date", { ascending: true, nullsFirst: true })
+      .order("weekday", { ascending: true })
+      .order("start_time", { ascending: true });
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load working hours"));
+      return;
+    }
+    setWindows(data || []);
+  };
+
+  const handleAdd = async () => {
+    if (startTime >= endTime) {
+      toast.error("End time must be after the start time");
+      return;
+    }
+    if (day === SELECTED_DATE && !selectedDate) {
+      toast.error("Please select a date on the calendar");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from("availability_windows").insert({
+      worker_id: workerId,
+      weekday: day === SELECTED_DATE ? null : Number(day),
+      date: day === SELECTED_DATE && selectedDate ? format(selectedDate, "yyyy-MM-dd") : null,
+      start_time: startTime,
+      end_time: endTime,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to add working hours"));
+      return;
+    }
+
+    loadWindows();
+    onChange?.();
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from("availability_windows").delete().eq("id", id);
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to remove working hours"));
+      return;
+    }
+    loadWindows();
+    onChange?.();
+  };
+
+  const getDayLabel = (hours: Tables<"availability_windows">) =>
+    hours.date ? format(parseISO(hours.date), "MMM d, yyyy") : `Every ${WEEKDAY_LABELS[hours.weekday ?? 0]}`;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold flex items-center gap-2">
+        <Clock className="h-4 w-4" />
+        Working Hours
+      </h3>
+
+      {windows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No hours set. Hirers can book you for any time on available days.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {windows.map((hours) => (
+            <div key={hours.id} className="flex items-center justify-between rounded-md border p-2 text-sm">
+              <span>
+                {getDayLabel(hours)} • {hours.start_time.slice(0, 5)}–{hours.end_time.slice(0, 5)}
+              </span>
+              <Button variant="ghost" size="icon" onClick={() => handleDelete(hours.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Select value={day} onValueChange={setDay}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WEEKDAY_LABELS.map((label, idx) => (
+              <SelectItem key={label} value={String(idx)}>
+                Every {label}
+              </SelectItem>
+            ))}
+            {selectedDate && (
+              <SelectItem value={SELECTED_DATE}>Only on {format(selectedDate, "MMM d, yyyy")}</SelectItem>
+            )}
+          </SelectContent>
+        </Select>
+        <div className="grid grid-cols-2 gap-2">
+          <Input type="time" step="1800" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+          <Input type="time" step="1800" value={endTime} onChange={(e) => setEndTime(e.target.value)} />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Hours for a specific date replace your weekly hours on that day.
+        </p>
+        <Button size="sm" className="w-full" onClick={handleAdd} disabled={saving}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Hours
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Receipt } from "lucide-react";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { GST_STATES } from "@/lib/gst";
+import { billingDetailsSchema } from "@/lib/validationSchemas";
+
+interface BillingDetailsProps {
+  userId: string;
+  stateCode: string | null;
+  gstin: string | null;
+}
+
+/**
+ * State and GSTIN printed on invoices. The state decides whether a supply
+ * is charged CGST + SGST or IGST.
+ */
+export const BillingDetails = ({ userId, stateCode, gstin }: BillingDetailsProps) => {
+  const [form, setForm] = useState({ stateCode: stateCode || "", gstin: gstin || "" });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setForm({ stateCode: stateCode || "", gstin: gstin || "" });
+  }, [stateCode, gstin]);
+
+  const handleSave = async () => {
+    const validationResult = billingDetailsSchema.safeParse(form);
+    if (!validationResult.success) {
+      toast.error(validationResult.error.errors[0].message);
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from("profiles")
+      .update({
+        gst_state_code: validationResult.data.stateCode || null,
+        gstin: validationResult.data.gstin || null,
+      })
+      .eq("id", userId);
+    setSaving(false);
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to save billing details"));
+      return;
+    }
+
+    toast.success("Billing details saved");
+  };
+
+  return (
+    <Card className="p-6 shadow-card mb-6">
+      <h2 className="text-2xl font-semibold mb-2 flex items-center gap-2">
+        <Receipt className="h-6 w-6" />
+        Billing Details
+      </h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Printed on your invoices. Leave the GSTIN empty if you aren't registered for GST.
+      </p>
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="space-y-1">
+          <Label>State</Label>
+          <Select value={form.stateCode} onValueChange={(value) => setForm({ ...form, stateCode: value })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select your state" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(GST_STATES).map(([code, name]) => (
+                <SelectItem key={code} value={code}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="gstin">GSTIN (optional)</Label>
+          <Input
+            id="gstin"
+            placeholder="e.g. 29ABCDE1234F1Z5"
+            value={form.gstin}
+            onChange={(e) => setForm({ ...form, gstin: e.target.value.toUpperCase() })}
+            maxLength={15}
+          />
+        </div>
+      </div>
+      <Button className="mt-4" onClick={handleSave} disabled={saving}>
+        Save Billing Details
+      </Button>
+    </Card>
+  );
+};
@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Download, FileText } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { Invoice, downloadInvoicePdf, downloadReceiptPdf } from "@/lib/invoicePdf";
+import { getInvoiceGstAmount, getInvoiceGstRate } from "@/lib/gst";
+
+interface BookingInvoiceProps {
+  bookingId: string;
+  // Changes whenever the booking row is updated so payments are reloaded
+  refreshKey?: string;
+}
+
+export const BookingInvoice = ({ bookingId, refreshKey }: BookingInvoiceProps) => {
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [payments, setPayments] = useState<Tables<"payments">[]>([]);
+
+  useEffect(() => {
+    loadInvoice();
+  }, [bookingId, refreshKey]);
+
+  const loadInvoice = async () => {
+    const [invoiceResult, paymentsResult] = await Promise.all([
+      supabase.from("invoices").select("*").eq("booking_id", bookingId).maybeSingle(),
+      supabase.from("payments").select("*").eq("booking_id", bookingId).order("created_at", { ascending: true }),
+    ]);
+
+    if (invoiceResult.error || paymentsResult.error) {
+      toast.error(handleSupabaseError(invoiceResult.error || paymentsResult.error, "Failed to load invoice"));
+      return;
+    }
+    setInvoice(invoiceResult.data);
+    setPayments(paymentsResult.data || []);
+  };
+
+  if (!invoice) return null;
+
+  const hasReceipt = payments.some((entry) => entry.entry_type === "capture" && entry.status === "succeeded");
+  const gst = getInvoiceGstAmount(invoice);
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <FileText className="h-5 w-5" />
+        Invoice
+      </h3>
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Invoice No.</span>
+          <span className="font-medium">{invoice.invoice_number}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Issued</span>
+          <span>{format(new Date(invoice.issued_at), "MMM d, yyyy")}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Taxable value</span>
+          <span>₹{Number(invoice.taxable_amount).toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">
+            {Number(invoice.igst_rate) > 0 ? "IGST" : "GST"} ({getInvoiceGstRate(invoice)}%)
+          </span>
+          <span>₹{gst.toFixed(2)}</span>
+        </div>
+        <div className="flex justify-between font-semibold">
+          <span>Total</span>
+          <span>₹{Number(invoice.total_amount).toFixed(2)}</span>
+        </div>
+      </div>
+      <div className="flex gap-2 mt-4">
+        <Button variant="outline" size="sm" className="flex-1" onClick={() => downloadInvoicePdf(invoice)}>
+          <Download className="mr-2 h-4 w-4" />
+          Invoice PDF
+        </Button>
+        {hasReceipt && (
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => downloadReceiptPdf(invoice, payments)}>
+            <Download className="mr-2 h-4 w-4" />
+            Receipt PDF
+          </Button>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -4,35 +4,62 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Send } from "lucide-react";
+import { Send, Paperclip, X, Image as ImageIcon, File, Check, CheckCheck, Bell, BellOff } from "lucide-react";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { handleSupabaseError } from "@/lib/errorMessages";
+import { CHAT_FILE_TYPES, CHAT_PAGE_SIZE, MAX_CHAT_FILE_SIZE, mergeMessages, uploadChatFile } from "@/lib/chat";
+import { useChatScroll } from "@/hooks/useChatScroll";
+import { ChatAttachment } from "@/components/ChatAttachment";
+import { ChatPresence } from "@/components/ChatPresence";
+import { useConversationPresence } from "@/hooks/usePresence";
+import { bookingConversationKey } from "@/lib/presence";
+import { useUserBlock } from "@/hooks/useUserBlock";
+import { useConversationMute } from "@/hooks/useConversationMute";
 
 interface Message {
   id: string;
   content: string;
   sender_id: string;
   created_at: string;
-  sender?: {
-    full_name: string;
-  };
+  read_at: string | null;
+  file_path: string | null;
+  file_type: string | null;
+  // Sent optimistically and not yet confirmed by the server
+  pending?: boolean;
 }
 
 interface BookingMessagesProps {
   bookingId: string;
   currentUserId: string;
+  // The other party to the booking
+  otherUserId: string;
 }
 
-export const BookingMessages = ({ bookingId, currentUserId }: BookingMessagesProps) => {
+export const BookingMessages = ({ bookingId, currentUserId, otherUserId }: BookingMessagesProps) => {
   const [messages, setMessages] = useState<Message[]>([]);
+  const [senderNames, setSenderNames] = useState<Record<string, string>>({});
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   const [newMessage, setNewMessage] = useState("");
   const [loading, setLoading] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const requestedNames = useRef(new Set<string>());
+  const { containerRef, keepPosition } = useChatScroll(messages);
+  const { otherPresent, otherTyping, notifyTyping, stopTyping } = useConversationPresence(
+    bookingConversationKey(bookingId),
+    currentUserId,
+    otherUserId
+  );
+  const { blocked, blockedByMe, refresh: refreshBlock } = useUserBlock(currentUserId, otherUserId);
+  const { muted, toggleMute } = useConversationMute(currentUserId, "booking_id", bookingId);
 
   useEffect(() => {
+    setMessages([]);
     loadMessages();
-    
+
     // Subscribe to real-time messages
     const channel = supabase
       .channel(`messages-${bookingId}`)
@@ -45,7 +72,23 @@ export const BookingMessages = ({ bookingId, currentUserId }: BookingMessagesPro
           filter: `booking_id=eq.${bookingId}`
         },
         (payload) => {
-          loadMessages();
+          const message = payload.new as Message;
+          setMessages((current) => mergeMessages(current, [message]));
+          loadSenderName(message.sender_id);
+          if (message.sender_id !== currentUserId) markAsRead();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `booking_id=eq.${bookingId}`
+        },
+        (payload) => {
+          // Read receipts
+          setMessages((current) => mergeMessages(current, [payload.new as Message]));
         }
       )
       .subscribe();
@@ -56,49 +99,159 @@ export const BookingMessages = ({ bookingId, currentUserId }: BookingMessagesPro
   }, [bookingId]);
 
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    loadSenderName(currentUserId);
+  }, [currentUserId]);
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  };
-
-  const loadMessages = async () => {
-    const { data, error } = await supabase
+  // Newest first, so a page is the most recent messages before a point
+  const threadQuery = () =>
+    supabase
       .from("messages")
       .select(`
         *,
         sender:profiles!messages_sender_id_fkey(full_name)
       `)
       .eq("booking_id", bookingId)
-      .order("created_at", { ascending: true });
+      .order("created_at", { ascending: false })
+      .limit(CHAT_PAGE_SIZE);
+
+  const addPage = (page: (Message & { sender: { full_name: string } | null })[]) => {
+    setMessages((current) => mergeMessages(current, page.map(({ sender, ...message }) => message)));
+    setSenderNames((current) => ({
+      ...current,
+      ...Object.fromEntries(page.filter((msg) => msg.sender).map((msg) => [msg.sender_id, msg.sender?.full_name])),
+    }));
+    page.forEach((msg) => requestedNames.current.add(msg.sender_id));
+    setHasOlder(page.length === CHAT_PAGE_SIZE);
+  };
+
+  // Realtime rows come without the sender join, so names are looked up once per sender
+  const loadSenderName = async (userId: string) => {
+    if (requestedNames.current.has(userId)) return;
+    requestedNames.current.add(userId);
+
+    const { data } = await supabase.from("profiles").select("full_name").eq("id", userId).maybeSingle();
+    if (data) setSenderNames((current) => ({ ...current, [userId]: data.full_name }));
+  };
+
+  const markAsRead = async () => {
+    await supabase.rpc("mark_booking_messages_read", { _booking_id: bookingId });
+  };
+
+  const loadMessages = async () => {
+    const { data, error } = await threadQuery();
 
     if (error) {
       toast.error(handleSupabaseError(error, "Failed to load messages"));
       return;
     }
 
-    setMessages(data || []);
+    addPage(data || []);
+
+    if (data?.some((msg) => msg.sender_id !== currentUserId && !msg.read_at)) {
+      await markAsRead();
+    }
+  };
+
+  const loadOlderMessages = async () => {
+    const oldest = messages.find((message) => !message.pending);
+    if (!hasOlder || loadingOlder || !oldest) return;
+
+    setLoadingOlder(true);
+    const { data, error } = await threadQuery().lt("created_at", oldest.created_at);
+    setLoadingOlder(false);
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load older messages"));
+      return;
+    }
+
+    keepPosition();
+    addPage(data || []);
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    if (!CHAT_FILE_TYPES.includes(file.type)) {
+      toast.error("Only images, PDFs, Word documents and text files can be shared");
+      return;
+    }
+
+    // Validate file size (max 10MB)
+    if (file.size > MAX_CHAT_FILE_SIZE) {
+      toast.error("File size must be less than 10MB");
+      return;
+    }
+
+    setSelectedFile(file);
+  };
+
+  const clearSelectedFile = () => {
+    setSelectedFile(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
   const handleSendMessage = async () => {
-    if (!newMessage.trim()) return;
+    const content = newMessage.trim();
+    if (!content && !selectedFile) return;
+    stopTyping();
 
     setLoading(true);
-    const { error } = await supabase
-      .from("messages")
-      .insert({
-        booking_id: bookingId,
+    setUploading(true);
+
+    try {
+      const filePath = selectedFile ? await uploadChatFile(currentUserId, selectedFile) : null;
+      const fileType = selectedFile?.type || null;
+
+      // Shown straight away; the server row and its realtime echo share the id
+      const message: Message = {
+        id: crypto.randomUUID(),
         sender_id: currentUserId,
-        content: newMessage.trim()
-      });
+        content: content || "Sent a file",
+        file_path: filePath,
+        file_type: fileType,
+        created_at: new Date().toISOString(),
+        read_at: null,
+      };
+      setMessages((current) => mergeMessages(current, [{ ...message, pending: true }]));
+      setNewMessage("");
+      clearSelectedFile();
 
+      const { data, error } = await supabase
+        .from("messages")
+        .insert({
+          id: message.id,
+          booking_id: bookingId,
+          sender_id: currentUserId,
+          content: message.content,
+          file_path: message.file_path,
+          file_type: message.file_type
+        })
+        .select()
+        .single();
+
+      if (error) {
+        setMessages((current) => current.filter((msg) => msg.id !== message.id));
+        setNewMessage(content);
+        toast.error(handleSupabaseError(error, "Failed to send message"));
+        refreshBlock();
+      } else {
+        setMessages((current) => mergeMessages(current, [data]));
+      }
+    } catch (error) {
+      toast.error(handleSupabaseError(error, "Failed to upload file"));
+    } finally {
+      setLoading(false);
+      setUploading(false);
+    }
+  };
+
+  const handleToggleMute = async () => {
+    const error = await toggleMute();
     if (error) {
-      toast.error(handleSupabaseError(error, "Failed to send message"));
-    } else {
-      setNewMessage("");
+      toast.error(handleSupabaseError(error, "Failed to update notifications"));
     }
-    setLoading(false);
   };
 
   const getInitials = (name: string) => {
@@ -111,11 +264,30 @@ export const BookingMessages = ({ bookingId, currentUserId }: BookingMessagesPro
 
   return (
     <Card className="p-4">
-      <h3 className="text-lg font-semibold mb-4">Messages</h3>
+      <div className="mb-4 flex items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold">Messages</h3>
+          <ChatPresence userId={otherUserId} present={otherPresent} typing={otherTyping} />
+        </div>
+        <Button variant="ghost" size="sm" onClick={handleToggleMute}>
+          {muted ? <BellOff className="mr-2 h-4 w-4" /> : <Bell className="mr-2 h-4 w-4" />}
+          {muted ? "Unmute" : "Mute"}
+        </Button>
+      </div>
       
-      <div className="space-y-4 mb-4 max-h-96 overflow-y-auto">
+      <div
+        ref={containerRef}
+        className="space-y-4 mb-4 max-h-96 overflow-y-auto"
+        onScroll={(e) => {
+          if (e.currentTarget.scrollTop < 40) loadOlderMessages();
+        }}
+      >
+        {loadingOlder && (
+          <div className="text-center text-xs text-muted-foreground">Loading older messages...</div>
+        )}
         {messages.map((message) => {
           const isOwnMessage = message.sender_id === currentUserId;
+          const senderName = senderNames[message.sender_id];
           return (
             <div
               key={message.id}
@@ -123,27 +295,44 @@ export const BookingMessages = ({ bookingId, currentUserId }: BookingMessagesPro
             >
               <Avatar className="h-8 w-8">
                 <AvatarFallback className="bg-primary text-primary-foreground text-xs">
-                  {getInitials(message.sender?.full_name || "User")}
+                  {getInitials(senderName || "User")}
                 </AvatarFallback>
               </Avatar>
               <div className={`flex-1 ${isOwnMessage ? "text-right" : ""}`}>
                 <div className="text-xs text-muted-foreground mb-1">
-                  {message.sender?.full_name} • {format(new Date(message.created_at), "MMM d, h:mm a")}
+                  {senderName} • {message.pending ? "Sending..." : format(new Date(message.created_at), "MMM d, h:mm a")}
                 </div>
                 <div
-                  className={`inline-block rounded-lg px-4 py-2 ${
+                  className={`inline-block rounded-lg px-4 py-2 max-w-md ${
                     isOwnMessage
                       ? "bg-primary text-primary-foreground"
                       : "bg-muted"
-                  }`}
+                  } ${message.pending ? "opacity-70" : ""}`}
                 >
-                  {message.content}
+                  {message.file_path && (
+                    <ChatAttachment path={message.file_path} fileType={message.file_type} />
+                  )}
+                  <div>{message.content}</div>
                 </div>
+                {isOwnMessage && !message.pending && (
+                  <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground mt-1">
+                    {message.read_at ? (
+                      <>
+                        <CheckCheck className="h-3 w-3" />
+                        Seen {format(new Date(message.read_at), "MMM d, h:mm a")}
+                      </>
+                    ) : (
+                      <>
+                        <Check className="h-3 w-3" />
+                        Sent
+                      </>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           );
         })}
-        <div ref={messagesEndRef} />
       </div>
 
       {messages.length === 0 && (
@@ -152,27 +341,75 @@ export const BookingMessages = ({ bookingId, currentUserId }: BookingMessagesPro
         </div>
       )}
 
-      <div className="flex gap-2">
-        <Textarea
-          value={newMessage}
-          onChange={(e) => setNewMessage(e.target.value)}
-          placeholder="Type your message..."
-          className="min-h-[80px]"
-          onKeyDown={(e) => {
-            if (e.key === "Enter" && !e.shiftKey) {
-              e.preventDefault();
-              handleSendMessage();
-            }
-          }}
-        />
-        <Button
-          onClick={handleSendMessage}
-          disabled={!newMessage.trim() || loading}
-          size="icon"
-        >
-          <Send className="h-4 w-4" />
-        </Button>
-      </div>
+      {blocked ? (
+        <div className="p-3 bg-muted rounded-lg text-sm text-center text-muted-foreground">
+          {blockedByMe
+            ? "You blocked this user. Unblock them from your direct chat to send messages."
+            : "You can't send messages in this conversation."}
+        </div>
+      ) : (
+        <>
+          {selectedFile && (
+            <div className="flex items-center gap-2 p-2 bg-muted rounded-lg mb-2">
+              {selectedFile.type.startsWith('image/') ? (
+                <ImageIcon className="h-4 w-4" />
+              ) : (
+                <File className="h-4 w-4" />
+              )}
+              <span className="text-sm flex-1 truncate">{selectedFile.name}</span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6"
+                onClick={clearSelectedFile}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              onChange={handleFileSelect}
+              accept={CHAT_FILE_TYPES.join(",")}
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={loading || uploading}
+            >
+              <Paperclip className="h-4 w-4" />
+            </Button>
+            <Textarea
+              value={newMessage}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                notifyTyping();
+              }}
+              placeholder="Type your message..."
+              className="min-h-[80px]"
+              disabled={uploading}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSendMessage();
+                }
+              }}
+            />
+            <Button
+              onClick={handleSendMessage}
+              disabled={(!newMessage.trim() && !selectedFile) || loading || uploading}
+              size="icon"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          </div>
+        </>
+      )}
     </Card>
   );
 };
\ No newline at end of file
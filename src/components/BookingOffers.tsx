@@ -0,0 +1,259 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Handshake, Loader2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { bookingOfferSchema } from "@/lib/validationSchemas";
+import { BookingActor } from "@/lib/bookingStatus";
+
+type BookingOffer = Tables<"booking_offers">;
+
+interface BookingOffersProps {
+  bookingId: string;
+  bookingStatus: string;
+  actor: BookingActor;
+  // Changes whenever the booking row is updated so offers are reloaded
+  refreshKey?: string;
+  onAccepted: (booking: Tables<"bookings">) => void;
+}
+
+const OFFER_STATUS_LABELS: Record<string, string> = {
+  open: "Awaiting reply",
+  accepted: "Accepted",
+  superseded: "Countered",
+  closed: "Closed",
+};
+
+const describeTerms = (offer: BookingOffer) => {
+  const parts = [format(parseISO(offer.booking_date), "MMM d, yyyy")];
+  if (offer.start_time) parts.push(`at ${offer.start_time.slice(0, 5)}`);
+  parts.push(offer.duration_hours ? `for ${offer.duration_hours} hours` : "full day");
+  return parts.join(" ");
+};
+
+export const BookingOffers = ({ bookingId, bookingStatus, actor, refreshKey, onAccepted }: BookingOffersProps) => {
+  const [offers, setOffers] = useState<BookingOffer[]>([]);
+  const [countering, setCountering] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [form, setForm] = useState({ rate: "", bookingDate: "", startTime: "", durationHours: "", message: "" });
+
+  useEffect(() => {
+    loadOffers();
+
+    // A counter-offer only supersedes the previous offer and doesn't touch the
+    // booking row, so watch the offers themselves as well
+    const channel = supabase
+      .channel(`booking-offers-${bookingId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "booking_offers", filter: `booking_id=eq.${bookingId}` },
+        () => loadOffers()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [bookingId, refreshKey]);
+
+  const loadOffers = async () => {
+    const { data, error } = await supabase
+      .from("booking_offers")
+      .select("*")
+      .eq("booking_id", bookingId)
+      .order("version", { ascending: true });
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load offers"));
+      return;
+    }
+    setOffers(data || []);
+  };
+
+  const openOffer = offers.find((offer) => offer.status === "open");
+  const canRespond = bookingStatus === "pending" && !!openOffer && openOffer.offered_by_role !== actor;
+
+  const startCounter = () => {
+    if (!openOffer) return;
+    setForm({
+      rate: String(openOffer.rate),
+      bookingDate: openOffer.booking_date,
+      startTime: openOffer.start_time?.slice(0, 5) || "",
+      durationHours: openOffer.duration_hours ? String(openOffer.duration_hours) : "",
+      message: "",
+    });
+    setCountering(true);
+  };
+
+  const handleAccept = async () => {
+    if (!openOffer) return;
+    setSubmitting(true);
+    const { data, error } = await supabase.rpc("accept_booking_offer", { _offer_id: openOffer.id });
+    setSubmitting(false);
+
+    if (error) {
+      // Overlaps and availability come back as 23P01 / BK00x
+      toast.error(handleSupabaseError(error));
+      loadOffers();
+      return;
+    }
+    toast.success("Offer accepted. The booking is confirmed.");
+    onAccepted(data);
+  };
+
+  const handleCounter = async () => {
+    const validationResult = bookingOfferSchema.safeParse({
+      rate: Number(form.rate),
+      bookingDate: form.bookingDate,
+      startTime: form.startTime,
+      durationHours: form.durationHours ? Number(form.durationHours) : 0,
+      message: form.message,
+    });
+
+    if (!validationResult.success) {
+      toast.error(validationResult.error.errors[0].message);
+      return;
+    }
+
+    const offer = validationResult.data;
+    setSubmitting(true);
+    const { error } = await supabase.rpc("make_booking_offer", {
+      _booking_id: bookingId,
+      _rate: offer.rate,
+      _booking_date: offer.bookingDate,
+      _start_time: offer.startTime || undefined,
+      _duration_hours: offer.durationHours || undefined,
+      _message: offer.message || undefined,
+    });
+    setSubmitting(false);
+
+    if (error) {
+      // Closed negotiations come back with BK00x codes
+      toast.error(handleSupabaseError(error));
+      return;
+    }
+    toast.success("Counter-offer sent");
+    setCountering(false);
+    loadOffers();
+  };
+
+  if (offers.length === 0) return null;
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Handshake className="h-5 w-5" />
+        Offers
+      </h3>
+
+      <div className="space-y-3">
+        {offers.map((offer) => (
+          <div
+            key={offer.id}
+            className={cn("rounded-md border p-3 text-sm", offer.status === "open" && "border-primary")}
+          >
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-medium">
+                v{offer.version} · {offer.offered_by_role === actor ? "You" : offer.offered_by_role === "hirer" ? "Hirer" : "Worker"}
+              </span>
+              <Badge variant={offer.status === "accepted" ? "default" : offer.status === "open" ? "secondary" : "outline"}>
+                {OFFER_STATUS_LABELS[offer.status] || offer.status}
+              </Badge>
+            </div>
+            <p className="text-lg font-bold text-success">₹{Number(offer.rate).toFixed(2)}</p>
+            <p className="text-muted-foreground">{describeTerms(offer)}</p>
+            {offer.message && <p className="mt-1">{offer.message}</p>}
+            <p className="text-xs text-muted-foreground mt-1">{format(new Date(offer.created_at), "MMM d, yyyy h:mm a")}</p>
+          </div>
+        ))}
+      </div>
+
+      {bookingStatus === "pending" && openOffer && !canRespond && (
+        <p className="text-sm text-muted-foreground mt-4">Waiting for the other party to accept or counter your offer.</p>
+      )}
+
+      {canRespond && !countering && (
+        <div className="flex gap-2 mt-4">
+          <Button className="flex-1" onClick={handleAccept} disabled={submitting}>
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Accept Offer
+          </Button>
+          <Button variant="outline" className="flex-1" onClick={startCounter} disabled={submitting}>
+            Counter-Offer
+          </Button>
+        </div>
+      )}
+
+      {canRespond && countering && (
+        <div className="space-y-3 mt-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="offerRate">Rate (₹)</Label>
+              <Input
+                id="offerRate"
+                type="number"
+                min="1"
+                value={form.rate}
+                onChange={(e) => setForm({ ...form, rate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="offerDate">Date</Label>
+              <Input
+                id="offerDate"
+                type="date"
+                value={form.bookingDate}
+                onChange={(e) => setForm({ ...form, bookingDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="offerStart">Start Time</Label>
+              <Input
+                id="offerStart"
+                type="time"
+                value={form.startTime}
+                onChange={(e) => setForm({ ...form, startTime: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="offerDuration">Duration (hours)</Label>
+              <Input
+                id="offerDuration"
+                type="number"
+                step="0.5"
+                placeholder="Full day"
+                value={form.durationHours}
+                onChange={(e) => setForm({ ...form, durationHours: e.target.value })}
+              />
+            </div>
+          </div>
+          <Textarea
+            placeholder="Add a note (optional)"
+            value={form.message}
+            onChange={(e) => setForm({ ...form, message: e.target.value })}
+            rows={2}
+            maxLength={500}
+          />
+          <div className="flex gap-2">
+            <Button variant="outline" className="flex-1" onClick={() => setCountering(false)} disabled={submitting}>
+              Back
+            </Button>
+            <Button className="flex-1" onClick={handleCounter} disabled={submitting}>
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send Counter-Offer
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Card } from "@/components/ui/card";
+import { ReviewForm } from "@/components/ReviewForm";
+import { EyeOff, Star } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { BookingActor } from "@/lib/bookingStatus";
+
+type BookingReview = Pick<Tables<"reviews">, "id" | "rating" | "review_text" | "revealed_at">;
+
+interface BookingReviewsProps {
+  bookingId: string;
+  workerId: string;
+  hirerId: string;
+  categoryId?: string | null;
+  actor: BookingActor;
+}
+
+const ReviewStars = ({ rating }: { rating: number }) => (
+  <div className="flex items-center">
+    {[1, 2, 3, 4, 5].map((star) => (
+      <Star
+        key={star}
+        className={`h-4 w-4 ${star <= rating ? "fill-warning text-warning" : "text-muted-foreground"}`}
+      />
+    ))}
+  </div>
+);
+
+export const BookingReviews = ({ bookingId, workerId, hirerId, categoryId, actor }: BookingReviewsProps) => {
+  const [ownReview, setOwnReview] = useState<BookingReview | null>(null);
+  // Only returned by RLS once it has been published
+  const [otherReview, setOtherReview] = useState<BookingReview | null>(null);
+  const [deadline, setDeadline] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const other = actor === "hirer" ? "worker" : "hirer";
+
+  useEffect(() => {
+    loadReviews();
+  }, [bookingId, actor]);
+
+  const loadReviews = async () => {
+    const ownTable = actor === "hirer" ? "reviews" : "hirer_reviews";
+    const otherTable = actor === "hirer" ? "hirer_reviews" : "reviews";
+
+    const [ownResult, otherResult, deadlineResult] = await Promise.all([
+      supabase.from(ownTable).select("id, rating, review_text, revealed_at").eq("booking_id", bookingId).maybeSingle(),
+      supabase.from(otherTable).select("id, rating, review_text, revealed_at").eq("booking_id", bookingId).maybeSingle(),
+      supabase.rpc("booking_review_deadline", { _booking_id: bookingId }),
+    ]);
+
+    const error = ownResult.error || otherResult.error || deadlineResult.error;
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load reviews"));
+    }
+    setOwnReview(ownResult.data);
+    setOtherReview(otherResult.data);
+    setDeadline(deadlineResult.data);
+    setLoading(false);
+  };
+
+  if (loading) return null;
+
+  const windowOpen = !!deadline && new Date(deadline) > new Date();
+
+  return (
+    <>
+      {!ownReview && windowOpen && (
+        <ReviewForm
+          bookingId={bookingId}
+          workerId={workerId}
+          hirerId={hirerId}
+          reviewee={other}
+          categoryId={categoryId}
+          onReviewSubmitted={loadReviews}
+        />
+      )}
+
+      {ownReview && (
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-2">Your Review</h3>
+          <ReviewStars rating={ownReview.rating} />
+          {ownReview.review_text && <p className="text-sm mt-2">{ownReview.review_text}</p>}
+          <p className="text-sm text-muted-foreground mt-2">
+            {/* Past the deadline it is public even before reveal_due_reviews has run */}
+            {ownReview.revealed_at || !windowOpen
+              ? "Published. Thank you for your feedback!"
+              : `Hidden until the ${other} reviews you${
+                  deadline ? ` or until ${format(new Date(deadline), "MMM d, yyyy")}` : ""
+                }.`}
+          </p>
+        </Card>
+      )}
+
+      {otherReview ? (
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-2">{other === "worker" ? "Worker" : "Hirer"}'s Review of You</h3>
+          <ReviewStars rating={otherReview.rating} />
+          {otherReview.review_text && <p className="text-sm mt-2">{otherReview.review_text}</p>}
+        </Card>
+      ) : (
+        windowOpen && (
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+              <EyeOff className="h-5 w-5" />
+              {other === "worker" ? "Worker" : "Hirer"}'s Review of You
+            </h3>
+            <p className="text-sm text-muted-foreground">
+              {ownReview
+                ? "You'll see it here once it's published."
+                : `Any review the ${other} leaves stays hidden until you've submitted yours or the review window closes.`}
+            </p>
+          </Card>
+        )
+      )}
+    </>
+  );
+};
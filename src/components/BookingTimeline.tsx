@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Card } from "@/components/ui/card";
+import { History } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { getBookingStatusLabel } from "@/lib/bookingStatus";
+
+type BookingEvent = Tables<"booking_events"> & {
+  actor: Pick<Tables<"profiles">, "full_name"> | null;
+};
+
+interface BookingTimelineProps {
+  bookingId: string;
+  // Changes whenever the booking row is updated so the timeline reloads
+  refreshKey?: string;
+}
+
+const formatValue = (field: string, value: string | null) => {
+  if (value === null) return "none";
+  switch (field) {
+    case "status":
+      return getBookingStatusLabel(value);
+    case "agreed_rate":
+      return `₹${value}`;
+    case "booking_date":
+      return format(parseISO(value), "MMM d, yyyy");
+    case "start_time":
+      return value.slice(0, 5);
+    default:
+      return value;
+  }
+};
+
+const describeEvent = (event: BookingEvent) => {
+  const from = formatValue(event.field, event.old_value);
+  const to = formatValue(event.field, event.new_value);
+
+  switch (event.field) {
+    case "created":
+      return "Booking requested";
+    case "status":
+      return `Status changed from ${from} to ${to}`;
+    case "agreed_rate":
+      return `Rate changed from ${from} to ${to}`;
+    case "booking_date":
+      return `Date moved from ${from} to ${to}`;
+    case "start_time":
+      return `Start time changed from ${from} to ${to}`;
+    case "payment_status":
+      return `Payment status changed from ${from} to ${to}`;
+    default:
+      return `${event.field} changed`;
+  }
+};
+
+export const BookingTimeline = ({ bookingId, refreshKey }: BookingTimelineProps) => {
+  const [events, setEvents] = useState<BookingEvent[]>([]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [bookingId, refreshKey]);
+
+  const loadEvents = async () => {
+    const { data, error } = await supabase
+      .from("booking_events")
+      .select(`
+        *,
+        actor:profiles!booking_events_actor_id_fkey(full_name)
+      `)
+      .eq("booking_id", bookingId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load booking history"));
+      return;
+    }
+    setEvents((data as BookingEvent[]) || []);
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <History className="h-5 w-5" />
+        History
+      </h3>
+      {events.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No history recorded yet</p>
+      ) : (
+        <ol className="relative border-l ml-2 space-y-4">
+          {events.map((event) => (
+            <li key={event.id} className="ml-4">
+              <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary"></div>
+              <p className="text-sm font-medium">{describeEvent(event)}</p>
+              <p className="text-xs text-muted-foreground">
+                {event.actor?.full_name || "System"} • {format(new Date(event.created_at), "MMM d, yyyy h:mm a")}
+              </p>
+              {event.reason && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  <span className="font-medium">Reason:</span> {event.reason}
+                </p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </Card>
+  );
+};
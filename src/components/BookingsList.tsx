@@ -4,11 +4,13 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Calendar, Clock, Eye, MessageCircle } from "lucide-react";
+import { Calendar, Clock, Eye, MessageCircle, Star } from "lucide-react";
 import { format } from "date-fns";
 import { handleSupabaseError } from "@/lib/errorMessages";
 import { toast } from "sonner";
 import { useUnreadMessages } from "@/hooks/useUnreadMessages";
+import { useUnreadBookingMessages } from "@/hooks/useUnreadBookingMessages";
+import { formatRating } from "@/lib/ratings";
 
 interface BookingsListProps {
   userId: string;
@@ -20,6 +22,7 @@ export const BookingsList = ({ userId, userRole }: BookingsListProps) => {
   const [bookings, setBookings] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const unreadCounts = useUnreadMessages(userId);
+  const unreadBookingCounts = useUnreadBookingMessages(userId);
 
   useEffect(() => {
     loadBookings();
@@ -71,6 +74,7 @@ export const BookingsList = ({ userId, userRole }: BookingsListProps) => {
       case "completed":
         return "default";
       case "confirmed":
+      case "in_progress":
         return "secondary";
       case "cancelled":
         return "destructive";
@@ -85,6 +89,8 @@ export const BookingsList = ({ userId, userRole }: BookingsListProps) => {
         return userRole === "hirer" ? "Awaiting Worker Response" : "Action Required";
       case "confirmed":
         return "Accepted";
+      case "in_progress":
+        return "In Progress";
       case "completed":
         return "Completed";
       case "cancelled":
@@ -130,6 +136,22 @@ export const BookingsList = ({ userId, userRole }: BookingsListProps) => {
                   <p className="text-sm text-muted-foreground">
                     {booking.worker.category.name}
                   </p>
+                  {userRole === "worker" && (
+                    // Hirer reputation from published worker reviews
+                    <div className="flex items-center gap-1 text-sm mt-1">
+                      <span className="text-muted-foreground">Hirer rating</span>
+                      <Star className="h-4 w-4 fill-warning text-warning" />
+                      <span className="font-medium">
+                        {formatRating({
+                          rating: booking.hirer.hirer_rating,
+                          rating_count: booking.hirer.hirer_rating_count,
+                        })}
+                      </span>
+                      {booking.hirer.hirer_rating_count > 0 && (
+                        <span className="text-muted-foreground">({booking.hirer.hirer_rating_count})</span>
+                      )}
+                    </div>
+                  )}
                 </div>
                 <Badge variant={getStatusColor(booking.status)}>
                   {getStatusLabel(booking.status)}
@@ -161,11 +183,19 @@ export const BookingsList = ({ userId, userRole }: BookingsListProps) => {
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => navigate(`/booking/${booking.id}`)}
+                onClick={() => navigate(`/booking-detail/${booking.id}`)}
                 className="w-full md:w-auto"
               >
                 <Eye className="mr-2 h-4 w-4" />
                 View Details
+                {unreadBookingCounts[booking.id] > 0 && (
+                  <Badge
+                    variant="destructive"
+                    className="ml-2 h-5 min-w-5 px-1 text-xs"
+                  >
+                    {unreadBookingCounts[booking.id]}
+                  </Badge>
+                )}
               </Button>
               {booking.status === "confirmed" && (
                 <Button
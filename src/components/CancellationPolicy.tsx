@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { ShieldAlert } from "lucide-react";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import {
+  CancellationParty,
+  CancellationTier,
+  calculateCancellationAmount,
+  describeCancellationTier,
+  findCancellationTier,
+  getHoursUntilStart,
+} from "@/lib/cancellationPolicy";
+
+interface CancellationPolicyProps {
+  // When given, the fee the hirer would pay for cancelling right now is shown
+  agreedRate?: number;
+  bookingDate?: string;
+  startTime?: string | null;
+}
+
+const SECTIONS: { title: string; parties: CancellationParty[] }[] = [
+  { title: "If you cancel after the worker accepts", parties: ["hirer"] },
+  { title: "If the worker cancels or doesn't show up", parties: ["worker", "worker_no_show"] },
+];
+
+export const CancellationPolicy = ({ agreedRate, bookingDate, startTime }: CancellationPolicyProps) => {
+  const [tiers, setTiers] = useState<CancellationTier[]>([]);
+
+  useEffect(() => {
+    loadTiers();
+  }, []);
+
+  const loadTiers = async () => {
+    const { data, error } = await supabase
+      .from("cancellation_policy_tiers")
+      .select("*")
+      .order("min_hours_before", { ascending: false });
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load cancellation policy"));
+      return;
+    }
+    setTiers(data || []);
+  };
+
+  if (tiers.length === 0) return null;
+
+  const currentFee =
+    agreedRate && bookingDate
+      ? calculateCancellationAmount(
+          findCancellationTier(tiers, "hirer", getHoursUntilStart(bookingDate, startTime)),
+          agreedRate
+        )
+      : null;
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <h3 className="font-semibold flex items-center gap-2">
+        <ShieldAlert className="h-4 w-4" />
+        Cancellation Policy
+      </h3>
+      {SECTIONS.map((section) => (
+        <div key={section.title}>
+          <p className="text-sm font-medium">{section.title}</p>
+          <ul className="text-sm text-muted-foreground list-disc pl-5">
+            {tiers
+              .filter((tier) => section.parties.includes(tier.applies_to as CancellationParty))
+              .map((tier) => (
+                <li key={tier.id}>{describeCancellationTier(tier, tiers)}</li>
+              ))}
+          </ul>
+        </div>
+      ))}
+      <p className="text-xs text-muted-foreground">
+        Withdrawing a request before the worker accepts is always free. When the worker cancels you get a full refund.
+      </p>
+      {currentFee !== null && (
+        <p className="text-sm">
+          Cancelling this booking once accepted would currently cost{" "}
+          <span className="font-semibold">₹{currentFee.toFixed(2)}</span>
+        </p>
+      )}
+    </div>
+  );
+};
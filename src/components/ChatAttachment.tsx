@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import { File } from "lucide-react";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { getChatFileUrl } from "@/lib/chat";
+
+interface ChatAttachmentProps {
+  path: string;
+  fileType: string | null;
+}
+
+export const ChatAttachment = ({ path, fileType }: ChatAttachmentProps) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const isImage = fileType?.startsWith("image/") ?? false;
+
+  useEffect(() => {
+    if (!isImage) return;
+    getChatFileUrl(path)
+      .then(setPreviewUrl)
+      .catch(() => setPreviewUrl(null));
+  }, [path, isImage]);
+
+  // Links expire quickly, so opening always signs a fresh one. The tab is
+  // opened before signing so popup blockers treat it as part of the click.
+  const openFile = async () => {
+    const tab = window.open("", "_blank");
+    try {
+      const url = await getChatFileUrl(path);
+      if (tab) tab.location.href = url;
+    } catch (error) {
+      tab?.close();
+      toast.error(handleSupabaseError(error, "Failed to open file"));
+    }
+  };
+
+  if (isImage) {
+    return (
+      <div className="mb-2">
+        {previewUrl ? (
+          <img
+            src={previewUrl}
+            alt="Shared image"
+            className="rounded max-w-full h-auto max-h-64 object-cover cursor-pointer"
+            onClick={openFile}
+          />
+        ) : (
+          <div className="h-32 w-48 rounded bg-background/20 animate-pulse" />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <button type="button" onClick={openFile} className="flex items-center gap-2 mb-2 hover:underline">
+      <File className="h-4 w-4" />
+      <span className="text-sm">Download File</span>
+    </button>
+  );
+};
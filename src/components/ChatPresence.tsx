@@ -0,0 +1,42 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { formatDistanceToNow } from "date-fns";
+import { useOnlineUsers } from "@/hooks/usePresence";
+
+interface ChatPresenceProps {
+  userId: string;
+  // The user has this conversation open
+  present: boolean;
+  typing: boolean;
+}
+
+export const ChatPresence = ({ userId, present, typing }: ChatPresenceProps) => {
+  const onlineUserIds = useOnlineUsers([userId]);
+  const [lastSeenAt, setLastSeenAt] = useState<string | null>(null);
+  const online = present || onlineUserIds.has(userId);
+
+  // Reloaded whenever they go offline, so it reflects that session
+  useEffect(() => {
+    if (online) return;
+    loadLastSeen();
+  }, [userId, online]);
+
+  const loadLastSeen = async () => {
+    // No row when they're hidden from us, e.g. by a block
+    const { data } = await supabase.from("user_last_seen").select("last_seen_at").eq("user_id", userId).maybeSingle();
+    setLastSeenAt(data?.last_seen_at ?? null);
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <span className={`h-2 w-2 rounded-full ${online ? "bg-success" : "bg-muted-foreground/40"}`} />
+      {typing
+        ? "typing…"
+        : online
+          ? "Online"
+          : lastSeenAt
+            ? `Last seen ${formatDistanceToNow(new Date(lastSeenAt), { addSuffix: true })}`
+            : "Offline"}
+    </div>
+  );
+};
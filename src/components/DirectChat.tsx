@@ -4,10 +4,30 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Send, Paperclip, X, Image as ImageIcon, File } from "lucide-react";
+import { Send, Paperclip, X, Image as ImageIcon, File, Pencil, Trash2, Flag, Ban, Bell, BellOff } from "lucide-react";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { handleSupabaseError } from "@/lib/errorMessages";
+import { CHAT_FILE_TYPES, CHAT_PAGE_SIZE, MAX_CHAT_FILE_SIZE, mergeMessages, uploadChatFile } from "@/lib/chat";
+import { useChatScroll } from "@/hooks/useChatScroll";
+import { ChatAttachment } from "@/components/ChatAttachment";
+import { ChatPresence } from "@/components/ChatPresence";
+import { useConversationPresence } from "@/hooks/usePresence";
+import { directConversationKey } from "@/lib/presence";
+import { ReportMessageDialog } from "@/components/ReportMessageDialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { canEditMessage } from "@/lib/messageModeration";
+import { useUserBlock } from "@/hooks/useUserBlock";
+import { useConversationMute } from "@/hooks/useConversationMute";
 
 interface DirectMessage {
   id: string;
@@ -16,8 +36,12 @@ interface DirectMessage {
   receiver_id: string;
   created_at: string;
   read_at: string | null;
-  file_url: string | null;
+  file_path: string | null;
   file_type: string | null;
+  edited_at: string | null;
+  deleted_at: string | null;
+  // Sent optimistically and not yet confirmed by the server
+  pending?: boolean;
 }
 
 interface DirectChatProps {
@@ -28,17 +52,34 @@ interface DirectChatProps {
 
 export const DirectChat = ({ currentUserId, otherUserId, otherUserName }: DirectChatProps) => {
   const [messages, setMessages] = useState<DirectMessage[]>([]);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
   const [newMessage, setNewMessage] = useState("");
   const [loading, setLoading] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [confirmingBlock, setConfirmingBlock] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { containerRef, keepPosition } = useChatScroll(messages);
+  const { otherPresent, otherTyping, notifyTyping, stopTyping } = useConversationPresence(
+    directConversationKey(currentUserId, otherUserId),
+    currentUserId,
+    otherUserId
+  );
+  const { blocked, blockedByMe, block, unblock, refresh: refreshBlock } = useUserBlock(currentUserId, otherUserId);
+  const { muted, toggleMute } = useConversationMute(currentUserId, "partner_id", otherUserId);
 
   useEffect(() => {
+    setMessages([]);
     loadMessages();
-    
-    // Subscribe to real-time messages
+
+    // Realtime filters take a single column, so listen to each direction and
+    // keep the messages that belong to this conversation
     const channel = supabase
       .channel(`direct-chat-${currentUserId}-${otherUserId}`)
       .on(
@@ -47,10 +88,56 @@ export const DirectChat = ({ currentUserId, otherUserId, otherUserName }: Direct
           event: 'INSERT',
           schema: 'public',
           table: 'direct_messages',
-          filter: `sender_id=in.(${currentUserId},${otherUserId}),receiver_id=in.(${currentUserId},${otherUserId})`
+          filter: `receiver_id=eq.${currentUserId}`
+        },
+        (payload) => {
+          const message = payload.new as DirectMessage;
+          if (message.sender_id !== otherUserId) return;
+          setMessages((current) => mergeMessages(current, [message]));
+          markAsRead();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'direct_messages',
+          filter: `sender_id=eq.${currentUserId}`
+        },
+        (payload) => {
+          const message = payload.new as DirectMessage;
+          if (message.receiver_id !== otherUserId) return;
+          setMessages((current) => mergeMessages(current, [message]));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'direct_messages',
+          filter: `receiver_id=eq.${currentUserId}`
+        },
+        (payload) => {
+          // Edits and deletions by the other participant
+          const message = payload.new as DirectMessage;
+          if (message.sender_id !== otherUserId) return;
+          setMessages((current) => mergeMessages(current, [message]));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'direct_messages',
+          filter: `sender_id=eq.${currentUserId}`
         },
-        () => {
-          loadMessages();
+        (payload) => {
+          const message = payload.new as DirectMessage;
+          if (message.receiver_id !== otherUserId) return;
+          setMessages((current) => mergeMessages(current, [message]));
         }
       )
       .subscribe();
@@ -60,50 +147,65 @@ export const DirectChat = ({ currentUserId, otherUserId, otherUserName }: Direct
     };
   }, [currentUserId, otherUserId]);
 
-  useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+  // Newest first, so a page is the most recent messages before a point
+  const conversationQuery = () =>
+    supabase
+      .from("direct_messages")
+      .select("*")
+      .or(`and(sender_id.eq.${currentUserId},receiver_id.eq.${otherUserId}),and(sender_id.eq.${otherUserId},receiver_id.eq.${currentUserId})`)
+      .order("created_at", { ascending: false })
+      .limit(CHAT_PAGE_SIZE);
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  const markAsRead = async () => {
+    await supabase.rpc("mark_direct_messages_read", { _partner_id: otherUserId });
   };
 
   const loadMessages = async () => {
-    const { data, error } = await supabase
-      .from("direct_messages")
-      .select("*")
-      .or(`and(sender_id.eq.${currentUserId},receiver_id.eq.${otherUserId}),and(sender_id.eq.${otherUserId},receiver_id.eq.${currentUserId})`)
-      .order("created_at", { ascending: true });
+    const { data, error } = await conversationQuery();
 
     if (error) {
       toast.error(handleSupabaseError(error, "Failed to load messages"));
       return;
     }
 
-    setMessages(data || []);
+    // Keep anything realtime delivered while the page was loading
+    setMessages((current) => mergeMessages(current, data || []));
+    setHasOlder((data?.length || 0) === CHAT_PAGE_SIZE);
 
-    // Mark messages as read
-    const unreadMessages = data?.filter(
-      (msg) => msg.receiver_id === currentUserId && !msg.read_at
-    );
-    
-    if (unreadMessages && unreadMessages.length > 0) {
-      await supabase
-        .from("direct_messages")
-        .update({ read_at: new Date().toISOString() })
-        .in(
-          "id",
-          unreadMessages.map((msg) => msg.id)
-        );
+    if (data?.some((msg) => msg.receiver_id === currentUserId && !msg.read_at)) {
+      await markAsRead();
+    }
+  };
+
+  const loadOlderMessages = async () => {
+    const oldest = messages.find((message) => !message.pending);
+    if (!hasOlder || loadingOlder || !oldest) return;
+
+    setLoadingOlder(true);
+    const { data, error } = await conversationQuery().lt("created_at", oldest.created_at);
+    setLoadingOlder(false);
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load older messages"));
+      return;
     }
+
+    keepPosition();
+    setMessages((current) => mergeMessages(current, data || []));
+    setHasOlder((data?.length || 0) === CHAT_PAGE_SIZE);
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
+    if (!CHAT_FILE_TYPES.includes(file.type)) {
+      toast.error("Only images, PDFs, Word documents and text files can be shared");
+      return;
+    }
+
     // Validate file size (max 10MB)
-    if (file.size > 10 * 1024 * 1024) {
+    if (file.size > MAX_CHAT_FILE_SIZE) {
       toast.error("File size must be less than 10MB");
       return;
     }
@@ -111,55 +213,57 @@ export const DirectChat = ({ currentUserId, otherUserId, otherUserName }: Direct
     setSelectedFile(file);
   };
 
-  const uploadFile = async (file: File) => {
-    const fileExt = file.name.split('.').pop();
-    const fileName = `${currentUserId}/${Date.now()}.${fileExt}`;
-
-    const { error: uploadError, data } = await supabase.storage
-      .from('chat-files')
-      .upload(fileName, file);
-
-    if (uploadError) throw uploadError;
-
-    const { data: { publicUrl } } = supabase.storage
-      .from('chat-files')
-      .getPublicUrl(fileName);
-
-    return { url: publicUrl, type: file.type };
-  };
-
   const handleSendMessage = async () => {
-    if (!newMessage.trim() && !selectedFile) return;
+    const content = newMessage.trim();
+    if (!content && !selectedFile) return;
+    stopTyping();
 
     setLoading(true);
     setUploading(true);
 
     try {
-      let fileUrl = null;
-      let fileType = null;
+      const filePath = selectedFile ? await uploadChatFile(currentUserId, selectedFile) : null;
+      const fileType = selectedFile?.type || null;
 
-      if (selectedFile) {
-        const result = await uploadFile(selectedFile);
-        fileUrl = result.url;
-        fileType = result.type;
-      }
+      // Shown straight away; the server row and its realtime echo share the id
+      const message: DirectMessage = {
+        id: crypto.randomUUID(),
+        sender_id: currentUserId,
+        receiver_id: otherUserId,
+        content: content || "Sent a file",
+        file_path: filePath,
+        file_type: fileType,
+        created_at: new Date().toISOString(),
+        read_at: null,
+        edited_at: null,
+        deleted_at: null,
+      };
+      setMessages((current) => mergeMessages(current, [{ ...message, pending: true }]));
+      setNewMessage("");
+      setSelectedFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
 
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from("direct_messages")
         .insert({
-          sender_id: currentUserId,
-          receiver_id: otherUserId,
-          content: newMessage.trim() || "Sent a file",
-          file_url: fileUrl,
-          file_type: fileType
-        });
+          id: message.id,
+          sender_id: message.sender_id,
+          receiver_id: message.receiver_id,
+          content: message.content,
+          file_path: message.file_path,
+          file_type: message.file_type
+        })
+        .select()
+        .single();
 
       if (error) {
+        setMessages((current) => current.filter((msg) => msg.id !== message.id));
+        setNewMessage(content);
         toast.error(handleSupabaseError(error, "Failed to send message"));
+        // The other user may have blocked us since the chat was opened
+        refreshBlock();
       } else {
-        setNewMessage("");
-        setSelectedFile(null);
-        if (fileInputRef.current) fileInputRef.current.value = '';
+        setMessages((current) => mergeMessages(current, [data]));
       }
     } catch (error: any) {
       toast.error(error.message || "Failed to upload file");
@@ -169,6 +273,82 @@ export const DirectChat = ({ currentUserId, otherUserId, otherUserName }: Direct
     }
   };
 
+  const startEditing = (message: DirectMessage) => {
+    setEditingId(message.id);
+    setEditText(message.content);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId) return;
+    const content = editText.trim();
+    if (!content) {
+      toast.error("Message cannot be empty");
+      return;
+    }
+
+    setSavingEdit(true);
+    const { data, error } = await supabase.rpc("edit_direct_message", {
+      _message_id: editingId,
+      _content: content,
+    });
+    setSavingEdit(false);
+
+    if (error) {
+      // An expired edit window comes back as MS001
+      toast.error(handleSupabaseError(error));
+      return;
+    }
+
+    setMessages((current) => mergeMessages(current, [data]));
+    setEditingId(null);
+  };
+
+  const handleDelete = async () => {
+    if (!deletingId) return;
+    const messageId = deletingId;
+    setDeletingId(null);
+
+    const { error } = await supabase.rpc("remove_direct_message", { _message_id: messageId });
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to delete message"));
+      return;
+    }
+
+    setMessages((current) =>
+      current.map((msg) =>
+        msg.id === messageId
+          ? { ...msg, content: "", file_path: null, file_type: null, deleted_at: new Date().toISOString() }
+          : msg
+      )
+    );
+  };
+
+  const handleBlock = async () => {
+    setConfirmingBlock(false);
+    const error = await block();
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to block user"));
+      return;
+    }
+    toast.success(`${otherUserName} has been blocked`);
+  };
+
+  const handleUnblock = async () => {
+    const error = await unblock();
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to unblock user"));
+      return;
+    }
+    toast.success(`${otherUserName} has been unblocked`);
+  };
+
+  const handleToggleMute = async () => {
+    const error = await toggleMute();
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to update notifications"));
+    }
+  };
+
   const getInitials = (name: string) => {
     return name
       .split(" ")
@@ -179,9 +359,37 @@ export const DirectChat = ({ currentUserId, otherUserId, otherUserName }: Direct
 
   return (
     <Card className="p-4">
-      <h3 className="text-lg font-semibold mb-4">Chat with {otherUserName}</h3>
+      <div className="mb-4 flex items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold">Chat with {otherUserName}</h3>
+          <ChatPresence userId={otherUserId} present={otherPresent} typing={otherTyping} />
+        </div>
+        <div className="flex gap-1">
+          <Button variant="ghost" size="sm" onClick={handleToggleMute}>
+            {muted ? <BellOff className="mr-2 h-4 w-4" /> : <Bell className="mr-2 h-4 w-4" />}
+            {muted ? "Unmute" : "Mute"}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => (blockedByMe ? handleUnblock() : setConfirmingBlock(true))}
+          >
+            <Ban className="mr-2 h-4 w-4" />
+            {blockedByMe ? "Unblock" : "Block"}
+          </Button>
+        </div>
+      </div>
       
-      <div className="space-y-4 mb-4 max-h-96 overflow-y-auto">
+      <div
+        ref={containerRef}
+        className="space-y-4 mb-4 max-h-96 overflow-y-auto"
+        onScroll={(e) => {
+          if (e.currentTarget.scrollTop < 40) loadOlderMessages();
+        }}
+      >
+        {loadingOlder && (
+          <div className="text-center text-xs text-muted-foreground">Loading older messages...</div>
+        )}
         {messages.map((message) => {
           const isOwnMessage = message.sender_id === currentUserId;
           return (
@@ -196,43 +404,68 @@ export const DirectChat = ({ currentUserId, otherUserId, otherUserName }: Direct
               </Avatar>
               <div className={`flex-1 ${isOwnMessage ? "text-right" : ""}`}>
                 <div className="text-xs text-muted-foreground mb-1">
-                  {format(new Date(message.created_at), "MMM d, h:mm a")}
+                  {message.pending ? "Sending..." : format(new Date(message.created_at), "MMM d, h:mm a")}
+                  {message.edited_at && !message.deleted_at && " • edited"}
                 </div>
-                <div
-                  className={`inline-block rounded-lg px-4 py-2 max-w-md ${
-                    isOwnMessage
-                      ? "bg-primary text-primary-foreground"
-                      : "bg-muted"
-                  }`}
-                >
-                  {message.file_url && message.file_type?.startsWith('image/') && (
-                    <div className="mb-2">
-                      <img 
-                        src={message.file_url} 
-                        alt="Shared image" 
-                        className="rounded max-w-full h-auto max-h-64 object-cover cursor-pointer"
-                        onClick={() => window.open(message.file_url!, '_blank')}
-                      />
+                {message.deleted_at ? (
+                  <div className="inline-block rounded-lg px-4 py-2 border text-sm italic text-muted-foreground">
+                    This message was deleted
+                  </div>
+                ) : editingId === message.id ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={editText}
+                      onChange={(e) => setEditText(e.target.value)}
+                      className="min-h-[60px]"
+                      autoFocus
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={handleSaveEdit} disabled={savingEdit || !editText.trim()}>
+                        Save
+                      </Button>
                     </div>
-                  )}
-                  {message.file_url && !message.file_type?.startsWith('image/') && (
-                    <a 
-                      href={message.file_url} 
-                      target="_blank" 
-                      rel="noopener noreferrer"
-                      className="flex items-center gap-2 mb-2 hover:underline"
-                    >
-                      <File className="h-4 w-4" />
-                      <span className="text-sm">Download File</span>
-                    </a>
-                  )}
-                  <div>{message.content}</div>
-                </div>
+                  </div>
+                ) : (
+                  <div
+                    className={`inline-block rounded-lg px-4 py-2 max-w-md ${
+                      isOwnMessage
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-muted"
+                    } ${message.pending ? "opacity-70" : ""}`}
+                  >
+                    {message.file_path && (
+                      <ChatAttachment path={message.file_path} fileType={message.file_type} />
+                    )}
+                    <div>{message.content}</div>
+                  </div>
+                )}
+                {!message.pending && !message.deleted_at && editingId !== message.id && (
+                  <div className={`flex gap-1 mt-1 ${isOwnMessage ? "justify-end" : ""}`}>
+                    {isOwnMessage ? (
+                      <>
+                        {canEditMessage(message) && (
+                          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => startEditing(message)}>
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setDeletingId(message.id)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </>
+                    ) : (
+                      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => setReportingId(message.id)}>
+                        <Flag className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           );
         })}
-        <div ref={messagesEndRef} />
       </div>
 
       {messages.length === 0 && (
@@ -241,65 +474,111 @@ export const DirectChat = ({ currentUserId, otherUserId, otherUserName }: Direct
         </div>
       )}
 
-      {selectedFile && (
-        <div className="flex items-center gap-2 p-2 bg-muted rounded-lg mb-2">
-          {selectedFile.type.startsWith('image/') ? (
-            <ImageIcon className="h-4 w-4" />
-          ) : (
-            <File className="h-4 w-4" />
-          )}
-          <span className="text-sm flex-1 truncate">{selectedFile.name}</span>
-          <Button
-            size="icon"
-            variant="ghost"
-            className="h-6 w-6"
-            onClick={() => {
-              setSelectedFile(null);
-              if (fileInputRef.current) fileInputRef.current.value = '';
-            }}
-          >
-            <X className="h-4 w-4" />
-          </Button>
+      {blocked ? (
+        <div className="p-3 bg-muted rounded-lg text-sm text-center text-muted-foreground">
+          {blockedByMe
+            ? `You blocked ${otherUserName}. Unblock them to send messages.`
+            : "You can't send messages in this conversation."}
         </div>
+      ) : (
+        <>
+          {selectedFile && (
+            <div className="flex items-center gap-2 p-2 bg-muted rounded-lg mb-2">
+              {selectedFile.type.startsWith('image/') ? (
+                <ImageIcon className="h-4 w-4" />
+              ) : (
+                <File className="h-4 w-4" />
+              )}
+              <span className="text-sm flex-1 truncate">{selectedFile.name}</span>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-6 w-6"
+                onClick={() => {
+                  setSelectedFile(null);
+                  if (fileInputRef.current) fileInputRef.current.value = '';
+                }}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              onChange={handleFileSelect}
+              accept={CHAT_FILE_TYPES.join(",")}
+            />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={loading || uploading}
+            >
+              <Paperclip className="h-4 w-4" />
+            </Button>
+            <Textarea
+              value={newMessage}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                notifyTyping();
+              }}
+              placeholder="Type your message..."
+              className="min-h-[80px]"
+              disabled={uploading}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSendMessage();
+                }
+              }}
+            />
+            <Button
+              onClick={handleSendMessage}
+              disabled={(!newMessage.trim() && !selectedFile) || loading || uploading}
+              size="icon"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          </div>
+        </>
       )}
 
-      <div className="flex gap-2">
-        <input
-          ref={fileInputRef}
-          type="file"
-          className="hidden"
-          onChange={handleFileSelect}
-          accept="image/*,.pdf,.doc,.docx,.txt"
-        />
-        <Button
-          variant="outline"
-          size="icon"
-          onClick={() => fileInputRef.current?.click()}
-          disabled={loading || uploading}
-        >
-          <Paperclip className="h-4 w-4" />
-        </Button>
-        <Textarea
-          value={newMessage}
-          onChange={(e) => setNewMessage(e.target.value)}
-          placeholder="Type your message..."
-          className="min-h-[80px]"
-          disabled={uploading}
-          onKeyDown={(e) => {
-            if (e.key === "Enter" && !e.shiftKey) {
-              e.preventDefault();
-              handleSendMessage();
-            }
-          }}
-        />
-        <Button
-          onClick={handleSendMessage}
-          disabled={(!newMessage.trim() && !selectedFile) || loading || uploading}
-          size="icon"
-        >
-          <Send className="h-4 w-4" />
-        </Button>
-      </div>
+      <ReportMessageDialog messageId={reportingId} reporterId={currentUserId} onClose={() => setReportingId(null)} />
+
+      <AlertDialog open={confirmingBlock} onOpenChange={setConfirmingBlock}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Block {otherUserName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Neither of you will be able to message or book the other, and you won't see each other in search
+              results. You can unblock them from this chat at any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleBlock}>Block</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!deletingId} onOpenChange={(open) => !open && setDeletingId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The message is removed for both of you. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 };
@@ -0,0 +1,92 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { workerDocumentSchema } from "@/lib/validationSchemas";
+import { DOCUMENT_TYPE_LABELS, PendingDocument, WorkerDocumentType } from "@/lib/workerDocuments";
+
+interface DocumentUploadFormProps {
+  onSubmit: (document: PendingDocument) => Promise<void> | void;
+  submitLabel?: string;
+}
+
+export const DocumentUploadForm = ({ onSubmit, submitLabel = "Upload Document" }: DocumentUploadFormProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [documentType, setDocumentType] = useState<WorkerDocumentType | "">("");
+  const [file, setFile] = useState<File | null>(null);
+  const [expiresOn, setExpiresOn] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    const validationResult = workerDocumentSchema.safeParse({ documentType, file, expiresOn });
+    if (!validationResult.success) {
+      toast.error(validationResult.error.errors[0].message);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit({
+        documentType: validationResult.data.documentType,
+        file: validationResult.data.file,
+        expiresOn: validationResult.data.expiresOn || "",
+      });
+      setDocumentType("");
+      setFile(null);
+      setExpiresOn("");
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <Label>Document Type</Label>
+          <Select value={documentType} onValueChange={(value) => setDocumentType(value as WorkerDocumentType)}>
+            <SelectTrigger className="mt-2">
+              <SelectValue placeholder="Select type" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(DOCUMENT_TYPE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="documentExpiry">Expiry Date</Label>
+          <Input
+            id="documentExpiry"
+            type="date"
+            className="mt-2"
+            value={expiresOn}
+            onChange={(e) => setExpiresOn(e.target.value)}
+          />
+        </div>
+      </div>
+      <div>
+        <Label htmlFor="documentFile">File (JPG, PNG, WEBP or PDF, max 10MB)</Label>
+        <Input
+          id="documentFile"
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/webp,application/pdf"
+          className="mt-2"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+        />
+      </div>
+      <Button type="button" variant="outline" onClick={handleSubmit} disabled={submitting}>
+        {submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+        {submitLabel}
+      </Button>
+    </div>
+  );
+};
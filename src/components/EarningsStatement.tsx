@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Wallet } from "lucide-react";
+import { endOfMonth, format, parseISO, startOfMonth, subMonths } from "date-fns";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { Invoice, downloadEarningsStatementPdf } from "@/lib/invoicePdf";
+import { getInvoiceGstAmount } from "@/lib/gst";
+
+interface EarningsStatementProps {
+  workerId: string;
+  workerName: string;
+}
+
+// The current month and the eleven before it, as yyyy-MM
+const STATEMENT_MONTHS = Array.from({ length: 12 }, (_, idx) => format(subMonths(new Date(), idx), "yyyy-MM"));
+
+export const EarningsStatement = ({ workerId, workerName }: EarningsStatementProps) => {
+  const [month, setMonth] = useState(STATEMENT_MONTHS[0]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+
+  useEffect(() => {
+    loadInvoices();
+  }, [workerId, month]);
+
+  const loadInvoices = async () => {
+    const monthStart = parseISO(`${month}-01`);
+    const { data, error } = await supabase
+      .from("invoices")
+      .select("*")
+      .eq("worker_id", workerId)
+      .gte("issued_at", startOfMonth(monthStart).toISOString())
+      .lte("issued_at", endOfMonth(monthStart).toISOString())
+      .order("issued_at", { ascending: true });
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load earnings"));
+      return;
+    }
+    setInvoices(data || []);
+  };
+
+  const total = invoices.reduce((sum, invoice) => sum + Number(invoice.total_amount), 0);
+  const gst = invoices.reduce((sum, invoice) => sum + getInvoiceGstAmount(invoice), 0);
+
+  return (
+    <Card className="p-6 shadow-card mb-6">
+      <h2 className="text-2xl font-semibold mb-4 flex items-center gap-2">
+        <Wallet className="h-6 w-6" />
+        Earnings Statement
+      </h2>
+
+      <div className="flex gap-2 mb-4">
+        <Select value={month} onValueChange={setMonth}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STATEMENT_MONTHS.map((value) => (
+              <SelectItem key={value} value={value}>
+                {format(parseISO(`${value}-01`), "MMMM yyyy")}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          disabled={invoices.length === 0}
+          onClick={() => downloadEarningsStatementPdf(workerName, parseISO(`${month}-01`), invoices)}
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Download PDF
+        </Button>
+      </div>
+
+      {invoices.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No completed jobs were invoiced this month.</p>
+      ) : (
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <p className="text-2xl font-bold">{invoices.length}</p>
+            <p className="text-sm text-muted-foreground">Jobs</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold">₹{gst.toFixed(2)}</p>
+            <p className="text-sm text-muted-foreground">GST collected</p>
+          </div>
+          <div>
+            <p className="text-2xl font-bold text-success">₹{total.toFixed(2)}</p>
+            <p className="text-sm text-muted-foreground">Total earnings</p>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+};
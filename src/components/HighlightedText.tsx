@@ -0,0 +1,26 @@
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+/**
+ * Renders search headlines from the database, turning <mark>…</mark> spans into
+ * highlighted elements. Everything else is rendered as plain text, never as HTML.
+ */
+export const HighlightedText = ({ text, className }: HighlightedTextProps) => {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+
+  return (
+    <span className={className}>
+      {parts.map((part, idx) =>
+        idx % 2 === 1 ? (
+          <mark key={idx} className="bg-warning/30 text-foreground rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+};
@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, LocateFixed, X } from "lucide-react";
+import { toast } from "sonner";
+import { GeoPoint, getCurrentPosition, isValidGeoPoint } from "@/lib/geo";
+
+interface LocationPickerProps {
+  value: GeoPoint | null;
+  onChange: (value: GeoPoint | null) => void;
+}
+
+export const LocationPicker = ({ value, onChange }: LocationPickerProps) => {
+  const [lat, setLat] = useState(value ? String(value.lat) : "");
+  const [lng, setLng] = useState(value ? String(value.lng) : "");
+  const [locating, setLocating] = useState(false);
+
+  useEffect(() => {
+    setLat(value ? String(value.lat) : "");
+    setLng(value ? String(value.lng) : "");
+  }, [value]);
+
+  const commit = (nextLat: string, nextLng: string) => {
+    if (!nextLat && !nextLng) {
+      onChange(null);
+      return;
+    }
+    const point = { lat: parseFloat(nextLat), lng: parseFloat(nextLng) };
+    if (isValidGeoPoint(point)) onChange(point);
+  };
+
+  const handleUseMyLocation = async () => {
+    setLocating(true);
+    try {
+      onChange(await getCurrentPosition());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Unable to get your current location");
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2">
+      <Input
+        type="number"
+        step="any"
+        placeholder="Latitude"
+        value={lat}
+        onChange={(e) => setLat(e.target.value)}
+        onBlur={() => commit(lat, lng)}
+      />
+      <Input
+        type="number"
+        step="any"
+        placeholder="Longitude"
+        value={lng}
+        onChange={(e) => setLng(e.target.value)}
+        onBlur={() => commit(lat, lng)}
+      />
+      <Button type="button" variant="outline" onClick={handleUseMyLocation} disabled={locating}>
+        {locating ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <LocateFixed className="mr-2 h-4 w-4" />
+        )}
+        Use my location
+      </Button>
+      {value && (
+        <Button type="button" variant="ghost" size="icon" onClick={() => onChange(null)}>
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+};
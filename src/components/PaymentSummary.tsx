@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CreditCard, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import {
+  EscrowResult,
+  PAYMENT_ENTRY_LABELS,
+  getPaymentStatusLabel,
+  holdBookingFunds,
+  releaseBookingFunds,
+  settleCancelledBooking,
+} from "@/lib/payments";
+
+interface PaymentSummaryProps {
+  booking: Tables<"bookings">;
+  onChange: () => void;
+}
+
+const getPaymentBadgeVariant = (status: string | null) => {
+  switch (status) {
+    case "paid":
+      return "default";
+    case "failed":
+      return "destructive";
+    case "authorized":
+      return "secondary";
+    default:
+      return "outline";
+  }
+};
+
+export const PaymentSummary = ({ booking, onChange }: PaymentSummaryProps) => {
+  const [entries, setEntries] = useState<Tables<"payments">[]>([]);
+  const [retrying, setRetrying] = useState(false);
+
+  useEffect(() => {
+    loadEntries();
+  }, [booking.id, booking.payment_status]);
+
+  const loadEntries = async () => {
+    const { data, error } = await supabase
+      .from("payments")
+      .select("*")
+      .eq("booking_id", booking.id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load payments"));
+      return;
+    }
+    setEntries(data || []);
+  };
+
+  const runEscrowStep = async (step: () => Promise<EscrowResult>) => {
+    setRetrying(true);
+    try {
+      const result = await step();
+      if (result.ok) {
+        toast.success("Payment updated");
+      } else {
+        toast.error(result.failureReason || "Payment failed");
+      }
+    } catch (error) {
+      toast.error(handleSupabaseError(error));
+    } finally {
+      setRetrying(false);
+      onChange();
+    }
+  };
+
+  const paymentStatus = booking.payment_status || "pending";
+  const canRetryHold =
+    ["confirmed", "in_progress"].includes(booking.status) && ["pending", "failed"].includes(paymentStatus);
+  const canRetryRelease = booking.status === "completed" && paymentStatus === "authorized";
+  const canRetrySettlement = booking.status === "cancelled" && paymentStatus === "authorized";
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <CreditCard className="h-5 w-5" />
+          Payment
+        </h3>
+        <Badge variant={getPaymentBadgeVariant(paymentStatus)}>{getPaymentStatusLabel(paymentStatus)}</Badge>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Funds are held when the worker accepts and released to them once the work is completed.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {entries.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between text-sm">
+              <div>
+                <p className={entry.status === "failed" ? "text-destructive" : undefined}>
+                  {PAYMENT_ENTRY_LABELS[entry.entry_type] || entry.entry_type}
+                  {entry.status === "failed" && " (failed)"}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {format(new Date(entry.created_at), "MMM d, yyyy h:mm a")}
+                  {entry.failure_reason && ` • ${entry.failure_reason}`}
+                </p>
+              </div>
+              <span className="font-medium">₹{Number(entry.amount).toFixed(2)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(canRetryHold || canRetryRelease || canRetrySettlement) && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full mt-4"
+          disabled={retrying}
+          onClick={() =>
+            runEscrowStep(() =>
+              canRetryHold
+                ? holdBookingFunds(booking)
+                : canRetryRelease
+                  ? releaseBookingFunds(booking)
+                  : settleCancelledBooking(booking)
+            )
+          }
+        >
+          {retrying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {canRetryHold ? "Retry Payment Hold" : canRetryRelease ? "Retry Payment Release" : "Retry Refund"}
+        </Button>
+      )}
+    </Card>
+  );
+};
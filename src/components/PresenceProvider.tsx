@@ -0,0 +1,50 @@
+import { ReactNode, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { LAST_SEEN_INTERVAL_MS, onlineChannelName } from "@/lib/presence";
+
+/**
+ * Announces the signed-in user in their own online channel, so the people
+ * allowed to see it can tell they are online, and keeps their last seen
+ * time fresh
+ */
+export const PresenceProvider = ({ children }: { children: ReactNode }) => {
+  const [userId, setUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => setUserId(session?.user.id ?? null));
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const touchLastSeen = async () => {
+      await supabase.rpc("touch_last_seen");
+    };
+
+    const channel = supabase.channel(onlineChannelName(userId), {
+      config: { private: true, presence: { key: userId } },
+    });
+    channel.subscribe(async (status) => {
+      if (status === "SUBSCRIBED") {
+        await channel.track({ online_at: new Date().toISOString() });
+      }
+    });
+
+    touchLastSeen();
+    const interval = setInterval(touchLastSeen, LAST_SEEN_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      touchLastSeen();
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  return <>{children}</>;
+};
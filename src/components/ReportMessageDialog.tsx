@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { MESSAGE_REPORT_REASON_LABELS, MessageReportReason } from "@/lib/messageModeration";
+
+interface ReportMessageDialogProps {
+  messageId: string | null;
+  reporterId: string;
+  onClose: () => void;
+}
+
+export const ReportMessageDialog = ({ messageId, reporterId, onClose }: ReportMessageDialogProps) => {
+  const [reason, setReason] = useState<MessageReportReason | "">("");
+  const [details, setDetails] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const close = () => {
+    setReason("");
+    setDetails("");
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!messageId) return;
+    if (!reason) {
+      toast.error("Please choose a reason");
+      return;
+    }
+
+    const trimmedDetails = details.trim();
+    if (reason === "other" && !trimmedDetails) {
+      toast.error("Please describe the problem");
+      return;
+    }
+
+    setSubmitting(true);
+    // The message itself is snapshotted by the database as evidence
+    const { error } = await supabase.from("direct_message_reports").insert({
+      message_id: messageId,
+      reporter_id: reporterId,
+      reason,
+      details: trimmedDetails || null,
+    });
+    setSubmitting(false);
+
+    if (error) {
+      toast.error(
+        error.code === "23505"
+          ? "You've already reported this message"
+          : handleSupabaseError(error, "Failed to report message")
+      );
+      return;
+    }
+
+    toast.success("Thanks, our moderators will look at this message");
+    close();
+  };
+
+  return (
+    <Dialog open={!!messageId} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report message</DialogTitle>
+          <DialogDescription>
+            Reports are only seen by moderators. A copy of the message is kept even if it is later edited or deleted.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Reason *</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as MessageReportReason)}>
+              <SelectTrigger className="mt-2">
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MESSAGE_REPORT_REASON_LABELS) as MessageReportReason[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {MESSAGE_REPORT_REASON_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="reportDetails">{reason === "other" ? "Details *" : "Details (optional)"}</Label>
+            <Textarea
+              id="reportDetails"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              rows={3}
+              maxLength={1000}
+              className="mt-2"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={submitting}>
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { REPORT_REASON_LABELS, ReportReason } from "@/lib/reviewModeration";
+
+interface ReportReviewDialogProps {
+  reviewId: string | null;
+  reporterId: string;
+  onClose: () => void;
+}
+
+export const ReportReviewDialog = ({ reviewId, reporterId, onClose }: ReportReviewDialogProps) => {
+  const [reason, setReason] = useState<ReportReason | "">("");
+  const [details, setDetails] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const close = () => {
+    setReason("");
+    setDetails("");
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!reviewId) return;
+    if (!reason) {
+      toast.error("Please choose a reason");
+      return;
+    }
+
+    const trimmedDetails = details.trim();
+    if (reason === "other" && !trimmedDetails) {
+      toast.error("Please describe the problem");
+      return;
+    }
+
+    setSubmitting(true);
+    const { error } = await supabase.from("review_reports").insert({
+      review_id: reviewId,
+      reporter_id: reporterId,
+      reason,
+      details: trimmedDetails || null,
+    });
+    setSubmitting(false);
+
+    if (error) {
+      toast.error(
+        error.code === "23505"
+          ? "You've already reported this review"
+          : handleSupabaseError(error, "Failed to report review")
+      );
+      return;
+    }
+
+    toast.success("Thanks, our moderators will look at this review");
+    close();
+  };
+
+  return (
+    <Dialog open={!!reviewId} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report review</DialogTitle>
+          <DialogDescription>Reports are only seen by moderators.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Reason *</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+              <SelectTrigger className="mt-2">
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(REPORT_REASON_LABELS) as ReportReason[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {REPORT_REASON_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="reportDetails">{reason === "other" ? "Details *" : "Details (optional)"}</Label>
+            <Textarea
+              id="reportDetails"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              rows={3}
+              maxLength={1000}
+              className="mt-2"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={submitting}>
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
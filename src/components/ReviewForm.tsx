@@ -1,25 +1,99 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
-import { Star } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Star, X } from "lucide-react";
 import { toast } from "sonner";
 import { handleSupabaseError } from "@/lib/errorMessages";
+import {
+  MAX_REVIEW_PHOTOS,
+  REVIEW_PHOTO_KIND_LABELS,
+  ReviewCriterion,
+  ReviewPhoto,
+  ReviewPhotoKind,
+  getReviewCriteria,
+  removeReviewPhotos,
+  uploadReviewPhoto,
+} from "@/lib/reviews";
 
 interface ReviewFormProps {
   bookingId: string;
   workerId: string;
   hirerId: string;
+  // Who is being reviewed: hirers review the worker, workers review the hirer
+  reviewee: "worker" | "hirer";
+  // Worker's category, for the criteria that apply to it
+  categoryId?: string | null;
   onReviewSubmitted: () => void;
 }
 
-export const ReviewForm = ({ bookingId, workerId, hirerId, onReviewSubmitted }: ReviewFormProps) => {
+interface StarInputProps {
+  value: number;
+  onChange: (value: number) => void;
+  size?: "sm" | "lg";
+}
+
+const StarInput = ({ value, onChange, size = "lg" }: StarInputProps) => {
+  const [hovered, setHovered] = useState(0);
+
+  return (
+    <div className="flex gap-1">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          type="button"
+          onClick={() => onChange(star)}
+          onMouseEnter={() => setHovered(star)}
+          onMouseLeave={() => setHovered(0)}
+          className="focus:outline-none"
+        >
+          <Star
+            className={`${size === "lg" ? "h-8 w-8" : "h-5 w-5"} transition-colors ${
+              star <= (hovered || value) ? "fill-warning text-warning" : "text-muted-foreground"
+            }`}
+          />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export const ReviewForm = ({ bookingId, workerId, hirerId, reviewee, categoryId, onReviewSubmitted }: ReviewFormProps) => {
   const [rating, setRating] = useState(0);
-  const [hoveredRating, setHoveredRating] = useState(0);
   const [reviewText, setReviewText] = useState("");
+  const [criteria, setCriteria] = useState<ReviewCriterion[]>([]);
+  const [criteriaRatings, setCriteriaRatings] = useState<Record<string, number>>({});
+  const [photoFiles, setPhotoFiles] = useState<{ file: File; kind: ReviewPhotoKind }[]>([]);
   const [loading, setLoading] = useState(false);
 
+  // Criteria and photos describe the job, so only reviews of workers have them
+  const detailed = reviewee === "worker";
+
+  useEffect(() => {
+    if (detailed) loadCriteria();
+  }, [detailed, categoryId]);
+
+  const loadCriteria = async () => {
+    try {
+      setCriteria(await getReviewCriteria(categoryId));
+    } catch (error) {
+      toast.error(handleSupabaseError(error, "Failed to load review criteria"));
+    }
+  };
+
+  const addPhotos = (kind: ReviewPhotoKind, files: FileList | null) => {
+    if (!files) return;
+    const added = Array.from(files).map((file) => ({ file, kind }));
+    if (photoFiles.length + added.length > MAX_REVIEW_PHOTOS) {
+      toast.error(`You can attach up to ${MAX_REVIEW_PHOTOS} photos`);
+      return;
+    }
+    setPhotoFiles([...photoFiles, ...added]);
+  };
+
   const handleSubmit = async () => {
     if (rating === 0) {
       toast.error("Please select a rating");
@@ -27,20 +101,39 @@ export const ReviewForm = ({ bookingId, workerId, hirerId, onReviewSubmitted }:
     }
 
     setLoading(true);
-    const { error } = await supabase
-      .from("reviews")
-      .insert({
-        booking_id: bookingId,
-        worker_id: workerId,
-        hirer_id: hirerId,
-        rating,
-        review_text: reviewText.trim() || null
-      });
+    const photos: ReviewPhoto[] = [];
+    try {
+      for (const { file, kind } of photoFiles) {
+        photos.push(await uploadReviewPhoto(hirerId, bookingId, file, kind));
+      }
+    } catch (error) {
+      await removeReviewPhotos(photos.map((photo) => photo.path));
+      toast.error(handleSupabaseError(error, "Failed to upload photos"));
+      setLoading(false);
+      return;
+    }
+
+    const review = {
+      booking_id: bookingId,
+      worker_id: workerId,
+      hirer_id: hirerId,
+      rating,
+      review_text: reviewText.trim() || null,
+    };
+
+    // Criteria and photos go in with the review, before it can be published
+    const { error } = detailed
+      ? await supabase
+          .from("reviews")
+          .insert({ ...review, criteria_ratings: criteriaRatings, photos: photos as unknown as Json })
+      : await supabase.from("hirer_reviews").insert(review);
 
     if (error) {
+      // Don't leave orphaned photos behind
+      await removeReviewPhotos(photos.map((photo) => photo.path));
       toast.error(handleSupabaseError(error, "Failed to submit review"));
     } else {
-      toast.success("Review submitted successfully!");
+      toast.success("Review submitted! It will be published once both of you have reviewed.");
       onReviewSubmitted();
     }
     setLoading(false);
@@ -49,38 +142,34 @@ export const ReviewForm = ({ bookingId, workerId, hirerId, onReviewSubmitted }:
   return (
     <Card className="p-6">
       <h3 className="text-xl font-semibold mb-4">Leave a Review</h3>
-      
+
       <div className="mb-4">
-        <label className="block text-sm font-medium mb-2">Rating</label>
-        <div className="flex gap-2">
-          {[1, 2, 3, 4, 5].map((star) => (
-            <button
-              key={star}
-              type="button"
-              onClick={() => setRating(star)}
-              onMouseEnter={() => setHoveredRating(star)}
-              onMouseLeave={() => setHoveredRating(0)}
-              className="focus:outline-none"
-            >
-              <Star
-                className={`h-8 w-8 transition-colors ${
-                  star <= (hoveredRating || rating)
-                    ? "fill-warning text-warning"
-                    : "text-muted-foreground"
-                }`}
+        <label className="block text-sm font-medium mb-2">Rate the {reviewee === "worker" ? "Worker" : "Hirer"}</label>
+        <StarInput value={rating} onChange={setRating} />
+      </div>
+
+      {detailed && criteria.length > 0 && (
+        <div className="mb-4 space-y-2">
+          <label className="block text-sm font-medium">Rate each aspect (optional)</label>
+          {criteria.map((criterion) => (
+            <div key={criterion.id} className="flex items-center justify-between gap-2">
+              <span className="text-sm text-muted-foreground">{criterion.label}</span>
+              <StarInput
+                size="sm"
+                value={criteriaRatings[criterion.key] || 0}
+                onChange={(value) => setCriteriaRatings({ ...criteriaRatings, [criterion.key]: value })}
               />
-              Rate the Worker
-            </button>
+            </div>
           ))}
         </div>
-      </div>
+      )}
 
       <div className="mb-4">
         <label className="block text-sm font-medium mb-2">Review (Optional)</label>
         <Textarea
           value={reviewText}
           onChange={(e) => setReviewText(e.target.value)}
-          placeholder="Share your experience with this worker..."
+          placeholder={`Share your experience with this ${reviewee}...`}
           className="min-h-[120px]"
           maxLength={1000}
         />
@@ -89,6 +178,50 @@ export const ReviewForm = ({ bookingId, workerId, hirerId, onReviewSubmitted }:
         </p>
       </div>
 
+      {detailed && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-2">Photos (Optional)</label>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(REVIEW_PHOTO_KIND_LABELS) as ReviewPhotoKind[]).map((kind) => (
+              <div key={kind}>
+                <p className="text-xs text-muted-foreground mb-1">{REVIEW_PHOTO_KIND_LABELS[kind]}</p>
+                <Input
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  multiple
+                  onChange={(e) => {
+                    addPhotos(kind, e.target.files);
+                    e.target.value = "";
+                  }}
+                />
+              </div>
+            ))}
+          </div>
+          {photoFiles.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {photoFiles.map(({ file, kind }, idx) => (
+                <li key={`${file.name}-${idx}`} className="flex items-center justify-between text-sm">
+                  <span className="truncate">
+                    {REVIEW_PHOTO_KIND_LABELS[kind]}: {file.name}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPhotoFiles(photoFiles.filter((_, i) => i !== idx))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground mb-4">
+        Reviews are blind: neither review is shown until both are submitted or the review window closes.
+      </p>
+
       <Button
         onClick={handleSubmit}
         disabled={rating === 0 || loading}
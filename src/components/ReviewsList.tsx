@@ -1,15 +1,35 @@
 import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
 import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Star } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Flag, MessageSquareReply, Star } from "lucide-react";
 import { format } from "date-fns";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { ReportReviewDialog } from "@/components/ReportReviewDialog";
+import { RATING_STARS, formatRating, parseRatingDistribution } from "@/lib/ratings";
+import {
+  REVIEW_PHOTO_KIND_LABELS,
+  ReviewCriterion,
+  ReviewPhoto,
+  getReviewCriteria,
+  getReviewPhotoUrls,
+  parseCriteriaRatings,
+  parseReviewPhotos,
+} from "@/lib/reviews";
 
 interface Review {
   id: string;
   rating: number;
   review_text: string | null;
   created_at: string;
+  criteriaRatings: Record<string, number>;
+  photos: ReviewPhoto[];
+  reply: Tables<"review_replies"> | null;
   hirer: {
     full_name: string;
   };
@@ -22,17 +42,46 @@ interface ReviewsListProps {
 export const ReviewsList = ({ workerId }: ReviewsListProps) => {
   const [reviews, setReviews] = useState<Review[]>([]);
   const [loading, setLoading] = useState(true);
-  const [averageRating, setAverageRating] = useState<number>(0);
+  const [stats, setStats] = useState<Pick<Tables<"worker_profiles">, "rating" | "rating_count" | "rating_distribution"> | null>(null);
+  const [criteria, setCriteria] = useState<ReviewCriterion[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isOwnProfile, setIsOwnProfile] = useState(false);
+  const [replyingId, setReplyingId] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [savingReply, setSavingReply] = useState(false);
+  const [reportingId, setReportingId] = useState<string | null>(null);
 
   useEffect(() => {
     loadReviews();
   }, [workerId]);
 
   const loadReviews = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    setCurrentUserId(user?.id ?? null);
+
+    // Aggregates are maintained on worker_profiles by database triggers
+    const { data: statsData } = await supabase
+      .from("worker_profiles")
+      .select("rating, rating_count, rating_distribution, category_id, user_id")
+      .eq("id", workerId)
+      .maybeSingle();
+    setStats(statsData);
+    setIsOwnProfile(!!user && statsData?.user_id === user.id);
+
+    try {
+      setCriteria(await getReviewCriteria(statsData?.category_id));
+    } catch (error) {
+      console.error("Error loading review criteria:", error);
+    }
+
     const { data, error } = await supabase
       .from("reviews")
-      .select("*")
+      .select("*, reply:review_replies(*)")
       .eq("worker_id", workerId)
+      // Authors and admins can also read unpublished and hidden reviews
+      .not("revealed_at", "is", null)
+      .is("hidden_at", null)
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -52,19 +101,58 @@ export const ReviewsList = ({ workerId }: ReviewsListProps) => {
       const hirersMap = new Map(hirersData?.map(h => [h.id, h]) || []);
       const reviewsWithHirers = data.map(review => ({
         ...review,
+        criteriaRatings: parseCriteriaRatings(review.criteria_ratings),
+        photos: parseReviewPhotos(review.photos),
         hirer: hirersMap.get(review.hirer_id) || { full_name: "Unknown User" }
       }));
 
       setReviews(reviewsWithHirers);
-      
-      // Calculate average rating
-      const avg = data.reduce((sum, review) => sum + review.rating, 0) / data.length;
-      setAverageRating(Number(avg.toFixed(1)));
+
+      try {
+        setPhotoUrls(await getReviewPhotoUrls(reviewsWithHirers.flatMap(review => review.photos.map(photo => photo.path))));
+      } catch (error) {
+        console.error("Error loading review photos:", error);
+      }
     }
     
     setLoading(false);
   };
 
+  const startReply = (review: Review) => {
+    setReplyText(review.reply?.reply_text || "");
+    setReplyingId(review.id);
+  };
+
+  const handleSaveReply = async (review: Review) => {
+    const trimmedReply = replyText.trim();
+    if (!trimmedReply) {
+      toast.error("Please write a reply");
+      return;
+    }
+
+    setSavingReply(true);
+    const { error } = review.reply
+      ? await supabase.from("review_replies").update({ reply_text: trimmedReply }).eq("id", review.reply.id)
+      : await supabase.from("review_replies").insert({ review_id: review.id, worker_id: workerId, reply_text: trimmedReply });
+    setSavingReply(false);
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to save reply"));
+      return;
+    }
+    setReplyingId(null);
+    loadReviews();
+  };
+
+  const handleDeleteReply = async (replyId: string) => {
+    const { error } = await supabase.from("review_replies").delete().eq("id", replyId);
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to delete reply"));
+      return;
+    }
+    loadReviews();
+  };
+
   const getInitials = (name: string) => {
     return name
       .split(" ")
@@ -88,16 +176,30 @@ export const ReviewsList = ({ workerId }: ReviewsListProps) => {
     <Card className="p-6">
       <div className="mb-6">
         <h3 className="text-xl font-semibold mb-2">Reviews & Ratings</h3>
-        {reviews.length > 0 && (
-          <div className="flex items-center gap-2">
-            <div className="flex items-center">
-              <Star className="h-5 w-5 fill-warning text-warning mr-1" />
-              <span className="text-2xl font-bold">{averageRating}</span>
+        {stats && stats.rating_count > 0 && (
+          <>
+            <div className="flex items-center gap-2">
+              <div className="flex items-center">
+                <Star className="h-5 w-5 fill-warning text-warning mr-1" />
+                <span className="text-2xl font-bold">{formatRating(stats)}</span>
+              </div>
+              <span className="text-muted-foreground">
+                ({stats.rating_count} {stats.rating_count === 1 ? "review" : "reviews"})
+              </span>
+            </div>
+            <div className="space-y-1 mt-3">
+              {RATING_STARS.map((star) => {
+                const count = parseRatingDistribution(stats.rating_distribution)[star];
+                return (
+                  <div key={star} className="flex items-center gap-2 text-sm">
+                    <span className="w-8 text-muted-foreground">{star}★</span>
+                    <Progress value={(count / stats.rating_count) * 100} className="h-2 flex-1" />
+                    <span className="w-6 text-right text-muted-foreground">{count}</span>
+                  </div>
+                );
+              })}
             </div>
-            <span className="text-muted-foreground">
-              ({reviews.length} {reviews.length === 1 ? "review" : "reviews"})
-            </span>
-          </div>
+          </>
         )}
       </div>
 
@@ -137,12 +239,102 @@ export const ReviewsList = ({ workerId }: ReviewsListProps) => {
                   {review.review_text && (
                     <p className="text-sm text-muted-foreground">{review.review_text}</p>
                   )}
+                  {Object.keys(review.criteriaRatings).length > 0 && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs">
+                      {criteria
+                        .filter((criterion) => review.criteriaRatings[criterion.key])
+                        .map((criterion) => (
+                          <span key={criterion.id} className="flex items-center gap-1 text-muted-foreground">
+                            {criterion.label}
+                            <Star className="h-3 w-3 fill-warning text-warning" />
+                            <span className="font-medium text-foreground">{review.criteriaRatings[criterion.key]}</span>
+                          </span>
+                        ))}
+                    </div>
+                  )}
+                  {review.photos.some((photo) => photoUrls[photo.path]) && (
+                    <div className="grid grid-cols-3 gap-2 mt-3">
+                      {review.photos
+                        .filter((photo) => photoUrls[photo.path])
+                        .map((photo) => (
+                          <a
+                            key={photo.path}
+                            href={photoUrls[photo.path]}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="relative block"
+                          >
+                            <img
+                              src={photoUrls[photo.path]}
+                              alt={`${REVIEW_PHOTO_KIND_LABELS[photo.kind]} photo`}
+                              className="h-24 w-full rounded-md object-cover"
+                            />
+                            <span className="absolute bottom-1 left-1 rounded bg-background/80 px-1 text-xs">
+                              {REVIEW_PHOTO_KIND_LABELS[photo.kind]}
+                            </span>
+                          </a>
+                        ))}
+                    </div>
+                  )}
+                  {review.reply && replyingId !== review.id && (
+                    <div className="mt-3 rounded-md bg-muted p-3 text-sm">
+                      <p className="font-medium mb-1">Response from the worker</p>
+                      <p className="text-muted-foreground">{review.reply.reply_text}</p>
+                      {isOwnProfile && (
+                        <div className="flex gap-2 mt-2">
+                          <Button variant="ghost" size="sm" onClick={() => startReply(review)}>
+                            Edit
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleDeleteReply(review.reply!.id)}>
+                            Delete
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {replyingId === review.id && (
+                    <div className="mt-3 space-y-2">
+                      <Textarea
+                        value={replyText}
+                        onChange={(e) => setReplyText(e.target.value)}
+                        placeholder="Write a public reply..."
+                        rows={3}
+                        maxLength={1000}
+                      />
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setReplyingId(null)} disabled={savingReply}>
+                          Cancel
+                        </Button>
+                        <Button size="sm" onClick={() => handleSaveReply(review)} disabled={savingReply}>
+                          {savingReply ? "Saving..." : "Post Reply"}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                  {currentUserId && replyingId !== review.id && (
+                    <div className="flex gap-2 mt-2">
+                      {isOwnProfile && !review.reply && (
+                        <Button variant="ghost" size="sm" onClick={() => startReply(review)}>
+                          <MessageSquareReply className="mr-2 h-4 w-4" />
+                          Reply
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => setReportingId(review.id)}>
+                        <Flag className="mr-2 h-4 w-4" />
+                        Report
+                      </Button>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
           ))}
         </div>
       )}
+
+      {currentUserId && (
+        <ReportReviewDialog reviewId={reportingId} reporterId={currentUserId} onClose={() => setReportingId(null)} />
+      )}
     </Card>
   );
 };
\ No newline at end of file
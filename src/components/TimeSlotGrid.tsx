@@ -0,0 +1,70 @@
+import { cn } from "@/lib/utils";
+import { TimeSlot, formatSlotTime, getDaySlots, slotFitsWindows, slotsOverlap } from "@/lib/timeSlots";
+
+interface TimeSlotGridProps {
+  date: Date;
+  busySlots: TimeSlot[];
+  // Hours the worker takes jobs; slots outside them are shown as closed
+  openWindows?: TimeSlot[];
+  selected?: TimeSlot | null;
+  onSelectStart?: (startTime: string) => void;
+}
+
+export const TimeSlotGrid = ({ date, busySlots, openWindows, selected, onSelectStart }: TimeSlotGridProps) => {
+  const slots = getDaySlots(date);
+
+  return (
+    <div>
+      <div className="grid grid-cols-4 gap-2">
+        {slots.map((slot) => {
+          const closed = !!openWindows && !slotFitsWindows(slot, openWindows);
+          const busy = busySlots.some((busySlot) => slotsOverlap(slot, busySlot));
+          const unavailable = closed || busy;
+          const isSelected = !!selected && slotsOverlap(slot, selected);
+
+          return (
+            <button
+              key={slot.start.toISOString()}
+              type="button"
+              disabled={unavailable || !onSelectStart}
+              onClick={() => onSelectStart?.(formatSlotTime(slot.start))}
+              className={cn(
+                "rounded-md border px-2 py-1 text-sm transition-colors",
+                closed && "bg-muted/50 text-muted-foreground/50 border-dashed cursor-not-allowed",
+                busy && !closed && "bg-muted text-muted-foreground line-through cursor-not-allowed",
+                !unavailable && isSelected && "bg-primary text-primary-foreground border-primary",
+                !unavailable && !isSelected && "border-success/50",
+                !unavailable && !isSelected && onSelectStart && "hover:bg-accent",
+                isSelected && unavailable && "border-destructive"
+              )}
+            >
+              {formatSlotTime(slot.start)}
+            </button>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap items-center gap-4 mt-2 text-xs text-muted-foreground">
+        <div className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded border border-success/50"></div>
+          <span>Free</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded bg-muted border"></div>
+          <span>Taken</span>
+        </div>
+        {openWindows && (
+          <div className="flex items-center gap-1">
+            <div className="w-3 h-3 rounded bg-muted/50 border border-dashed"></div>
+            <span>Closed</span>
+          </div>
+        )}
+        {onSelectStart && (
+          <div className="flex items-center gap-1">
+            <div className="w-3 h-3 rounded bg-primary"></div>
+            <span>Your booking</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
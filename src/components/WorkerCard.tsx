@@ -2,11 +2,16 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Star, MapPin, Phone, DollarSign, Calendar } from "lucide-react";
+import { Star, MapPin, Phone, DollarSign, Calendar, ShieldCheck } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { formatDistance } from "@/lib/geo";
+import { HighlightedText } from "@/components/HighlightedText";
+import { formatRating } from "@/lib/ratings";
 
 interface WorkerCardProps {
   worker: any;
+  // Connected right now, from the app-wide presence channel
+  online?: boolean;
 }
 
 const RupeeIcon = (props: React.SVGProps<SVGSVGElement>) => (
@@ -30,9 +35,15 @@ const RupeeIcon = (props: React.SVGProps<SVGSVGElement>) => (
   </svg>
 );
 
-export const WorkerCard = ({ worker }: WorkerCardProps) => {
+export const WorkerCard = ({ worker, online = false }: WorkerCardProps) => {
   const navigate = useNavigate();
 
+  // Skills that matched the search come first so the highlight is visible
+  const matchedSkills: string[] = worker.matched_skills || [];
+  const skills: string[] = worker.skills
+    ? [...worker.skills].sort((a: string, b: string) => Number(matchedSkills.includes(b)) - Number(matchedSkills.includes(a)))
+    : [];
+
   const getInitials = (name: string) => {
     return name
       .split(" ")
@@ -44,25 +55,52 @@ export const WorkerCard = ({ worker }: WorkerCardProps) => {
   return (
     <Card className="p-6 hover:shadow-lg transition-shadow duration-300 bg-gradient-card">
       <div className="flex items-start gap-4 mb-4">
-        <Avatar className="h-16 w-16">
-          <AvatarFallback className="bg-primary text-primary-foreground text-lg">
-            {getInitials(worker.user.full_name)}
-          </AvatarFallback>
-        </Avatar>
+        <div className="relative">
+          <Avatar className="h-16 w-16">
+            <AvatarFallback className="bg-primary text-primary-foreground text-lg">
+              {getInitials(worker.user.full_name)}
+            </AvatarFallback>
+          </Avatar>
+          {online && (
+            <span
+              className="absolute bottom-0 right-0 h-4 w-4 rounded-full bg-success border-2 border-card"
+              title="Online now"
+            />
+          )}
+        </div>
         <div className="flex-1">
-          <h3 className="text-xl font-semibold mb-1">{worker.user.full_name}</h3>
+          <h3 className="text-xl font-semibold mb-1">
+            <HighlightedText text={worker.name_highlight || worker.user.full_name} />
+          </h3>
           <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
             <Badge variant="secondary">{worker.category?.name}</Badge>
+            {worker.verification_status === "verified" && (
+              <Badge variant="default" className="gap-1">
+                <ShieldCheck className="h-3 w-3" />
+                Verified
+              </Badge>
+            )}
             <div className="flex items-center">
               <Star className="h-4 w-4 fill-warning text-warning mr-1" />
-              <span className="font-medium">{worker.rating || "New"}</span>
+              <span className="font-medium">{formatRating(worker)}</span>
+              {worker.rating_count > 0 && (
+                <span className="text-muted-foreground text-sm ml-1">({worker.rating_count})</span>
+              )}
             </div>
           </div>
+          {typeof worker.distance_km === "number" && (
+            <div className="flex items-center gap-1 text-sm text-muted-foreground">
+              <MapPin className="h-4 w-4 text-primary" />
+              <span>{formatDistance(worker.distance_km)}</span>
+            </div>
+          )}
         </div>
       </div>
 
       {worker.bio && (
-        <p className="text-sm text-muted-foreground mb-4 line-clamp-2">{worker.bio}</p>
+        <p className="text-sm text-muted-foreground mb-4 line-clamp-2">
+          <HighlightedText text={worker.bio_highlight || worker.bio} />
+        </p>
       )}
 
       <div className="space-y-2 mb-4">
@@ -102,16 +140,20 @@ export const WorkerCard = ({ worker }: WorkerCardProps) => {
         )}
       </div>
 
-      {worker.skills && worker.skills.length > 0 && (
+      {skills.length > 0 && (
         <div className="flex flex-wrap gap-2 mb-4">
-          {worker.skills.slice(0, 3).map((skill: string, idx: number) => (
-            <Badge key={idx} variant="outline" className="text-xs">
+          {skills.slice(0, 3).map((skill, idx) => (
+            <Badge
+              key={idx}
+              variant={matchedSkills.includes(skill) ? "secondary" : "outline"}
+              className={matchedSkills.includes(skill) ? "text-xs bg-warning/30" : "text-xs"}
+            >
               {skill}
             </Badge>
           ))}
-          {worker.skills.length > 3 && (
+          {skills.length > 3 && (
             <Badge variant="outline" className="text-xs">
-              +{worker.skills.length - 3} more
+              +{skills.length - 3} more
             </Badge>
           )}
         </div>
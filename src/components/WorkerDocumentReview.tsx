@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, CheckCircle, Eye, XCircle } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { getVerificationBadgeVariant } from "@/lib/verification";
+import {
+  getDocumentStatusLabel,
+  getDocumentTypeLabel,
+  getDocumentUrl,
+  hasLicenseProof,
+  isDocumentExpired,
+  requiresLicense,
+} from "@/lib/workerDocuments";
+
+interface WorkerDocumentReviewProps {
+  workerId: string;
+  categoryName?: string | null;
+}
+
+export const WorkerDocumentReview = ({ workerId, categoryName }: WorkerDocumentReviewProps) => {
+  const [documents, setDocuments] = useState<Tables<"worker_documents">[]>([]);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    loadDocuments();
+  }, [workerId]);
+
+  const loadDocuments = async () => {
+    const { data, error } = await supabase
+      .from("worker_documents")
+      .select("*")
+      .eq("worker_id", workerId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load documents"));
+      return;
+    }
+    setDocuments(data || []);
+  };
+
+  const handleView = async (filePath: string) => {
+    try {
+      window.open(await getDocumentUrl(filePath), "_blank", "noopener,noreferrer");
+    } catch (error) {
+      toast.error(handleSupabaseError(error, "Failed to open document"));
+    }
+  };
+
+  const handleReview = async (id: string, status: "verified" | "rejected") => {
+    const trimmedNotes = notes.trim();
+    if (status === "rejected" && !trimmedNotes) {
+      toast.error("Please give the worker a reason");
+      return;
+    }
+
+    const { error } = await supabase
+      .from("worker_documents")
+      .update({
+        verification_status: status,
+        review_notes: status === "rejected" ? trimmedNotes : null,
+      })
+      .eq("id", id);
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to save document review"));
+      return;
+    }
+
+    setRejectingId(null);
+    setNotes("");
+    loadDocuments();
+  };
+
+  const missingLicense =
+    requiresLicense(categoryName) &&
+    !hasLicenseProof(
+      documents
+        .filter((doc) => doc.verification_status === "verified" && !isDocumentExpired(doc.expires_on))
+        .map((doc) => doc.document_type)
+    );
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">Documents</p>
+      {missingLicense && (
+        <p className="text-sm text-destructive flex items-center gap-1">
+          <AlertTriangle className="h-4 w-4" />
+          No verified license or trade certificate on file
+        </p>
+      )}
+      {documents.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No documents uploaded</p>
+      ) : (
+        documents.map((doc) => (
+          <div key={doc.id} className="rounded-md border p-3 space-y-2">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{getDocumentTypeLabel(doc.document_type)}</span>
+                  <Badge variant={getVerificationBadgeVariant(doc.verification_status)}>
+                    {getDocumentStatusLabel(doc.verification_status)}
+                  </Badge>
+                  {isDocumentExpired(doc.expires_on) && <Badge variant="destructive">Expired</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {doc.file_name}
+                  {doc.expires_on && ` • Expires ${format(parseISO(doc.expires_on), "PPP")}`}
+                </p>
+                {doc.review_notes && (
+                  <p className="text-xs text-muted-foreground">
+                    <span className="font-medium">Notes:</span> {doc.review_notes}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => handleView(doc.file_path)}>
+                  <Eye className="mr-2 h-4 w-4" />
+                  View
+                </Button>
+                {doc.verification_status !== "verified" && (
+                  <Button size="sm" variant="outline" onClick={() => handleReview(doc.id, "verified")}>
+                    <CheckCircle className="h-4 w-4" />
+                  </Button>
+                )}
+                {doc.verification_status !== "rejected" && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setRejectingId(rejectingId === doc.id ? null : doc.id);
+                      setNotes("");
+                    }}
+                  >
+                    <XCircle className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            {rejectingId === doc.id && (
+              <div className="space-y-2">
+                <Textarea
+                  placeholder="Reason for rejecting this document"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={2}
+                  maxLength={500}
+                />
+                <Button size="sm" variant="destructive" onClick={() => handleReview(doc.id, "rejected")}>
+                  Reject Document
+                </Button>
+              </div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
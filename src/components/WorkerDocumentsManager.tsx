@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { DocumentUploadForm } from "@/components/DocumentUploadForm";
+import { AlertTriangle, Eye, FileText, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { getVerificationBadgeVariant } from "@/lib/verification";
+import {
+  PendingDocument,
+  deleteWorkerDocument,
+  getDocumentStatusLabel,
+  getDocumentTypeLabel,
+  getDocumentUrl,
+  hasLicenseProof,
+  isDocumentExpired,
+  requiresLicense,
+  uploadWorkerDocument,
+} from "@/lib/workerDocuments";
+
+interface WorkerDocumentsManagerProps {
+  workerId: string;
+  userId: string;
+  categoryName?: string | null;
+}
+
+export const WorkerDocumentsManager = ({ workerId, userId, categoryName }: WorkerDocumentsManagerProps) => {
+  const [documents, setDocuments] = useState<Tables<"worker_documents">[]>([]);
+
+  useEffect(() => {
+    loadDocuments();
+  }, [workerId]);
+
+  const loadDocuments = async () => {
+    const { data, error } = await supabase
+      .from("worker_documents")
+      .select("*")
+      .eq("worker_id", workerId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load documents"));
+      return;
+    }
+    setDocuments(data || []);
+  };
+
+  const handleUpload = async (document: PendingDocument) => {
+    try {
+      await uploadWorkerDocument({ userId, workerId, ...document });
+      toast.success("Document uploaded for review");
+      loadDocuments();
+    } catch (error) {
+      toast.error(handleSupabaseError(error, "Failed to upload document"));
+    }
+  };
+
+  const handleView = async (filePath: string) => {
+    try {
+      window.open(await getDocumentUrl(filePath), "_blank", "noopener,noreferrer");
+    } catch (error) {
+      toast.error(handleSupabaseError(error, "Failed to open document"));
+    }
+  };
+
+  const handleDelete = async (document: Tables<"worker_documents">) => {
+    try {
+      await deleteWorkerDocument(document.id, document.file_path);
+      toast.success("Document removed");
+      loadDocuments();
+    } catch (error) {
+      toast.error(handleSupabaseError(error, "Failed to remove document"));
+    }
+  };
+
+  const missingLicense =
+    requiresLicense(categoryName) &&
+    !hasLicenseProof(
+      documents
+        .filter((doc) => doc.verification_status !== "rejected" && !isDocumentExpired(doc.expires_on))
+        .map((doc) => doc.document_type)
+    );
+
+  return (
+    <Card className="p-6 shadow-card mb-6">
+      <h2 className="text-2xl font-semibold mb-2 flex items-center gap-2">
+        <FileText className="h-6 w-6" />
+        Documents
+      </h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Documents are private and only shared with our verification team
+      </p>
+
+      {missingLicense && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {categoryName}s must upload a valid license or trade certificate before they can be verified.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {documents.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {documents.map((doc) => (
+            <div key={doc.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 rounded-md border p-3">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{getDocumentTypeLabel(doc.document_type)}</span>
+                  <Badge variant={getVerificationBadgeVariant(doc.verification_status)}>
+                    {getDocumentStatusLabel(doc.verification_status)}
+                  </Badge>
+                  {isDocumentExpired(doc.expires_on) && <Badge variant="destructive">Expired</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {doc.file_name}
+                  {doc.expires_on && ` • Expires ${format(parseISO(doc.expires_on), "PPP")}`}
+                </p>
+                {doc.review_notes && (
+                  <p className="text-sm text-muted-foreground">
+                    <span className="font-medium">Reviewer notes:</span> {doc.review_notes}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => handleView(doc.file_path)}>
+                  <Eye className="mr-2 h-4 w-4" />
+                  View
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => handleDelete(doc)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <DocumentUploadForm onSubmit={handleUpload} />
+    </Card>
+  );
+};
@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Calendar as CalendarIcon, SlidersHorizontal, X } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import { WorkerFilters, countAdvancedFilters } from "@/lib/workerFilters";
+
+type AdvancedFilters = Pick<
+  WorkerFilters,
+  | "minHourlyRate"
+  | "maxHourlyRate"
+  | "minDailyRate"
+  | "maxDailyRate"
+  | "minExperience"
+  | "minRating"
+  | "verifiedOnly"
+  | "availableOn"
+>;
+
+interface WorkerFiltersPanelProps {
+  filters: WorkerFilters;
+  onApply: (filters: AdvancedFilters) => void;
+}
+
+const EMPTY_FILTERS: AdvancedFilters = {
+  minHourlyRate: null,
+  maxHourlyRate: null,
+  minDailyRate: null,
+  maxDailyRate: null,
+  minExperience: null,
+  minRating: null,
+  verifiedOnly: false,
+  availableOn: null,
+};
+
+const toInputValue = (value: number | null) => (value === null ? "" : String(value));
+const fromInputValue = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export const WorkerFiltersPanel = ({ filters, onApply }: WorkerFiltersPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<AdvancedFilters>(EMPTY_FILTERS);
+  const activeCount = countAdvancedFilters(filters);
+
+  // Start each edit from what is currently in the URL
+  useEffect(() => {
+    if (open) {
+      setDraft({
+        minHourlyRate: filters.minHourlyRate,
+        maxHourlyRate: filters.maxHourlyRate,
+        minDailyRate: filters.minDailyRate,
+        maxDailyRate: filters.maxDailyRate,
+        minExperience: filters.minExperience,
+        minRating: filters.minRating,
+        verifiedOnly: filters.verifiedOnly,
+        availableOn: filters.availableOn,
+      });
+    }
+  }, [open, filters]);
+
+  const handleApply = () => {
+    onApply(draft);
+    setOpen(false);
+  };
+
+  const handleReset = () => {
+    onApply(EMPTY_FILTERS);
+    setOpen(false);
+  };
+
+  const rangeInputs = (
+    label: string,
+    minKey: "minHourlyRate" | "minDailyRate",
+    maxKey: "maxHourlyRate" | "maxDailyRate"
+  ) => (
+    <div>
+      <Label>{label}</Label>
+      <div className="grid grid-cols-2 gap-2 mt-2">
+        <Input
+          type="number"
+          min="0"
+          placeholder="Min ₹"
+          value={toInputValue(draft[minKey])}
+          onChange={(e) => setDraft({ ...draft, [minKey]: fromInputValue(e.target.value) })}
+        />
+        <Input
+          type="number"
+          min="0"
+          placeholder="Max ₹"
+          value={toInputValue(draft[maxKey])}
+          onChange={(e) => setDraft({ ...draft, [maxKey]: fromInputValue(e.target.value) })}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" className="w-full md:w-auto">
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          Filters
+          {activeCount > 0 && (
+            <Badge variant="secondary" className="ml-2 h-5 min-w-5 px-1 text-xs">
+              {activeCount}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Filter Workers</SheetTitle>
+          <SheetDescription>Narrow down workers by rate, experience and availability</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 py-6">
+          {rangeInputs("Hourly Rate", "minHourlyRate", "maxHourlyRate")}
+          {rangeInputs("Daily Rate", "minDailyRate", "maxDailyRate")}
+
+          <div>
+            <Label htmlFor="minExperience">Minimum Experience (years)</Label>
+            <Input
+              id="minExperience"
+              type="number"
+              min="0"
+              step="1"
+              placeholder="Any"
+              className="mt-2"
+              value={toInputValue(draft.minExperience)}
+              onChange={(e) => setDraft({ ...draft, minExperience: fromInputValue(e.target.value) })}
+            />
+          </div>
+
+          <div>
+            <Label>Minimum Rating</Label>
+            <Select
+              value={draft.minRating === null ? "any" : String(draft.minRating)}
+              onValueChange={(value) => setDraft({ ...draft, minRating: value === "any" ? null : Number(value) })}
+            >
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any rating</SelectItem>
+                <SelectItem value="3">3+ stars</SelectItem>
+                <SelectItem value="4">4+ stars</SelectItem>
+                <SelectItem value="4.5">4.5+ stars</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label>Available On</Label>
+            <div className="flex gap-2 mt-2">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn("flex-1 justify-start text-left font-normal", !draft.availableOn && "text-muted-foreground")}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {draft.availableOn ? format(parseISO(draft.availableOn), "PPP") : "Any date"}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={draft.availableOn ? parseISO(draft.availableOn) : undefined}
+                    onSelect={(date) => setDraft({ ...draft, availableOn: date ? format(date, "yyyy-MM-dd") : null })}
+                    disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
+                    initialFocus
+                    className="pointer-events-auto"
+                  />
+                </PopoverContent>
+              </Popover>
+              {draft.availableOn && (
+                <Button variant="ghost" size="icon" onClick={() => setDraft({ ...draft, availableOn: null })}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="verifiedOnly">Verified workers only</Label>
+            <Switch
+              id="verifiedOnly"
+              checked={draft.verifiedOnly}
+              onCheckedChange={(checked) => setDraft({ ...draft, verifiedOnly: checked })}
+            />
+          </div>
+        </div>
+
+        <SheetFooter className="gap-2">
+          <Button variant="outline" onClick={handleReset}>
+            Clear Filters
+          </Button>
+          <Button onClick={handleApply}>Apply Filters</Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,36 @@
+import { useLayoutEffect, useRef } from "react";
+
+/**
+ * Keeps a chat scrolled to its newest message, and keeps the view steady when
+ * older history is prepended. Call keepPosition right before prepending.
+ */
+export const useChatScroll = (messages: { id: string }[]) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const lastMessageId = useRef<string | null>(null);
+  const heightBeforePrepend = useRef<number | null>(null);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    if (heightBeforePrepend.current !== null) {
+      container.scrollTop += container.scrollHeight - heightBeforePrepend.current;
+      heightBeforePrepend.current = null;
+    }
+
+    const newestId = messages[messages.length - 1]?.id ?? null;
+    if (newestId !== lastMessageId.current) {
+      container.scrollTo({
+        top: container.scrollHeight,
+        behavior: lastMessageId.current ? "smooth" : "auto",
+      });
+      lastMessageId.current = newestId;
+    }
+  }, [messages]);
+
+  const keepPosition = () => {
+    heightBeforePrepend.current = containerRef.current?.scrollHeight ?? null;
+  };
+
+  return { containerRef, keepPosition };
+};
@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+// A conversation is either a direct chat (partner_id) or a booking thread (booking_id)
+type MuteColumn = "partner_id" | "booking_id";
+
+export const useConversationMute = (
+  currentUserId: string | null | undefined,
+  column: MuteColumn,
+  conversationId: string | null | undefined
+) => {
+  const [muted, setMuted] = useState(false);
+
+  useEffect(() => {
+    if (!currentUserId || !conversationId) return;
+
+    const loadMute = async () => {
+      const { data } = await supabase
+        .from("conversation_mutes")
+        .select("id")
+        .eq("user_id", currentUserId)
+        .eq(column, conversationId)
+        .maybeSingle();
+
+      setMuted(!!data);
+    };
+
+    loadMute();
+  }, [currentUserId, column, conversationId]);
+
+  const toggleMute = async () => {
+    if (!currentUserId || !conversationId) return null;
+
+    const { error } = muted
+      ? await supabase.from("conversation_mutes").delete().eq("user_id", currentUserId).eq(column, conversationId)
+      : await supabase.from("conversation_mutes").insert({ user_id: currentUserId, [column]: conversationId });
+
+    if (!error) setMuted(!muted);
+    return error;
+  };
+
+  return { muted, toggleMute };
+};
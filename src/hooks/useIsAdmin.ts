@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export const useIsAdmin = (currentUserId: string | null) => {
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!currentUserId) return;
+
+    const checkRole = async () => {
+      const { data, error } = await supabase.rpc("has_role", {
+        _user_id: currentUserId,
+        _role: "admin",
+      });
+
+      setIsAdmin(!error && data === true);
+      setLoading(false);
+    };
+
+    checkRole();
+  }, [currentUserId]);
+
+  return { isAdmin, loading };
+};
@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { TYPING_TIMEOUT_MS, onlineChannelName } from "@/lib/presence";
+
+/**
+ * Which of the given users are online. Listens on each user's private online
+ * channel; users the caller isn't allowed to see simply never show up.
+ */
+export const useOnlineUsers = (userIds: string[]) => {
+  const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(new Set());
+  const usersKey = [...new Set(userIds)].sort().join(",");
+
+  useEffect(() => {
+    const channels = (usersKey ? usersKey.split(",") : []).map((userId) => {
+      const channel = supabase.channel(onlineChannelName(userId), { config: { private: true } });
+      channel
+        .on("presence", { event: "sync" }, () => {
+          const online = (channel.presenceState()[userId] || []).length > 0;
+          setOnlineUserIds((current) => {
+            if (current.has(userId) === online) return current;
+            const next = new Set(current);
+            if (online) next.add(userId);
+            else next.delete(userId);
+            return next;
+          });
+        })
+        .subscribe();
+      return channel;
+    });
+
+    return () => {
+      channels.forEach((channel) => supabase.removeChannel(channel));
+      setOnlineUserIds(new Set());
+    };
+  }, [usersKey]);
+
+  return onlineUserIds;
+};
+
+/**
+ * Joins a conversation's presence channel. Reports whether the other
+ * participant has the conversation open and is typing; call notifyTyping on
+ * each keystroke and stopTyping once the message is sent.
+ */
+export const useConversationPresence = (conversationKey: string, currentUserId: string, otherUserId: string | null) => {
+  const [otherPresent, setOtherPresent] = useState(false);
+  const [otherTyping, setOtherTyping] = useState(false);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const typingRef = useRef(false);
+  const typingTimeout = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => {
+    // Private, so only the participants can join; see public.can_use_presence_topic
+    const channel = supabase.channel(`presence-${conversationKey}`, {
+      config: { private: true, presence: { key: currentUserId } },
+    });
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        const entries = otherUserId ? channel.presenceState<{ typing: boolean }>()[otherUserId] || [] : [];
+        setOtherPresent(entries.length > 0);
+        setOtherTyping(entries.some((entry) => entry.typing));
+      })
+      .subscribe(async (status) => {
+        if (status === "SUBSCRIBED") {
+          await channel.track({ typing: false });
+        }
+      });
+    channelRef.current = channel;
+
+    return () => {
+      clearTimeout(typingTimeout.current);
+      typingRef.current = false;
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [conversationKey, currentUserId, otherUserId]);
+
+  const setTyping = (typing: boolean) => {
+    if (typingRef.current === typing) return;
+    typingRef.current = typing;
+    channelRef.current?.track({ typing });
+  };
+
+  const notifyTyping = () => {
+    setTyping(true);
+    clearTimeout(typingTimeout.current);
+    typingTimeout.current = setTimeout(() => setTyping(false), TYPING_TIMEOUT_MS);
+  };
+
+  const stopTyping = () => {
+    clearTimeout(typingTimeout.current);
+    setTyping(false);
+  };
+
+  return { otherPresent, otherTyping, notifyTyping, stopTyping };
+};
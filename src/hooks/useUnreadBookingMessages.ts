@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export const useUnreadBookingMessages = (currentUserId: string | null) => {
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (!currentUserId) return;
+
+    // RLS limits messages to the user's own bookings
+    const loadUnreadCounts = async () => {
+      const [{ data, error }, { data: mutes }] = await Promise.all([
+        supabase
+          .from("messages")
+          .select("booking_id")
+          .neq("sender_id", currentUserId)
+          .is("read_at", null),
+        supabase.from("conversation_mutes").select("booking_id").eq("user_id", currentUserId),
+      ]);
+
+      if (!error && data) {
+        // Muted conversations don't count towards unread badges
+        const muted = new Set((mutes || []).map((mute) => mute.booking_id));
+        const counts: Record<string, number> = {};
+        data.forEach((msg) => {
+          if (muted.has(msg.booking_id)) return;
+          counts[msg.booking_id] = (counts[msg.booking_id] || 0) + 1;
+        });
+        setUnreadCounts(counts);
+      }
+    };
+
+    loadUnreadCounts();
+
+    // Subscribe to real-time updates
+    const channel = supabase
+      .channel(`unread-booking-messages-${currentUserId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'messages'
+        },
+        () => {
+          loadUnreadCounts();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [currentUserId]);
+
+  return unreadCounts;
+};
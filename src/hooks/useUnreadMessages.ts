@@ -8,15 +8,21 @@ export const useUnreadMessages = (currentUserId: string | null) => {
     if (!currentUserId) return;
 
     const loadUnreadCounts = async () => {
-      const { data, error } = await supabase
-        .from("direct_messages")
-        .select("sender_id")
-        .eq("receiver_id", currentUserId)
-        .is("read_at", null);
+      const [{ data, error }, { data: mutes }] = await Promise.all([
+        supabase
+          .from("direct_messages")
+          .select("sender_id")
+          .eq("receiver_id", currentUserId)
+          .is("read_at", null),
+        supabase.from("conversation_mutes").select("partner_id").eq("user_id", currentUserId),
+      ]);
 
       if (!error && data) {
+        // Muted conversations don't count towards unread badges
+        const muted = new Set((mutes || []).map((mute) => mute.partner_id));
         const counts: Record<string, number> = {};
         data.forEach((msg) => {
+          if (muted.has(msg.sender_id)) return;
           counts[msg.sender_id] = (counts[msg.sender_id] || 0) + 1;
         });
         setUnreadCounts(counts);
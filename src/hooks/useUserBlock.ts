@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+// Block state between the current user and another user. `blocked` covers
+// both directions; `blockedByMe` is only the current user's own block.
+export const useUserBlock = (currentUserId: string | null | undefined, otherUserId: string | null | undefined) => {
+  const [blocked, setBlocked] = useState(false);
+  const [blockedByMe, setBlockedByMe] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const loadBlock = async () => {
+    if (!currentUserId || !otherUserId) return;
+
+    const [{ data: either }, { data: own }] = await Promise.all([
+      supabase.rpc("is_blocked_with", { _user_id: otherUserId }),
+      supabase
+        .from("user_blocks")
+        .select("id")
+        .eq("blocker_id", currentUserId)
+        .eq("blocked_id", otherUserId)
+        .maybeSingle(),
+    ]);
+
+    setBlocked(either === true);
+    setBlockedByMe(!!own);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadBlock();
+  }, [currentUserId, otherUserId]);
+
+  const block = async () => {
+    if (!currentUserId || !otherUserId) return null;
+
+    const { error } = await supabase
+      .from("user_blocks")
+      .insert({ blocker_id: currentUserId, blocked_id: otherUserId });
+
+    if (!error) {
+      setBlocked(true);
+      setBlockedByMe(true);
+    }
+    return error;
+  };
+
+  const unblock = async () => {
+    if (!currentUserId || !otherUserId) return null;
+
+    const { error } = await supabase
+      .from("user_blocks")
+      .delete()
+      .eq("blocker_id", currentUserId)
+      .eq("blocked_id", otherUserId);
+
+    // The other user may still have blocked us
+    if (!error) await loadBlock();
+    return error;
+  };
+
+  return { blocked, blockedByMe, loading, block, unblock, refresh: loadBlock };
+};
@@ -49,10 +49,210 @@ export type Database = {
           },
         ]
       }
+      availability_rules: {
+        Row: {
+          created_at: string
+          end_date: string | null
+          id: string
+          notes: string | null
+          rule_type: string
+          start_date: string | null
+          status: string
+          updated_at: string
+          weekdays: number[] | null
+          worker_id: string
+        }
+        Insert: {
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          notes?: string | null
+          rule_type: string
+          start_date?: string | null
+          status: string
+          updated_at?: string
+          weekdays?: number[] | null
+          worker_id: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string | null
+          id?: string
+          notes?: string | null
+          rule_type?: string
+          start_date?: string | null
+          status?: string
+          updated_at?: string
+          weekdays?: number[] | null
+          worker_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "availability_rules_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "worker_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      availability_windows: {
+        Row: {
+          created_at: string
+          date: string | null
+          end_time: string
+          id: string
+          start_time: string
+          weekday: number | null
+          worker_id: string
+        }
+        Insert: {
+          created_at?: string
+          date?: string | null
+          end_time: string
+          id?: string
+          start_time: string
+          weekday?: number | null
+          worker_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string | null
+          end_time?: string
+          id?: string
+          start_time?: string
+          weekday?: number | null
+          worker_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "availability_windows_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "worker_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_events: {
+        Row: {
+          actor_id: string | null
+          booking_id: string
+          created_at: string
+          field: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+          reason: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          booking_id: string
+          created_at?: string
+          field: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          reason?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          booking_id?: string
+          created_at?: string
+          field?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_events_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      booking_offers: {
+        Row: {
+          booking_date: string
+          booking_id: string
+          created_at: string
+          duration_hours: number | null
+          id: string
+          message: string | null
+          offered_by: string
+          offered_by_role: string
+          rate: number
+          responded_at: string | null
+          start_time: string | null
+          status: string
+          version: number
+        }
+        Insert: {
+          booking_date: string
+          booking_id: string
+          created_at?: string
+          duration_hours?: number | null
+          id?: string
+          message?: string | null
+          offered_by: string
+          offered_by_role: string
+          rate: number
+          responded_at?: string | null
+          start_time?: string | null
+          status?: string
+          version: number
+        }
+        Update: {
+          booking_date?: string
+          booking_id?: string
+          created_at?: string
+          duration_hours?: number | null
+          id?: string
+          message?: string | null
+          offered_by?: string
+          offered_by_role?: string
+          rate?: number
+          responded_at?: string | null
+          start_time?: string | null
+          status?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "booking_offers_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "booking_offers_offered_by_fkey"
+            columns: ["offered_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bookings: {
         Row: {
           agreed_rate: number
           booking_date: string
+          cancellation_fee: number | null
+          cancellation_party: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
           created_at: string
           duration_hours: number | null
           hirer_id: string
@@ -60,6 +260,7 @@ export type Database = {
           payment_status: string | null
           start_time: string | null
           status: string
+          time_slot: unknown | null
           updated_at: string
           work_description: string
           worker_id: string
@@ -74,6 +275,7 @@ export type Database = {
           payment_status?: string | null
           start_time?: string | null
           status?: string
+          time_slot?: never
           updated_at?: string
           work_description: string
           worker_id: string
@@ -81,6 +283,10 @@ export type Database = {
         Update: {
           agreed_rate?: number
           booking_date?: string
+          cancellation_fee?: number | null
+          cancellation_party?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
           created_at?: string
           duration_hours?: number | null
           hirer_id?: string
@@ -88,6 +294,7 @@ export type Database = {
           payment_status?: string | null
           start_time?: string | null
           status?: string
+          time_slot?: never
           updated_at?: string
           work_description?: string
           worker_id?: string
@@ -109,6 +316,36 @@ export type Database = {
           },
         ]
       }
+      cancellation_policy_tiers: {
+        Row: {
+          applies_to: string
+          created_at: string
+          fee_percent: number
+          id: string
+          label: string
+          min_hours_before: number
+          updated_at: string
+        }
+        Insert: {
+          applies_to: string
+          created_at?: string
+          fee_percent: number
+          id?: string
+          label: string
+          min_hours_before: number
+          updated_at?: string
+        }
+        Update: {
+          applies_to?: string
+          created_at?: string
+          fee_percent?: number
+          id?: string
+          label?: string
+          min_hours_before?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       categories: {
         Row: {
           created_at: string
@@ -133,12 +370,159 @@ export type Database = {
         }
         Relationships: []
       }
+      conversation_mutes: {
+        Row: {
+          booking_id: string | null
+          created_at: string
+          id: string
+          partner_id: string | null
+          user_id: string
+        }
+        Insert: {
+          booking_id?: string | null
+          created_at?: string
+          id?: string
+          partner_id?: string | null
+          user_id: string
+        }
+        Update: {
+          booking_id?: string | null
+          created_at?: string
+          id?: string
+          partner_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_mutes_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_mutes_partner_id_fkey"
+            columns: ["partner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_mutes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      direct_message_reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          id: string
+          message_id: string
+          message_snapshot: Json
+          reason: string
+          reporter_id: string
+          resolution_notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          message_id: string
+          message_snapshot?: Json
+          reason: string
+          reporter_id: string
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          id?: string
+          message_id?: string
+          message_snapshot?: Json
+          reason?: string
+          reporter_id?: string
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "direct_message_reports_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "direct_messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "direct_message_reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "direct_message_reports_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      direct_message_revisions: {
+        Row: {
+          content: string
+          created_at: string
+          file_path: string | null
+          file_type: string | null
+          id: string
+          message_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          file_path?: string | null
+          file_type?: string | null
+          id?: string
+          message_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          file_path?: string | null
+          file_type?: string | null
+          id?: string
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "direct_message_revisions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "direct_messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       direct_messages: {
         Row: {
           content: string
           created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          file_path: string | null
           file_type: string | null
-          file_url: string | null
           id: string
           read_at: string | null
           receiver_id: string
@@ -147,8 +531,10 @@ export type Database = {
         Insert: {
           content: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          file_path?: string | null
           file_type?: string | null
-          file_url?: string | null
           id?: string
           read_at?: string | null
           receiver_id: string
@@ -157,8 +543,10 @@ export type Database = {
         Update: {
           content?: string
           created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          file_path?: string | null
           file_type?: string | null
-          file_url?: string | null
           id?: string
           read_at?: string | null
           receiver_id?: string
@@ -166,32 +554,261 @@ export type Database = {
         }
         Relationships: []
       }
+      escrow_step_reservations: {
+        Row: {
+          booking_id: string
+          reserved_at: string
+          reserved_by: string
+          step: string
+        }
+        Insert: {
+          booking_id: string
+          reserved_at?: string
+          reserved_by: string
+          step: string
+        }
+        Update: {
+          booking_id?: string
+          reserved_at?: string
+          reserved_by?: string
+          step?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "escrow_step_reservations_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hirer_reviews: {
+        Row: {
+          booking_id: string
+          created_at: string
+          hirer_id: string
+          id: string
+          rating: number
+          revealed_at: string | null
+          review_text: string | null
+          updated_at: string
+          worker_id: string
+        }
+        Insert: {
+          booking_id: string
+          created_at?: string
+          hirer_id: string
+          id?: string
+          rating: number
+          revealed_at?: string | null
+          review_text?: string | null
+          updated_at?: string
+          worker_id: string
+        }
+        Update: {
+          booking_id?: string
+          created_at?: string
+          hirer_id?: string
+          id?: string
+          rating?: number
+          revealed_at?: string | null
+          review_text?: string | null
+          updated_at?: string
+          worker_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hirer_reviews_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hirer_reviews_hirer_id_fkey"
+            columns: ["hirer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hirer_reviews_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "worker_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_counters: {
+        Row: {
+          financial_year: string
+          last_number: number
+        }
+        Insert: {
+          financial_year: string
+          last_number?: number
+        }
+        Update: {
+          financial_year?: string
+          last_number?: number
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          booking_id: string
+          category_name: string
+          cgst_amount: number
+          cgst_rate: number
+          created_at: string
+          description: string
+          financial_year: string
+          hirer_id: string
+          id: string
+          igst_amount: number
+          igst_rate: number
+          invoice_number: string
+          issued_at: string
+          place_of_supply: string | null
+          quantity: number
+          recipient_address: string | null
+          recipient_email: string | null
+          recipient_gstin: string | null
+          recipient_name: string
+          recipient_state_code: string | null
+          sac_code: string
+          sgst_amount: number
+          sgst_rate: number
+          supplier_address: string | null
+          supplier_gstin: string | null
+          supplier_name: string
+          supplier_state_code: string | null
+          taxable_amount: number
+          total_amount: number
+          unit: string
+          worker_id: string
+        }
+        Insert: {
+          booking_id: string
+          category_name: string
+          cgst_amount: number
+          cgst_rate: number
+          created_at?: string
+          description: string
+          financial_year: string
+          hirer_id: string
+          id?: string
+          igst_amount?: number
+          igst_rate?: number
+          invoice_number: string
+          issued_at?: string
+          place_of_supply?: string | null
+          quantity: number
+          recipient_address?: string | null
+          recipient_email?: string | null
+          recipient_gstin?: string | null
+          recipient_name: string
+          recipient_state_code?: string | null
+          sac_code?: string
+          sgst_amount: number
+          sgst_rate: number
+          supplier_address?: string | null
+          supplier_gstin?: string | null
+          supplier_name: string
+          supplier_state_code?: string | null
+          taxable_amount: number
+          total_amount: number
+          unit: string
+          worker_id: string
+        }
+        Update: {
+          booking_id?: string
+          category_name?: string
+          cgst_amount?: number
+          cgst_rate?: number
+          created_at?: string
+          description?: string
+          financial_year?: string
+          hirer_id?: string
+          id?: string
+          igst_amount?: number
+          igst_rate?: number
+          invoice_number?: string
+          issued_at?: string
+          place_of_supply?: string | null
+          quantity?: number
+          recipient_address?: string | null
+          recipient_email?: string | null
+          recipient_gstin?: string | null
+          recipient_name?: string
+          recipient_state_code?: string | null
+          sac_code?: string
+          sgst_amount?: number
+          sgst_rate?: number
+          supplier_address?: string | null
+          supplier_gstin?: string | null
+          supplier_name?: string
+          supplier_state_code?: string | null
+          taxable_amount?: number
+          total_amount?: number
+          unit?: string
+          worker_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_hirer_id_fkey"
+            columns: ["hirer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "worker_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           booking_id: string
           content: string
           created_at: string
+          file_path: string | null
           file_type: string | null
-          file_url: string | null
           id: string
+          read_at: string | null
           sender_id: string
         }
         Insert: {
           booking_id: string
           content: string
           created_at?: string
+          file_path?: string | null
           file_type?: string | null
-          file_url?: string | null
           id?: string
+          read_at?: string | null
           sender_id: string
         }
         Update: {
           booking_id?: string
           content?: string
           created_at?: string
+          file_path?: string | null
           file_type?: string | null
-          file_url?: string | null
           id?: string
+          read_at?: string | null
           sender_id?: string
         }
         Relationships: [
@@ -211,55 +828,301 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      payments: {
+        Row: {
+          amount: number
+          booking_id: string
+          created_at: string
+          created_by: string | null
+          currency: string
+          entry_type: string
+          failure_reason: string | null
+          id: string
+          provider: string
+          provider_reference: string | null
+          status: string
+        }
+        Insert: {
+          amount: number
+          booking_id: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          entry_type: string
+          failure_reason?: string | null
+          id?: string
+          provider: string
+          provider_reference?: string | null
+          status: string
+        }
+        Update: {
+          amount?: number
+          booking_id?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          entry_type?: string
+          failure_reason?: string | null
+          id?: string
+          provider?: string
+          provider_reference?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          address: string | null
+          avatar_url: string | null
+          created_at: string
+          email: string
+          full_name: string
+          gst_state_code: string | null
+          gstin: string | null
+          hirer_rating: number
+          hirer_rating_count: number
+          id: string
+          location_lat: number | null
+          location_lng: number | null
+          phone: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          avatar_url?: string | null
+          created_at?: string
+          email: string
+          full_name: string
+          gst_state_code?: string | null
+          gstin?: string | null
+          hirer_rating?: number
+          hirer_rating_count?: number
+          id: string
+          location_lat?: number | null
+          location_lng?: number | null
+          phone?: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          avatar_url?: string | null
+          created_at?: string
+          email?: string
+          full_name?: string
+          gst_state_code?: string | null
+          gstin?: string | null
+          hirer_rating?: number
+          hirer_rating_count?: number
+          id?: string
+          location_lat?: number | null
+          location_lng?: number | null
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      review_criteria: {
+        Row: {
+          category_id: string | null
+          created_at: string
+          id: string
+          key: string
+          label: string
+          sort_order: number
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          key: string
+          label: string
+          sort_order?: number
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          key?: string
+          label?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_criteria_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_moderation_log: {
+        Row: {
+          action: string
+          admin_id: string | null
+          created_at: string
+          id: string
+          notes: string | null
+          review_id: string
+          review_snapshot: Json
+        }
+        Insert: {
+          action: string
+          admin_id?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          review_id: string
+          review_snapshot: Json
+        }
+        Update: {
+          action?: string
+          admin_id?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          review_id?: string
+          review_snapshot?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_moderation_log_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_replies: {
+        Row: {
+          created_at: string
+          id: string
+          reply_text: string
+          review_id: string
+          updated_at: string
+          worker_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          reply_text: string
+          review_id: string
+          updated_at?: string
+          worker_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          reply_text?: string
+          review_id?: string
+          updated_at?: string
+          worker_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_replies_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: true
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_replies_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "worker_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      review_reports: {
         Row: {
-          address: string | null
-          avatar_url: string | null
           created_at: string
-          email: string
-          full_name: string
+          details: string | null
           id: string
-          location_lat: number | null
-          location_lng: number | null
-          phone: string | null
-          role: Database["public"]["Enums"]["user_role"]
-          updated_at: string
+          reason: string
+          reporter_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+          review_id: string
+          status: string
         }
         Insert: {
-          address?: string | null
-          avatar_url?: string | null
           created_at?: string
-          email: string
-          full_name: string
-          id: string
-          location_lat?: number | null
-          location_lng?: number | null
-          phone?: string | null
-          role: Database["public"]["Enums"]["user_role"]
-          updated_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reporter_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id: string
+          status?: string
         }
         Update: {
-          address?: string | null
-          avatar_url?: string | null
           created_at?: string
-          email?: string
-          full_name?: string
+          details?: string | null
           id?: string
-          location_lat?: number | null
-          location_lng?: number | null
-          phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
-          updated_at?: string
+          reason?: string
+          reporter_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+          review_id?: string
+          status?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "review_reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_reports_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "review_reports_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "reviews"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       reviews: {
         Row: {
           booking_id: string
           created_at: string
+          criteria_ratings: Json
+          hidden_at: string | null
           hirer_id: string
           id: string
+          photos: Json
           rating: number
+          revealed_at: string | null
           review_text: string | null
           updated_at: string
           worker_id: string
@@ -267,9 +1130,13 @@ export type Database = {
         Insert: {
           booking_id: string
           created_at?: string
+          criteria_ratings?: Json
+          hidden_at?: string | null
           hirer_id: string
           id?: string
+          photos?: Json
           rating: number
+          revealed_at?: string | null
           review_text?: string | null
           updated_at?: string
           worker_id: string
@@ -277,9 +1144,13 @@ export type Database = {
         Update: {
           booking_id?: string
           created_at?: string
+          criteria_ratings?: Json
+          hidden_at?: string | null
           hirer_id?: string
           id?: string
+          photos?: Json
           rating?: number
+          revealed_at?: string | null
           review_text?: string | null
           updated_at?: string
           worker_id?: string
@@ -294,6 +1165,65 @@ export type Database = {
           },
         ]
       }
+      user_blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_blocks_blocked_id_fkey"
+            columns: ["blocked_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_blocks_blocker_id_fkey"
+            columns: ["blocker_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_last_seen: {
+        Row: {
+          last_seen_at: string
+          user_id: string
+        }
+        Insert: {
+          last_seen_at?: string
+          user_id: string
+        }
+        Update: {
+          last_seen_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_last_seen_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -315,6 +1245,62 @@ export type Database = {
         }
         Relationships: []
       }
+      worker_documents: {
+        Row: {
+          created_at: string
+          document_type: string
+          expires_on: string | null
+          file_name: string
+          file_path: string
+          file_type: string
+          id: string
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          updated_at: string
+          verification_status: string
+          worker_id: string
+        }
+        Insert: {
+          created_at?: string
+          document_type: string
+          expires_on?: string | null
+          file_name: string
+          file_path: string
+          file_type: string
+          id?: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          updated_at?: string
+          verification_status?: string
+          worker_id: string
+        }
+        Update: {
+          created_at?: string
+          document_type?: string
+          expires_on?: string | null
+          file_name?: string
+          file_path?: string
+          file_type?: string
+          id?: string
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          updated_at?: string
+          verification_status?: string
+          worker_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "worker_documents_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "worker_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       worker_profiles: {
         Row: {
           bio: string | null
@@ -324,12 +1310,20 @@ export type Database = {
           experience_years: number | null
           hourly_rate: number
           id: string
-          rating: number | null
+          rating: number
+          rating_count: number
+          rating_criteria: Json
+          rating_distribution: Json
+          search_document: string
+          search_vector: unknown | null
           skills: string[] | null
-          total_jobs: number | null
+          total_jobs: number
           updated_at: string
           user_id: string
-          verification_status: string | null
+          verification_notes: string | null
+          verification_reviewed_at: string | null
+          verification_reviewed_by: string | null
+          verification_status: string
         }
         Insert: {
           bio?: string | null
@@ -339,12 +1333,20 @@ export type Database = {
           experience_years?: number | null
           hourly_rate: number
           id?: string
-          rating?: number | null
+          rating?: number
+          rating_count?: number
+          rating_criteria?: Json
+          rating_distribution?: Json
+          search_document?: string
+          search_vector?: unknown | null
           skills?: string[] | null
-          total_jobs?: number | null
+          total_jobs?: number
           updated_at?: string
           user_id: string
-          verification_status?: string | null
+          verification_notes?: string | null
+          verification_reviewed_at?: string | null
+          verification_reviewed_by?: string | null
+          verification_status?: string
         }
         Update: {
           bio?: string | null
@@ -354,12 +1356,20 @@ export type Database = {
           experience_years?: number | null
           hourly_rate?: number
           id?: string
-          rating?: number | null
+          rating?: number
+          rating_count?: number
+          rating_criteria?: Json
+          rating_distribution?: Json
+          search_document?: string
+          search_vector?: unknown | null
           skills?: string[] | null
-          total_jobs?: number | null
+          total_jobs?: number
           updated_at?: string
           user_id?: string
-          verification_status?: string | null
+          verification_notes?: string | null
+          verification_reviewed_at?: string | null
+          verification_reviewed_by?: string | null
+          verification_status?: string
         }
         Relationships: [
           {
@@ -383,10 +1393,179 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_booking_offer: {
+        Args: { _offer_id: string }
+        Returns: {
+          agreed_rate: number
+          booking_date: string
+          cancellation_fee: number | null
+          cancellation_party: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          created_at: string
+          duration_hours: number | null
+          hirer_id: string
+          id: string
+          payment_status: string | null
+          start_time: string | null
+          status: string
+          time_slot: unknown | null
+          updated_at: string
+          work_description: string
+          worker_id: string
+        }
+      }
+      begin_escrow_step: {
+        Args: { _booking_id: string; _step: string; _user_id: string }
+        Returns: {
+          agreed_rate: number
+          booking_date: string
+          cancellation_fee: number | null
+          cancellation_party: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          created_at: string
+          duration_hours: number | null
+          hirer_id: string
+          id: string
+          payment_status: string | null
+          start_time: string | null
+          status: string
+          time_slot: unknown | null
+          updated_at: string
+          work_description: string
+          worker_id: string
+        }
+      }
+      booking_actor: {
+        Args: { _booking: Database["public"]["Tables"]["bookings"]["Row"] }
+        Returns: string
+      }
+      booking_counterparty: {
+        Args: { _booking: Database["public"]["Tables"]["bookings"]["Row"] }
+        Returns: string
+      }
+      booking_hours_until_start: {
+        Args: { _booking_date: string; _start_time: string }
+        Returns: number
+      }
+      booking_payment_balance: {
+        Args: { _booking_id: string }
+        Returns: number
+      }
+      booking_review_deadline: {
+        Args: { _booking_id: string }
+        Returns: string
+      }
+      booking_transition_roles: {
+        Args: { _from: string; _to: string }
+        Returns: string[]
+      }
+      can_see_presence_of: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      can_use_presence_topic: {
+        Args: { _topic: string; _track: boolean }
+        Returns: boolean
+      }
+      cancel_booking: {
+        Args: { _booking_id: string; _no_show?: boolean; _reason: string }
+        Returns: {
+          agreed_rate: number
+          booking_date: string
+          cancellation_fee: number | null
+          cancellation_party: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          created_at: string
+          duration_hours: number | null
+          hirer_id: string
+          id: string
+          payment_status: string | null
+          start_time: string | null
+          status: string
+          time_slot: unknown | null
+          updated_at: string
+          work_description: string
+          worker_id: string
+        }
+      }
+      cancellation_fee_percent: {
+        Args: { _hours_before: number; _party: string }
+        Returns: number
+      }
+      direct_message_edit_window: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      edit_direct_message: {
+        Args: { _content: string; _message_id: string }
+        Returns: {
+          content: string
+          created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          file_path: string | null
+          file_type: string | null
+          id: string
+          read_at: string | null
+          receiver_id: string
+          sender_id: string
+        }
+      }
+      financial_year_of: {
+        Args: { _date: string }
+        Returns: string
+      }
+      finish_escrow_step: {
+        Args: { _booking_id: string }
+        Returns: undefined
+      }
+      get_inbox_conversations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          booking_id: string | null
+          booking_status: string | null
+          conversation_type: string
+          last_message: string
+          last_message_at: string
+          last_message_file_type: string | null
+          last_message_sender_id: string
+          muted: boolean
+          partner_avatar_url: string | null
+          partner_id: string
+          partner_name: string | null
+          unread_count: number
+          work_description: string | null
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      get_worker_availability: {
+        Args: { _end: string; _start: string; _worker_id: string }
+        Returns: {
+          date: string
+          source: string
+          status: string
+        }[]
+      }
+      get_worker_busy_slots: {
+        Args: { _date: string; _worker_id: string }
+        Returns: {
+          ends_at: string
+          starts_at: string
+        }[]
+      }
+      get_worker_open_windows: {
+        Args: { _date: string; _worker_id: string }
+        Returns: {
+          ends_at: string
+          starts_at: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -394,9 +1573,190 @@ export type Database = {
         }
         Returns: boolean
       }
+      haversine_km: {
+        Args: { _lat1: number; _lat2: number; _lng1: number; _lng2: number }
+        Returns: number
+      }
+      is_blocked_with: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      is_worker_booked_on: {
+        Args: { _date: string; _worker_id: string }
+        Returns: boolean
+      }
+      issue_booking_invoice: {
+        Args: { _booking_id: string }
+        Returns: {
+          booking_id: string
+          category_name: string
+          cgst_amount: number
+          cgst_rate: number
+          created_at: string
+          description: string
+          financial_year: string
+          hirer_id: string
+          id: string
+          invoice_number: string
+          issued_at: string
+          quantity: number
+          recipient_address: string | null
+          recipient_email: string | null
+          recipient_name: string
+          sac_code: string
+          sgst_amount: number
+          sgst_rate: number
+          supplier_address: string | null
+          supplier_name: string
+          taxable_amount: number
+          total_amount: number
+          unit: string
+          worker_id: string
+        }
+      }
+      make_booking_offer: {
+        Args: {
+          _booking_date: string
+          _booking_id: string
+          _duration_hours?: number
+          _message?: string
+          _rate: number
+          _start_time?: string
+        }
+        Returns: {
+          booking_date: string
+          booking_id: string
+          created_at: string
+          duration_hours: number | null
+          id: string
+          message: string | null
+          offered_by: string
+          offered_by_role: string
+          rate: number
+          responded_at: string | null
+          start_time: string | null
+          status: string
+          version: number
+        }
+      }
+      mark_booking_messages_read: {
+        Args: { _booking_id: string }
+        Returns: undefined
+      }
+      mark_direct_messages_read: {
+        Args: { _partner_id: string }
+        Returns: undefined
+      }
+      moderate_direct_message: {
+        Args: { _action: string; _notes?: string; _message_id: string }
+        Returns: undefined
+      }
+      moderate_review: {
+        Args: { _action: string; _notes?: string; _review_id: string }
+        Returns: undefined
+      }
+      record_payment_entry: {
+        Args: {
+          _amount: number
+          _booking_id: string
+          _created_by?: string
+          _entry_type: string
+          _failure_reason?: string
+          _provider: string
+          _provider_reference?: string
+          _status: string
+        }
+        Returns: {
+          amount: number
+          booking_id: string
+          created_at: string
+          created_by: string | null
+          currency: string
+          entry_type: string
+          failure_reason: string | null
+          id: string
+          provider: string
+          provider_reference: string | null
+          status: string
+        }
+      }
+      refresh_hirer_reputation: {
+        Args: { _hirer_id: string }
+        Returns: undefined
+      }
+      refresh_worker_stats: {
+        Args: { _worker_id: string }
+        Returns: undefined
+      }
+      remove_direct_message: {
+        Args: { _message_id: string }
+        Returns: undefined
+      }
+      reveal_due_reviews: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      search_workers: {
+        Args: {
+          _available_on?: string
+          _category_id?: string
+          _lat?: number
+          _limit?: number
+          _lng?: number
+          _max_daily_rate?: number
+          _max_hourly_rate?: number
+          _min_daily_rate?: number
+          _min_experience?: number
+          _min_hourly_rate?: number
+          _min_rating?: number
+          _offset?: number
+          _query?: string
+          _radius_km?: number
+          _verification_status?: string
+        }
+        Returns: {
+          bio_highlight: string
+          distance_km: number
+          matched_skills: string[]
+          name_highlight: string
+          rank: number
+          total_count: number
+          worker_id: string
+        }[]
+      }
+      touch_last_seen: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      update_booking_status: {
+        Args: { _booking_id: string; _reason?: string; _status: string }
+        Returns: {
+          agreed_rate: number
+          booking_date: string
+          cancellation_fee: number | null
+          cancellation_party: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          created_at: string
+          duration_hours: number | null
+          hirer_id: string
+          id: string
+          payment_status: string | null
+          start_time: string | null
+          status: string
+          time_slot: unknown | null
+          updated_at: string
+          work_description: string
+          worker_id: string
+        }
+      }
+      worker_day_status: {
+        Args: { _date: string; _worker_id: string }
+        Returns: string
+      }
     }
     Enums: {
-      app_role: "hirer" | "worker"
+      app_role: "hirer" | "worker" | "admin"
       user_role: "hirer" | "worker"
     }
     CompositeTypes: {
@@ -525,7 +1885,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["hirer", "worker"],
+      app_role: ["hirer", "worker", "admin"],
       user_role: ["hirer", "worker"],
     },
   },
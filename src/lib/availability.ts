@@ -0,0 +1,36 @@
+import { format, parseISO } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AvailabilityStatus = "available" | "unavailable" | "holiday";
+
+export const AVAILABILITY_STATUS_LABELS: Record<AvailabilityStatus, string> = {
+  available: "Available",
+  unavailable: "Not Available",
+  holiday: "Holiday",
+};
+
+// Indexed like Date.getDay() and Postgres extract(dow)
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const getAvailabilityLabel = (status: string) => {
+  return AVAILABILITY_STATUS_LABELS[status as AvailabilityStatus] || status;
+};
+
+/**
+ * Human readable summary of a rule, e.g. "Every Mon, Tue" or "Dec 24 – Jan 2"
+ */
+export const describeAvailabilityRule = (rule: Tables<"availability_rules">) => {
+  const formatDate = (value: string) => format(parseISO(value), "MMM d, yyyy");
+
+  if (rule.rule_type === "date_range" && rule.start_date && rule.end_date) {
+    return rule.start_date === rule.end_date
+      ? formatDate(rule.start_date)
+      : `${formatDate(rule.start_date)} – ${formatDate(rule.end_date)}`;
+  }
+
+  const days = [...(rule.weekdays || [])].sort().map((day) => WEEKDAY_LABELS[day]).join(", ");
+  let description = `Every ${days}`;
+  if (rule.start_date) description += ` from ${formatDate(rule.start_date)}`;
+  if (rule.end_date) description += ` until ${formatDate(rule.end_date)}`;
+  return description;
+};
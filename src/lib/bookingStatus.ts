@@ -0,0 +1,29 @@
+export type BookingStatus = "pending" | "confirmed" | "in_progress" | "completed" | "cancelled";
+export type BookingActor = "hirer" | "worker";
+
+/**
+ * Mirrors public.booking_transition_roles. The database enforces these rules;
+ * this copy only decides which actions to offer.
+ */
+const TRANSITIONS: Partial<Record<BookingStatus, Partial<Record<BookingStatus, BookingActor[]>>>> = {
+  // Confirming happens by accepting the other party's offer
+  pending: { confirmed: ["hirer", "worker"], cancelled: ["hirer", "worker"] },
+  confirmed: { in_progress: ["worker"], cancelled: ["hirer", "worker"] },
+  in_progress: { completed: ["worker"] },
+};
+
+export const canTransition = (from: string, to: BookingStatus, actor: BookingActor) => {
+  return TRANSITIONS[from as BookingStatus]?.[to]?.includes(actor) ?? false;
+};
+
+export const BOOKING_STATUS_LABELS: Record<BookingStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  in_progress: "In Progress",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+export const getBookingStatusLabel = (status: string) => {
+  return BOOKING_STATUS_LABELS[status as BookingStatus] || status;
+};
@@ -0,0 +1,66 @@
+import { parseISO } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type CancellationParty = "hirer" | "worker" | "worker_no_show";
+export type CancellationTier = Tables<"cancellation_policy_tiers">;
+
+export const CANCELLATION_PARTY_LABELS: Record<CancellationParty, string> = {
+  hirer: "Cancelled by hirer",
+  worker: "Cancelled by worker",
+  worker_no_show: "Worker no-show",
+};
+
+export const getCancellationPartyLabel = (party: string) => {
+  return CANCELLATION_PARTY_LABELS[party as CancellationParty] || party;
+};
+
+// Booking dates and times are Indian Standard Time, which has no daylight saving
+const BOOKING_UTC_OFFSET = "+05:30";
+
+/**
+ * Hours until the booking starts, counted from the start of the day when no
+ * start time was picked. Mirrors public.booking_hours_until_start, which works
+ * in Asia/Kolkata, so the browser's own time zone doesn't change the tier.
+ */
+export const getHoursUntilStart = (bookingDate: string, startTime?: string | null) => {
+  const start = parseISO(`${bookingDate}T${startTime || "00:00"}${BOOKING_UTC_OFFSET}`);
+  return (start.getTime() - Date.now()) / 3_600_000;
+};
+
+/**
+ * The tier that applies to a cancellation, i.e. the one with the largest
+ * min_hours_before that has not passed yet
+ */
+export const findCancellationTier = (tiers: CancellationTier[], party: CancellationParty, hoursBefore: number) => {
+  return tiers
+    .filter((tier) => tier.applies_to === party && Number(tier.min_hours_before) <= Math.max(hoursBefore, 0))
+    .sort((a, b) => Number(b.min_hours_before) - Number(a.min_hours_before))[0];
+};
+
+export const calculateCancellationAmount = (tier: CancellationTier | undefined, agreedRate: number) => {
+  if (!tier) return 0;
+  return Math.round(agreedRate * Number(tier.fee_percent)) / 100;
+};
+
+/**
+ * e.g. "24h or more before the start: Free cancellation"
+ */
+export const describeCancellationTier = (tier: CancellationTier, tiers: CancellationTier[]) => {
+  const nextTier = tiers
+    .filter((other) => other.applies_to === tier.applies_to && Number(other.min_hours_before) > Number(tier.min_hours_before))
+    .sort((a, b) => Number(a.min_hours_before) - Number(b.min_hours_before))[0];
+
+  const minHours = Number(tier.min_hours_before);
+  const window = tier.applies_to === "worker_no_show"
+    ? "After the start time"
+    : nextTier
+    ? minHours > 0
+      ? `${minHours}–${Number(nextTier.min_hours_before)}h before the start`
+      : `Less than ${Number(nextTier.min_hours_before)}h before the start`
+    : minHours > 0
+      ? `${minHours}h or more before the start`
+      : "Any time";
+  const fee = Number(tier.fee_percent) > 0 ? `${Number(tier.fee_percent)}% of the agreed rate` : "no charge";
+
+  return `${window}: ${tier.label} (${fee})`;
+};
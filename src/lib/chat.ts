@@ -0,0 +1,59 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const CHAT_PAGE_SIZE = 50;
+export const CHAT_FILES_BUCKET = "chat-files";
+export const MAX_CHAT_FILE_SIZE = 10 * 1024 * 1024;
+
+// Matches the bucket's allowed_mime_types
+export const CHAT_FILE_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "application/pdf",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "text/plain",
+];
+
+// Signed attachment links are made on display and only live this long (seconds)
+const CHAT_FILE_URL_TTL = 5 * 60;
+
+interface ChatMessage {
+  id: string;
+  created_at: string;
+}
+
+/**
+ * Adds messages to a conversation in time order. Messages are sent with a
+ * client-generated id, so the server row and its realtime echo replace the
+ * optimistic copy instead of showing twice.
+ */
+export const mergeMessages = <T extends ChatMessage>(current: T[], incoming: T[]) => {
+  const byId = new Map(current.map((message) => [message.id, message]));
+  incoming.forEach((message) => byId.set(message.id, message));
+  return [...byId.values()].sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at));
+};
+
+/**
+ * Uploads into the sender's folder and returns the object path stored on the message
+ */
+export const uploadChatFile = async (userId: string, file: File) => {
+  const fileExt = file.name.split(".").pop();
+  const path = `${userId}/${crypto.randomUUID()}.${fileExt}`;
+
+  const { error } = await supabase.storage.from(CHAT_FILES_BUCKET).upload(path, file, { contentType: file.type });
+  if (error) throw error;
+
+  return path;
+};
+
+/**
+ * The bucket is private and readable only by the conversation's participants
+ */
+export const getChatFileUrl = async (path: string) => {
+  const { data, error } = await supabase.storage.from(CHAT_FILES_BUCKET).createSignedUrl(path, CHAT_FILE_URL_TTL);
+  if (error) throw error;
+
+  return data.signedUrl;
+};
@@ -40,10 +40,64 @@ export const getErrorMessage = (error: any): string => {
   if (code === "23502" || message.includes("not null")) {
     return "Please fill in all required fields.";
   }
+  if (code === "23P01" || message.includes("exclusion constraint")) {
+    return "The worker already has a booking during this time. Please choose another slot.";
+  }
   if (code === "23514" || message.includes("check constraint")) {
     return "Invalid data. Please check your input values.";
   }
 
+  // Booking status errors (raised by the bookings status trigger)
+  if (code === "BK001") {
+    return "This booking can't be moved to that status from its current state. Please refresh and try again.";
+  }
+  if (code === "BK002") {
+    return "Only the other party can make this change to the booking.";
+  }
+  if (code === "BK003") {
+    return "The worker is not available on this date.";
+  }
+  if (code === "BK004") {
+    return "The requested time is outside the worker's working hours. Please pick an open slot.";
+  }
+  if (code === "BK005") {
+    return "Please give a reason for cancelling.";
+  }
+  if (code === "BK006") {
+    return "A no-show can only be reported once an accepted booking was due to start.";
+  }
+  if (code === "BK007") {
+    return "This offer is no longer open. Please refresh to see the latest terms.";
+  }
+  if (code === "BK008") {
+    return "Your offer is still waiting for the other party to respond.";
+  }
+  if (code === "BK009") {
+    return "This booking can't be negotiated because one of you has blocked the other.";
+  }
+
+  // Payment ledger errors (raised by record_payment_entry and begin_escrow_step)
+  if (code === "PY001") {
+    return "This payment step isn't allowed for the booking's current state.";
+  }
+  if (code === "PY002") {
+    return "The amount is more than the funds held for this booking.";
+  }
+  if (code === "PY003") {
+    return "The payment amount doesn't match the agreed rate for this booking.";
+  }
+  if (code === "PY004") {
+    return "A payment for this booking is already being processed. Please wait a moment and refresh.";
+  }
+
+  // Direct message errors (raised by edit_direct_message)
+  if (code === "MS001") {
+    return "Messages can only be edited for 15 minutes after sending.";
+  }
+  if (code === "MS002") {
+    return "This message has been deleted.";
+  }
+
   // Network errors
   if (message.includes("fetch") || message.includes("network")) {
     return "Network error. Please check your connection and try again.";
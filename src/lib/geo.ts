@@ -0,0 +1,33 @@
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Resolves the browser's current position as a GeoPoint
+ */
+export const getCurrentPosition = (): Promise<GeoPoint> => {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error("Location is not supported by this browser"));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ lat: position.coords.latitude, lng: position.coords.longitude }),
+      () => reject(new Error("Unable to get your current location")),
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  });
+};
+
+export const isValidGeoPoint = (point: Partial<GeoPoint> | null | undefined): point is GeoPoint => {
+  if (!point || typeof point.lat !== "number" || typeof point.lng !== "number") return false;
+  if (Number.isNaN(point.lat) || Number.isNaN(point.lng)) return false;
+  return point.lat >= -90 && point.lat <= 90 && point.lng >= -180 && point.lng <= 180;
+};
+
+export const formatDistance = (km: number) => {
+  if (km < 1) return `${Math.round(km * 1000)} m away`;
+  return `${km < 10 ? km.toFixed(1) : Math.round(km)} km away`;
+};
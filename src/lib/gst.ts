@@ -0,0 +1,61 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+// State codes used by GST; they are also the first two digits of a GSTIN
+export const GST_STATES: Record<string, string> = {
+  "01": "Jammu and Kashmir",
+  "02": "Himachal Pradesh",
+  "03": "Punjab",
+  "04": "Chandigarh",
+  "05": "Uttarakhand",
+  "06": "Haryana",
+  "07": "Delhi",
+  "08": "Rajasthan",
+  "09": "Uttar Pradesh",
+  "10": "Bihar",
+  "11": "Sikkim",
+  "12": "Arunachal Pradesh",
+  "13": "Nagaland",
+  "14": "Manipur",
+  "15": "Mizoram",
+  "16": "Tripura",
+  "17": "Meghalaya",
+  "18": "Assam",
+  "19": "West Bengal",
+  "20": "Jharkhand",
+  "21": "Odisha",
+  "22": "Chhattisgarh",
+  "23": "Madhya Pradesh",
+  "24": "Gujarat",
+  "26": "Dadra and Nagar Haveli and Daman and Diu",
+  "27": "Maharashtra",
+  "29": "Karnataka",
+  "30": "Goa",
+  "31": "Lakshadweep",
+  "32": "Kerala",
+  "33": "Tamil Nadu",
+  "34": "Puducherry",
+  "35": "Andaman and Nicobar Islands",
+  "36": "Telangana",
+  "37": "Andhra Pradesh",
+  "38": "Ladakh",
+  "97": "Other Territory",
+};
+
+// Same pattern as the profiles.gstin check constraint
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const getGstStateLabel = (code: string | null) => {
+  if (!code) return null;
+  return GST_STATES[code] ? `${GST_STATES[code]} (${code})` : code;
+};
+
+type InvoiceTax = Pick<Tables<"invoices">, "cgst_amount" | "sgst_amount" | "igst_amount" | "cgst_rate" | "sgst_rate" | "igst_rate">;
+
+/**
+ * Total GST on an invoice, whether it was charged as CGST + SGST or as IGST
+ */
+export const getInvoiceGstAmount = (invoice: InvoiceTax) =>
+  Number(invoice.cgst_amount) + Number(invoice.sgst_amount) + Number(invoice.igst_amount);
+
+export const getInvoiceGstRate = (invoice: InvoiceTax) =>
+  Number(invoice.cgst_rate) + Number(invoice.sgst_rate) + Number(invoice.igst_rate);
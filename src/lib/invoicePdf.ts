@@ -0,0 +1,216 @@
+import { jsPDF } from "jspdf";
+import { format } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import { getGstStateLabel, getInvoiceGstAmount } from "@/lib/gst";
+
+export type Invoice = Tables<"invoices">;
+
+const PAGE_MARGIN = 20;
+const PAGE_WIDTH = 210;
+const RIGHT_EDGE = PAGE_WIDTH - PAGE_MARGIN;
+
+// The built-in PDF fonts have no rupee glyph
+export const formatInvoiceAmount = (amount: number) =>
+  `INR ${Number(amount).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const fileSafe = (value: string) => value.replace(/[^A-Za-z0-9-]+/g, "-");
+
+const drawHeader = (doc: jsPDF, title: string, lines: string[]) => {
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.text(title, PAGE_MARGIN, 25);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  lines.forEach((line, idx) => doc.text(line, RIGHT_EDGE, 20 + idx * 5, { align: "right" }));
+  doc.line(PAGE_MARGIN, 40, RIGHT_EDGE, 40);
+};
+
+// Writes a labelled block of lines and returns the y position below it
+const drawParty = (doc: jsPDF, label: string, lines: (string | null)[], x: number, y: number) => {
+  doc.setFont("helvetica", "bold");
+  doc.text(label, x, y);
+  doc.setFont("helvetica", "normal");
+  let cursor = y + 5;
+  lines.filter(Boolean).forEach((line) => {
+    const wrapped: string[] = doc.splitTextToSize(line as string, 80);
+    doc.text(wrapped, x, cursor);
+    cursor += wrapped.length * 5;
+  });
+  return cursor;
+};
+
+const drawRow = (doc: jsPDF, y: number, label: string, value: string, bold = false) => {
+  doc.setFont("helvetica", bold ? "bold" : "normal");
+  doc.text(label, 120, y);
+  doc.text(value, RIGHT_EDGE, y, { align: "right" });
+};
+
+const gstinLine = (gstin: string | null) => (gstin ? `GSTIN: ${gstin}` : null);
+const stateLine = (code: string | null) => (code ? `State: ${getGstStateLabel(code)}` : null);
+
+/**
+ * Tax invoice for a completed booking
+ */
+export const downloadInvoicePdf = (invoice: Invoice) => {
+  const doc = new jsPDF();
+  const placeOfSupply = getGstStateLabel(invoice.place_of_supply);
+  drawHeader(doc, "Tax Invoice", [
+    `Invoice No: ${invoice.invoice_number}`,
+    `Date: ${format(new Date(invoice.issued_at), "dd MMM yyyy")}`,
+    `SAC: ${invoice.sac_code}`,
+    ...(placeOfSupply ? [`Place of Supply: ${placeOfSupply}`] : []),
+  ]);
+
+  const supplierEnd = drawParty(
+    doc,
+    "Supplier",
+    [
+      invoice.supplier_name,
+      invoice.supplier_address,
+      stateLine(invoice.supplier_state_code),
+      gstinLine(invoice.supplier_gstin),
+    ],
+    PAGE_MARGIN,
+    50
+  );
+  const recipientEnd = drawParty(
+    doc,
+    "Bill To",
+    [
+      invoice.recipient_name,
+      invoice.recipient_address,
+      invoice.recipient_email,
+      stateLine(invoice.recipient_state_code),
+      gstinLine(invoice.recipient_gstin),
+    ],
+    110,
+    50
+  );
+
+  let y = Math.max(supplierEnd, recipientEnd) + 10;
+  doc.setFont("helvetica", "bold");
+  doc.text("Description", PAGE_MARGIN, y);
+  doc.text("Qty", 130, y, { align: "right" });
+  doc.text("Rate", 160, y, { align: "right" });
+  doc.text("Amount", RIGHT_EDGE, y, { align: "right" });
+  doc.line(PAGE_MARGIN, y + 2, RIGHT_EDGE, y + 2);
+
+  y += 8;
+  doc.setFont("helvetica", "normal");
+  const description: string[] = doc.splitTextToSize(`${invoice.category_name}: ${invoice.description}`, 95);
+  const quantity = Number(invoice.quantity);
+  doc.text(description, PAGE_MARGIN, y);
+  doc.text(`${quantity} ${invoice.unit}${quantity === 1 ? "" : "s"}`, 130, y, { align: "right" });
+  doc.text(formatInvoiceAmount(Number(invoice.taxable_amount) / quantity), 160, y, { align: "right" });
+  doc.text(formatInvoiceAmount(invoice.taxable_amount), RIGHT_EDGE, y, { align: "right" });
+
+  y += description.length * 5 + 5;
+  doc.line(120, y, RIGHT_EDGE, y);
+  y += 6;
+  drawRow(doc, y, "Taxable value", formatInvoiceAmount(invoice.taxable_amount));
+  // Interstate supplies are charged IGST, supplies within a state CGST + SGST
+  const taxRows: [string, number][] =
+    Number(invoice.igst_rate) > 0
+      ? [[`IGST @ ${Number(invoice.igst_rate)}%`, invoice.igst_amount]]
+      : [
+          [`CGST @ ${Number(invoice.cgst_rate)}%`, invoice.cgst_amount],
+          [`SGST @ ${Number(invoice.sgst_rate)}%`, invoice.sgst_amount],
+        ];
+  taxRows.forEach(([label, amount]) => {
+    y += 6;
+    drawRow(doc, y, label, formatInvoiceAmount(amount));
+  });
+  drawRow(doc, y + 8, "Total", formatInvoiceAmount(invoice.total_amount), true);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  doc.text("This is a computer generated invoice and does not need a signature.", PAGE_MARGIN, 280);
+
+  doc.save(`invoice-${fileSafe(invoice.invoice_number)}.pdf`);
+};
+
+/**
+ * Payment receipt for an invoice, listing the captured payments
+ */
+export const downloadReceiptPdf = (invoice: Invoice, payments: Tables<"payments">[]) => {
+  const captures = payments.filter((entry) => entry.entry_type === "capture" && entry.status === "succeeded");
+  const received = captures.reduce((total, entry) => total + Number(entry.amount), 0);
+
+  const doc = new jsPDF();
+  drawHeader(doc, "Payment Receipt", [
+    `Against Invoice: ${invoice.invoice_number}`,
+    `Date: ${format(new Date(), "dd MMM yyyy")}`,
+  ]);
+
+  drawParty(doc, "Received From", [invoice.recipient_name, invoice.recipient_email], PAGE_MARGIN, 50);
+  drawParty(doc, "On Behalf Of", [invoice.supplier_name], 110, 50);
+
+  let y = 80;
+  doc.setFont("helvetica", "bold");
+  doc.text("Date", PAGE_MARGIN, y);
+  doc.text("Reference", 70, y);
+  doc.text("Amount", RIGHT_EDGE, y, { align: "right" });
+  doc.line(PAGE_MARGIN, y + 2, RIGHT_EDGE, y + 2);
+
+  doc.setFont("helvetica", "normal");
+  captures.forEach((entry) => {
+    y += 7;
+    doc.text(format(new Date(entry.created_at), "dd MMM yyyy"), PAGE_MARGIN, y);
+    doc.text(entry.provider_reference || "-", 70, y);
+    doc.text(formatInvoiceAmount(entry.amount), RIGHT_EDGE, y, { align: "right" });
+  });
+
+  y += 10;
+  doc.line(120, y - 4, RIGHT_EDGE, y - 4);
+  drawRow(doc, y, "Invoice total", formatInvoiceAmount(invoice.total_amount));
+  drawRow(doc, y + 6, "Amount received", formatInvoiceAmount(received), true);
+
+  doc.save(`receipt-${fileSafe(invoice.invoice_number)}.pdf`);
+};
+
+/**
+ * Monthly statement of a worker's invoiced earnings
+ */
+export const downloadEarningsStatementPdf = (workerName: string, month: Date, invoices: Invoice[]) => {
+  const sum = (pick: (invoice: Invoice) => number) => invoices.reduce((total, invoice) => total + pick(invoice), 0);
+
+  const doc = new jsPDF();
+  drawHeader(doc, "Earnings Statement", [format(month, "MMMM yyyy"), workerName]);
+
+  let y = 50;
+  doc.setFont("helvetica", "bold");
+  doc.text("Date", PAGE_MARGIN, y);
+  doc.text("Invoice", 50, y);
+  doc.text("Client", 95, y);
+  doc.text("GST", 160, y, { align: "right" });
+  doc.text("Total", RIGHT_EDGE, y, { align: "right" });
+  doc.line(PAGE_MARGIN, y + 2, RIGHT_EDGE, y + 2);
+
+  doc.setFont("helvetica", "normal");
+  invoices.forEach((invoice) => {
+    y += 7;
+    if (y > 260) {
+      doc.addPage();
+      y = 25;
+    }
+    doc.text(format(new Date(invoice.issued_at), "dd MMM"), PAGE_MARGIN, y);
+    doc.text(invoice.invoice_number, 50, y);
+    doc.text(doc.splitTextToSize(invoice.recipient_name, 45)[0], 95, y);
+    doc.text(formatInvoiceAmount(getInvoiceGstAmount(invoice)), 160, y, { align: "right" });
+    doc.text(formatInvoiceAmount(invoice.total_amount), RIGHT_EDGE, y, { align: "right" });
+  });
+
+  y += 10;
+  doc.line(120, y - 4, RIGHT_EDGE, y - 4);
+  drawRow(doc, y, "Jobs", String(invoices.length));
+  drawRow(doc, y + 6, "Taxable value", formatInvoiceAmount(sum((invoice) => Number(invoice.taxable_amount))));
+  drawRow(
+    doc,
+    y + 12,
+    "GST collected",
+    formatInvoiceAmount(sum(getInvoiceGstAmount))
+  );
+  drawRow(doc, y + 20, "Total earnings", formatInvoiceAmount(sum((invoice) => Number(invoice.total_amount))), true);
+
+  doc.save(`earnings-${format(month, "yyyy-MM")}.pdf`);
+};
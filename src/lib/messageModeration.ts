@@ -0,0 +1,23 @@
+export type MessageReportReason = "harassment" | "spam" | "other";
+export type MessageModerationAction = "remove" | "dismiss";
+
+// Matches direct_message_edit_window() in the database
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+export const MESSAGE_REPORT_REASON_LABELS: Record<MessageReportReason, string> = {
+  harassment: "Harassment",
+  spam: "Spam or scam",
+  other: "Other",
+};
+
+export const getMessageReportReasonLabel = (reason: string) => {
+  return MESSAGE_REPORT_REASON_LABELS[reason as MessageReportReason] || reason;
+};
+
+/**
+ * Whether the sender can still edit a message; the database has the final say
+ */
+export const canEditMessage = (message: { created_at: string; deleted_at: string | null }) => {
+  if (message.deleted_at) return false;
+  return Date.now() - Date.parse(message.created_at) < MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+};
@@ -0,0 +1,47 @@
+import { supabase } from "@/integrations/supabase/client";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+interface EscrowBooking {
+  id: string;
+}
+
+export interface EscrowResult {
+  ok: boolean;
+  failureReason?: string;
+}
+
+type EscrowStep = "hold" | "release" | "settle";
+
+// Provider calls and ledger writes happen in the booking-escrow edge
+// function; the browser only asks for the next step
+const runEscrowStep = async (booking: EscrowBooking, step: EscrowStep): Promise<EscrowResult> => {
+  const { data, error } = await supabase.functions.invoke<EscrowResult>("booking-escrow", {
+    body: { bookingId: booking.id, step },
+  });
+
+  if (error) {
+    // Pass the ledger's error code through for getErrorMessage
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      if (body) throw { message: body.error, code: body.code };
+    }
+    throw error;
+  }
+  return data as EscrowResult;
+};
+
+/**
+ * Holds the agreed rate on the hirer's payment method once the booking is confirmed
+ */
+export const holdBookingFunds = (booking: EscrowBooking) => runEscrowStep(booking, "hold");
+
+/**
+ * Captures the held funds and pays them out to the worker on completion
+ */
+export const releaseBookingFunds = (booking: EscrowBooking) => runEscrowStep(booking, "release");
+
+/**
+ * Settles a cancelled booking: the cancellation fee is captured and paid to
+ * the worker, everything else still held goes back to the hirer
+ */
+export const settleCancelledBooking = (booking: EscrowBooking) => runEscrowStep(booking, "settle");
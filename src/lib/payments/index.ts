@@ -0,0 +1,3 @@
+export * from "./types";
+export * from "./escrow";
+export * from "./status";
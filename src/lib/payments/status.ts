@@ -0,0 +1,21 @@
+export type PaymentStatus = "pending" | "authorized" | "paid" | "refunded" | "failed";
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: "Awaiting Payment",
+  authorized: "Funds Held",
+  paid: "Paid to Worker",
+  refunded: "Refunded",
+  failed: "Payment Failed",
+};
+
+export const PAYMENT_ENTRY_LABELS: Record<string, string> = {
+  authorization: "Funds held",
+  capture: "Funds captured",
+  refund: "Refund",
+  payout: "Paid out to worker",
+  penalty: "Worker penalty",
+};
+
+export const getPaymentStatusLabel = (status: string | null) => {
+  return PAYMENT_STATUS_LABELS[(status || "pending") as PaymentStatus] || status;
+};
@@ -0,0 +1 @@
+export type PaymentEntryType = "authorization" | "capture" | "refund" | "payout";
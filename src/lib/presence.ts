@@ -0,0 +1,19 @@
+// How often a connected client refreshes its last seen time
+export const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+// A participant stops "typing" after this long without a keystroke
+export const TYPING_TIMEOUT_MS = 3000;
+
+/**
+ * Private channel a user announces themselves in while signed in. Only they
+ * can track in it; who may listen is decided by public.can_use_presence_topic.
+ */
+export const onlineChannelName = (userId: string) => `online-${userId}`;
+
+/**
+ * Both participants derive the same presence channel for a conversation
+ */
+export const directConversationKey = (userId: string, otherUserId: string) =>
+  `dm-${[userId, otherUserId].sort().join("-")}`;
+
+export const bookingConversationKey = (bookingId: string) => `booking-${bookingId}`;
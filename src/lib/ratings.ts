@@ -0,0 +1,27 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export const RATING_STARS = [5, 4, 3, 2, 1] as const;
+
+interface RatedWorker {
+  rating: number | null;
+  rating_count?: number | null;
+}
+
+/**
+ * Average shown next to the star, or "New" for workers and hirers without reviews
+ */
+export const formatRating = (worker: RatedWorker) => {
+  if (!worker.rating_count || !worker.rating) return "New";
+  return Number(worker.rating).toFixed(1);
+};
+
+/**
+ * worker_profiles.rating_distribution as review counts keyed by star
+ */
+export const parseRatingDistribution = (distribution: Json | null | undefined): Record<number, number> => {
+  const counts = (distribution && typeof distribution === "object" && !Array.isArray(distribution) ? distribution : {}) as Record<
+    string,
+    Json
+  >;
+  return Object.fromEntries(RATING_STARS.map((star) => [star, Number(counts[star]) || 0]));
+};
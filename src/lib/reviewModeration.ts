@@ -0,0 +1,32 @@
+export type ReportReason = "abusive" | "spam" | "false_information" | "conflict_of_interest" | "other";
+export type ReportStatus = "open" | "resolved" | "dismissed";
+export type ModerationAction = "hide" | "restore" | "delete" | "dismiss";
+
+export const REPORT_REASON_LABELS: Record<ReportReason, string> = {
+  abusive: "Abusive or offensive",
+  spam: "Spam or advertising",
+  false_information: "False information",
+  conflict_of_interest: "Conflict of interest",
+  other: "Other",
+};
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  open: "Open",
+  resolved: "Resolved",
+  dismissed: "Dismissed",
+};
+
+export const MODERATION_ACTION_LABELS: Record<ModerationAction, string> = {
+  hide: "Hidden",
+  restore: "Restored",
+  delete: "Deleted",
+  dismiss: "Reports dismissed",
+};
+
+export const getReportReasonLabel = (reason: string) => {
+  return REPORT_REASON_LABELS[reason as ReportReason] || reason;
+};
+
+export const getModerationActionLabel = (action: string) => {
+  return MODERATION_ACTION_LABELS[action as ModerationAction] || action;
+};
@@ -0,0 +1,87 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+export type ReviewCriterion = Tables<"review_criteria">;
+export type ReviewPhotoKind = "before" | "after";
+
+export interface ReviewPhoto {
+  path: string;
+  kind: ReviewPhotoKind;
+}
+
+export const REVIEW_PHOTOS_BUCKET = "review-photos";
+export const MAX_REVIEW_PHOTOS = 6;
+
+export const REVIEW_PHOTO_KIND_LABELS: Record<ReviewPhotoKind, string> = {
+  before: "Before",
+  after: "After",
+};
+
+/**
+ * Criteria that apply to a category: the shared ones plus its own, in display order
+ */
+export const getReviewCriteria = async (categoryId?: string | null) => {
+  let query = supabase.from("review_criteria").select("*").order("sort_order").order("label");
+  query = categoryId ? query.or(`category_id.is.null,category_id.eq.${categoryId}`) : query.is("category_id", null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * reviews.criteria_ratings / worker_profiles.rating_criteria as numbers keyed by criterion
+ */
+export const parseCriteriaRatings = (ratings: Json | null | undefined): Record<string, number> => {
+  if (!ratings || typeof ratings !== "object" || Array.isArray(ratings)) return {};
+  return Object.fromEntries(
+    Object.entries(ratings)
+      .map(([key, value]) => [key, Number(value)] as const)
+      .filter(([, value]) => value > 0)
+  );
+};
+
+export const parseReviewPhotos = (photos: Json | null | undefined): ReviewPhoto[] => {
+  if (!Array.isArray(photos)) return [];
+  return photos.filter(
+    (photo): photo is { path: string; kind: ReviewPhotoKind } =>
+      !!photo &&
+      typeof photo === "object" &&
+      !Array.isArray(photo) &&
+      typeof photo.path === "string" &&
+      (photo.kind === "before" || photo.kind === "after")
+  );
+};
+
+/**
+ * Uploads a photo into the reviewer's folder; the review row references it by path
+ */
+export const uploadReviewPhoto = async (userId: string, bookingId: string, file: File, kind: ReviewPhotoKind) => {
+  const fileExt = file.name.split(".").pop();
+  const path = `${userId}/${bookingId}/${kind}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${fileExt}`;
+
+  const { error } = await supabase.storage.from(REVIEW_PHOTOS_BUCKET).upload(path, file, { contentType: file.type });
+  if (error) throw error;
+
+  return { path, kind } as ReviewPhoto;
+};
+
+export const removeReviewPhotos = async (paths: string[]) => {
+  if (paths.length === 0) return;
+  await supabase.storage.from(REVIEW_PHOTOS_BUCKET).remove(paths);
+};
+
+/**
+ * The bucket is private and photos are only readable once their review is
+ * published, so they are shown through signed URLs keyed by path
+ */
+export const getReviewPhotoUrls = async (paths: string[]) => {
+  if (paths.length === 0) return {} as Record<string, string>;
+
+  const { data, error } = await supabase.storage.from(REVIEW_PHOTOS_BUCKET).createSignedUrls(paths, 60 * 60);
+  if (error) throw error;
+
+  return Object.fromEntries(
+    data.filter((entry) => entry.signedUrl && entry.path).map((entry) => [entry.path as string, entry.signedUrl])
+  );
+};
@@ -0,0 +1,53 @@
+import { addHours, addMinutes, format, parseISO, startOfDay } from "date-fns";
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+// Hours shown in the booking grid
+export const SLOT_DAY_START_HOUR = 6;
+export const SLOT_DAY_END_HOUR = 22;
+
+/**
+ * Mirrors bookings.time_slot: without a start time and duration the booking
+ * takes the whole day
+ */
+export const getBookingSlot = (date: Date, startTime?: string, durationHours?: number): TimeSlot => {
+  const day = startOfDay(date);
+  if (!startTime || !durationHours) {
+    return { start: day, end: addHours(day, 24) };
+  }
+
+  const [hours, minutes] = startTime.split(":").map(Number);
+  const start = addMinutes(day, hours * 60 + minutes);
+  return { start, end: addMinutes(start, Math.round(durationHours * 60)) };
+};
+
+export const slotsOverlap = (a: TimeSlot, b: TimeSlot) => a.start < b.end && b.start < a.end;
+
+/**
+ * Whether a slot lies entirely inside one of the open windows
+ */
+export const slotFitsWindows = (slot: TimeSlot, windows: TimeSlot[]) =>
+  windows.some((window) => window.start <= slot.start && slot.end <= window.end);
+
+/**
+ * Converts get_worker_busy_slots / get_worker_open_windows rows
+ */
+export const parseSlotRows = (rows: { starts_at: string; ends_at: string }[]): TimeSlot[] =>
+  rows.map((row) => ({ start: parseISO(row.starts_at), end: parseISO(row.ends_at) }));
+
+/**
+ * One-hour slots across the working day for the grid
+ */
+export const getDaySlots = (date: Date): TimeSlot[] => {
+  const day = startOfDay(date);
+  const slots: TimeSlot[] = [];
+  for (let hour = SLOT_DAY_START_HOUR; hour < SLOT_DAY_END_HOUR; hour++) {
+    slots.push({ start: addHours(day, hour), end: addHours(day, hour + 1) });
+  }
+  return slots;
+};
+
+export const formatSlotTime = (date: Date) => format(date, "HH:mm");
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { GSTIN_PATTERN } from '@/lib/gst';
 
 // Auth validation schemas
 export const signUpSchema = z.object({
@@ -58,6 +59,23 @@ export const workerApplicationSchema = z.object({
     .or(z.literal('')),
 });
 
+// Worker document upload validation schema
+export const workerDocumentSchema = z.object({
+  documentType: z.enum(['id_proof', 'trade_certificate', 'license', 'portfolio_photo'], {
+    message: "Please select a document type",
+  }),
+  file: z.instanceof(File, { message: "Please choose a file" })
+    .refine((file) => file.size <= 10 * 1024 * 1024, { message: "File size must be less than 10MB" })
+    .refine((file) => ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'].includes(file.type), {
+      message: "Only JPG, PNG, WEBP or PDF files are allowed",
+    }),
+  expiresOn: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Invalid expiry date" })
+    .refine((val) => val >= new Date().toISOString().slice(0, 10), { message: "Document has already expired" })
+    .optional()
+    .or(z.literal('')),
+});
+
 // Booking validation schema
 export const bookingSchema = z.object({
   bookingDate: z.date({ required_error: "Please select a date" }),
@@ -76,7 +94,44 @@ export const bookingSchema = z.object({
     .max(2000, { message: "Work description must be less than 2000 characters" }),
 });
 
+export const bookingOfferSchema = z.object({
+  rate: z.number({ invalid_type_error: "Rate must be a number" })
+    .positive({ message: "Rate must be greater than 0" })
+    .max(10000000, { message: "Rate is too high" }),
+  bookingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: "Please select a date" }),
+  startTime: z.string()
+    .regex(/^([01]\d|2[0-3]):([0-5]\d)(:[0-5]\d)?$/, { message: "Invalid time format (HH:MM)" })
+    .optional()
+    .or(z.literal('')),
+  durationHours: z.number({ invalid_type_error: "Duration must be a number" })
+    .min(0.5, { message: "Duration must be at least 0.5 hours" })
+    .max(24, { message: "Duration cannot exceed 24 hours" })
+    .optional()
+    .or(z.literal(0)),
+  message: z.string()
+    .trim()
+    .max(500, { message: "Message must be less than 500 characters" })
+    .optional(),
+});
+
+// GST details printed on invoices; the GSTIN is optional for unregistered users
+export const billingDetailsSchema = z.object({
+  stateCode: z.string().regex(/^\d{2}$/, { message: "Please select your state" }).optional().or(z.literal('')),
+  gstin: z.string()
+    .trim()
+    .toUpperCase()
+    .regex(GSTIN_PATTERN, { message: "Invalid GSTIN" })
+    .optional()
+    .or(z.literal('')),
+}).refine((val) => !val.gstin || val.gstin.slice(0, 2) === val.stateCode, {
+  message: "The GSTIN is registered in a different state",
+  path: ['gstin'],
+});
+
 export type SignUpFormData = z.infer<typeof signUpSchema>;
 export type LoginFormData = z.infer<typeof loginSchema>;
 export type WorkerApplicationFormData = z.infer<typeof workerApplicationSchema>;
 export type BookingFormData = z.infer<typeof bookingSchema>;
+export type BookingOfferFormData = z.infer<typeof bookingOfferSchema>;
+export type WorkerDocumentFormData = z.infer<typeof workerDocumentSchema>;
+export type BillingDetailsFormData = z.infer<typeof billingDetailsSchema>;
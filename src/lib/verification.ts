@@ -0,0 +1,25 @@
+export type VerificationStatus = "pending" | "verified" | "rejected" | "needs_info";
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  pending: "Pending Review",
+  verified: "Verified",
+  rejected: "Rejected",
+  needs_info: "More Info Needed",
+};
+
+export const getVerificationBadgeVariant = (status: string) => {
+  switch (status) {
+    case "verified":
+      return "default";
+    case "rejected":
+      return "destructive";
+    case "needs_info":
+      return "outline";
+    default:
+      return "secondary";
+  }
+};
+
+export const getVerificationLabel = (status: string) => {
+  return VERIFICATION_STATUS_LABELS[status as VerificationStatus] || status;
+};
@@ -0,0 +1,111 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type WorkerDocumentType = "id_proof" | "trade_certificate" | "license" | "portfolio_photo";
+export type DocumentStatus = "pending" | "verified" | "rejected";
+
+export interface PendingDocument {
+  documentType: WorkerDocumentType;
+  file: File;
+  expiresOn: string;
+}
+
+export const WORKER_DOCUMENTS_BUCKET = "worker-documents";
+
+export const DOCUMENT_TYPE_LABELS: Record<WorkerDocumentType, string> = {
+  id_proof: "ID Proof",
+  trade_certificate: "Trade Certificate",
+  license: "License",
+  portfolio_photo: "Portfolio Photo",
+};
+
+export const DOCUMENT_STATUS_LABELS: Record<DocumentStatus, string> = {
+  pending: "Pending Review",
+  verified: "Verified",
+  rejected: "Rejected",
+};
+
+/**
+ * Categories our clients will only hire with proof of licensing on file
+ */
+export const LICENSE_REQUIRED_CATEGORIES = ["Electrician", "Mason"];
+
+export const requiresLicense = (categoryName?: string | null) =>
+  !!categoryName && LICENSE_REQUIRED_CATEGORIES.includes(categoryName);
+
+/**
+ * Either a license or a trade certificate satisfies the licensing requirement
+ */
+export const hasLicenseProof = (documentTypes: string[]) =>
+  documentTypes.some((type) => type === "license" || type === "trade_certificate");
+
+export const getDocumentTypeLabel = (type: string) => {
+  return DOCUMENT_TYPE_LABELS[type as WorkerDocumentType] || type;
+};
+
+export const getDocumentStatusLabel = (status: string) => {
+  return DOCUMENT_STATUS_LABELS[status as DocumentStatus] || status;
+};
+
+export const isDocumentExpired = (expiresOn: string | null) =>
+  !!expiresOn && expiresOn < new Date().toISOString().slice(0, 10);
+
+/**
+ * Uploads a file into the owner's folder of the private bucket and records it
+ * for review
+ */
+export const uploadWorkerDocument = async ({
+  userId,
+  workerId,
+  documentType,
+  file,
+  expiresOn,
+}: {
+  userId: string;
+  workerId: string;
+  documentType: WorkerDocumentType;
+  file: File;
+  expiresOn?: string | null;
+}) => {
+  const fileExt = file.name.split(".").pop();
+  const filePath = `${userId}/${documentType}-${Date.now()}.${fileExt}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(WORKER_DOCUMENTS_BUCKET)
+    .upload(filePath, file, { contentType: file.type });
+
+  if (uploadError) throw uploadError;
+
+  const { error } = await supabase.from("worker_documents").insert({
+    worker_id: workerId,
+    document_type: documentType,
+    file_path: filePath,
+    file_name: file.name,
+    file_type: file.type,
+    expires_on: expiresOn || null,
+  });
+
+  if (error) {
+    // Don't leave an orphaned file behind if the metadata insert failed
+    await supabase.storage.from(WORKER_DOCUMENTS_BUCKET).remove([filePath]);
+    throw error;
+  }
+};
+
+export const deleteWorkerDocument = async (id: string, filePath: string) => {
+  const { error } = await supabase.from("worker_documents").delete().eq("id", id);
+  if (error) throw error;
+
+  await supabase.storage.from(WORKER_DOCUMENTS_BUCKET).remove([filePath]);
+};
+
+/**
+ * The bucket is private, so documents are viewed through short-lived signed URLs
+ */
+export const getDocumentUrl = async (filePath: string) => {
+  const { data, error } = await supabase.storage
+    .from(WORKER_DOCUMENTS_BUCKET)
+    .createSignedUrl(filePath, 60 * 5);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
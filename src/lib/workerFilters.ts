@@ -0,0 +1,124 @@
+import { GeoPoint } from "@/lib/geo";
+
+/**
+ * Worker browsing filters. They live in the URL query string so hirers can
+ * share and bookmark searches.
+ */
+export interface WorkerFilters {
+  query: string;
+  category: string;
+  center: GeoPoint | null;
+  radiusKm: number;
+  minHourlyRate: number | null;
+  maxHourlyRate: number | null;
+  minDailyRate: number | null;
+  maxDailyRate: number | null;
+  minExperience: number | null;
+  minRating: number | null;
+  verifiedOnly: boolean;
+  availableOn: string | null;
+}
+
+export const DEFAULT_RADIUS_KM = 25;
+
+const NUMERIC_PARAMS = {
+  minHourlyRate: "min_hourly",
+  maxHourlyRate: "max_hourly",
+  minDailyRate: "min_daily",
+  maxDailyRate: "max_daily",
+  minExperience: "min_exp",
+  minRating: "min_rating",
+} as const;
+
+// Passed to INTEGER arguments of search_workers, which reject fractions
+const INTEGER_PARAMS = new Set<string>(["minExperience"]);
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const parseInteger = (value: string | null) => {
+  if (value === null) return null;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const parseWorkerFilters = (params: URLSearchParams): WorkerFilters => {
+  const lat = parseNumber(params.get("lat"));
+  const lng = parseNumber(params.get("lng"));
+  const availableOn = params.get("available_on");
+
+  const filters: WorkerFilters = {
+    query: params.get("q") || "",
+    category: params.get("category") || "all",
+    center: lat !== null && lng !== null ? { lat, lng } : null,
+    radiusKm: parseNumber(params.get("radius")) ?? DEFAULT_RADIUS_KM,
+    minHourlyRate: null,
+    maxHourlyRate: null,
+    minDailyRate: null,
+    maxDailyRate: null,
+    minExperience: null,
+    minRating: null,
+    verifiedOnly: params.get("verified") === "1",
+    availableOn: availableOn && /^\d{4}-\d{2}-\d{2}$/.test(availableOn) ? availableOn : null,
+  };
+
+  for (const [key, param] of Object.entries(NUMERIC_PARAMS)) {
+    const parse = INTEGER_PARAMS.has(key) ? parseInteger : parseNumber;
+    filters[key as keyof typeof NUMERIC_PARAMS] = parse(params.get(param));
+  }
+
+  return filters;
+};
+
+export const toSearchParams = (filters: WorkerFilters) => {
+  const params = new URLSearchParams();
+
+  if (filters.query) params.set("q", filters.query);
+  if (filters.category !== "all") params.set("category", filters.category);
+  if (filters.center) {
+    params.set("lat", String(filters.center.lat));
+    params.set("lng", String(filters.center.lng));
+    params.set("radius", String(filters.radiusKm));
+  }
+  for (const [key, param] of Object.entries(NUMERIC_PARAMS)) {
+    const value = filters[key as keyof typeof NUMERIC_PARAMS];
+    if (value !== null) params.set(param, String(value));
+  }
+  if (filters.verifiedOnly) params.set("verified", "1");
+  if (filters.availableOn) params.set("available_on", filters.availableOn);
+
+  return params;
+};
+
+/**
+ * Number of filters set in the advanced panel (excludes text, category and location)
+ */
+export const countAdvancedFilters = (filters: WorkerFilters) => {
+  return (
+    Object.keys(NUMERIC_PARAMS).filter((key) => filters[key as keyof typeof NUMERIC_PARAMS] !== null).length +
+    (filters.verifiedOnly ? 1 : 0) +
+    (filters.availableOn ? 1 : 0)
+  );
+};
+
+/**
+ * Maps filters onto the search_workers RPC arguments
+ */
+export const toSearchWorkersArgs = (filters: WorkerFilters) => ({
+  _query: filters.query || undefined,
+  _category_id: filters.category !== "all" ? filters.category : undefined,
+  _lat: filters.center?.lat,
+  _lng: filters.center?.lng,
+  _radius_km: filters.center ? filters.radiusKm : undefined,
+  _min_hourly_rate: filters.minHourlyRate ?? undefined,
+  _max_hourly_rate: filters.maxHourlyRate ?? undefined,
+  _min_daily_rate: filters.minDailyRate ?? undefined,
+  _max_daily_rate: filters.maxDailyRate ?? undefined,
+  _min_experience: filters.minExperience ?? undefined,
+  _min_rating: filters.minRating ?? undefined,
+  _verification_status: filters.verifiedOnly ? "verified" : undefined,
+  _available_on: filters.availableOn ?? undefined,
+});
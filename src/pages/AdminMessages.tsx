@@ -0,0 +1,357 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { User } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, CheckCircle, Loader2, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { useIsAdmin } from "@/hooks/useIsAdmin";
+import { ChatAttachment } from "@/components/ChatAttachment";
+import { REPORT_STATUS_LABELS, ReportStatus } from "@/lib/reviewModeration";
+import { MessageModerationAction, getMessageReportReasonLabel } from "@/lib/messageModeration";
+
+type QueueFilter = "open" | "closed";
+
+type MessageReport = Tables<"direct_message_reports">;
+
+// What the message looked like when it was first reported
+interface MessageSnapshot {
+  sender_id?: string;
+  receiver_id?: string;
+  content?: string;
+  file_path?: string | null;
+  file_type?: string | null;
+  created_at?: string;
+  edited_at?: string | null;
+}
+
+interface ReportedMessage {
+  messageId: string;
+  snapshot: MessageSnapshot;
+  reports: MessageReport[];
+}
+
+const FILTER_LABELS: Record<QueueFilter, string> = {
+  open: "Open",
+  closed: "Closed",
+};
+
+const ACTION_COPY: Record<MessageModerationAction, { title: string; action: string; notesRequired: boolean }> = {
+  remove: { title: "Remove message", action: "Remove", notesRequired: true },
+  dismiss: { title: "Dismiss reports", action: "Dismiss", notesRequired: false },
+};
+
+const AdminMessages = () => {
+  const navigate = useNavigate();
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const { isAdmin, loading: roleLoading } = useIsAdmin(currentUser?.id ?? null);
+  const [filter, setFilter] = useState<QueueFilter>("open");
+  const [messages, setMessages] = useState<ReportedMessage[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [revisions, setRevisions] = useState<Tables<"direct_message_revisions">[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [moderating, setModerating] = useState<{ message: ReportedMessage; action: MessageModerationAction } | null>(
+    null
+  );
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  useEffect(() => {
+    if (roleLoading) return;
+    if (!isAdmin) {
+      toast.error("Only admins can access message moderation");
+      navigate("/dashboard");
+      return;
+    }
+    loadReports();
+  }, [isAdmin, roleLoading, filter]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+    setCurrentUser(session.user);
+  };
+
+  const loadReports = async () => {
+    setLoading(true);
+    const query = supabase.from("direct_message_reports").select("*").order("created_at", { ascending: true });
+    const { data, error } = filter === "open" ? await query.eq("status", "open") : await query.neq("status", "open");
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load moderation queue"));
+      setLoading(false);
+      return;
+    }
+
+    // One entry per message, evidence taken from its earliest report
+    const grouped = new Map<string, ReportedMessage>();
+    (data || []).forEach((report) => {
+      const entry = grouped.get(report.message_id);
+      if (entry) {
+        entry.reports.push(report);
+      } else {
+        grouped.set(report.message_id, {
+          messageId: report.message_id,
+          snapshot: (report.message_snapshot || {}) as MessageSnapshot,
+          reports: [report],
+        });
+      }
+    });
+    const queue = [...grouped.values()];
+    setMessages(queue);
+
+    if (queue.length > 0) {
+      const profileIds = [
+        ...new Set(
+          queue.flatMap((message) => [
+            message.snapshot.sender_id,
+            message.snapshot.receiver_id,
+            ...message.reports.map((report) => report.reporter_id),
+          ])
+        ),
+      ].filter((id): id is string => !!id);
+
+      const [{ data: profilesData }, { data: revisionsData }] = await Promise.all([
+        supabase.from("profiles").select("id, full_name").in("id", profileIds),
+        supabase
+          .from("direct_message_revisions")
+          .select("*")
+          .in("message_id", queue.map((message) => message.messageId))
+          .order("created_at"),
+      ]);
+
+      setNames(Object.fromEntries((profilesData || []).map((profile) => [profile.id, profile.full_name])));
+      setRevisions(revisionsData || []);
+    }
+    setLoading(false);
+  };
+
+  const openModeration = (message: ReportedMessage, action: MessageModerationAction) => {
+    setNotes("");
+    setModerating({ message, action });
+  };
+
+  const handleModerate = async () => {
+    if (!moderating) return;
+
+    const trimmedNotes = notes.trim();
+    if (ACTION_COPY[moderating.action].notesRequired && !trimmedNotes) {
+      toast.error("Please record a reason");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("moderate_direct_message", {
+      _message_id: moderating.message.messageId,
+      _action: moderating.action,
+      _notes: trimmedNotes || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to moderate message"));
+      return;
+    }
+
+    toast.success(moderating.action === "remove" ? "Message removed" : "Reports dismissed");
+    setModerating(null);
+    loadReports();
+  };
+
+  const getName = (id?: string) => (id && names[id]) || "Unknown user";
+
+  if (roleLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <header className="bg-card border-b shadow-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Message Reports</h1>
+            <p className="text-muted-foreground">Review direct messages reported for harassment or spam</p>
+          </div>
+          <Select value={filter} onValueChange={(value) => setFilter(value as QueueFilter)}>
+            <SelectTrigger className="w-full md:w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FILTER_LABELS) as QueueFilter[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {FILTER_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : messages.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground">No reported messages in this queue</p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {messages.map((message) => {
+              const messageRevisions = revisions.filter((revision) => revision.message_id === message.messageId);
+              return (
+                <Card key={message.messageId} className="p-6">
+                  <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                    <div className="flex-1 space-y-3">
+                      <h3 className="font-semibold text-lg">
+                        {getName(message.snapshot.sender_id)} → {getName(message.snapshot.receiver_id)}
+                      </h3>
+
+                      <div className="rounded-md bg-muted p-3 text-sm">
+                        {message.snapshot.file_path && (
+                          <ChatAttachment path={message.snapshot.file_path} fileType={message.snapshot.file_type ?? null} />
+                        )}
+                        <p className="whitespace-pre-wrap">{message.snapshot.content}</p>
+                        {message.snapshot.created_at && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Sent {format(new Date(message.snapshot.created_at), "MMM d, yyyy h:mm a")}
+                            {message.snapshot.edited_at && " • edited"}
+                          </p>
+                        )}
+                      </div>
+
+                      {messageRevisions.length > 0 && (
+                        <div className="space-y-1">
+                          <p className="text-sm font-medium">Earlier versions</p>
+                          {messageRevisions.map((revision) => (
+                            <p key={revision.id} className="text-xs text-muted-foreground">
+                              {format(new Date(revision.created_at), "MMM d, yyyy h:mm a")} • {revision.content || "(attachment only)"}
+                            </p>
+                          ))}
+                        </div>
+                      )}
+
+                      <div className="space-y-2">
+                        <p className="text-sm font-medium">Reports</p>
+                        {message.reports.map((report) => (
+                          <div key={report.id} className="rounded-md border p-3 text-sm">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="font-medium">{getMessageReportReasonLabel(report.reason)}</span>
+                              <Badge variant={report.status === "open" ? "secondary" : "outline"}>
+                                {REPORT_STATUS_LABELS[report.status as ReportStatus] || report.status}
+                              </Badge>
+                            </div>
+                            {report.details && <p className="text-muted-foreground mt-1">{report.details}</p>}
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {getName(report.reporter_id)} • {format(new Date(report.created_at), "MMM d, yyyy h:mm a")}
+                            </p>
+                            {report.resolution_notes && (
+                              <p className="text-xs text-muted-foreground mt-1">Resolution: {report.resolution_notes}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    {filter === "open" && (
+                      <div className="flex flex-col gap-2 md:w-48">
+                        <Button size="sm" variant="outline" onClick={() => openModeration(message, "dismiss")}>
+                          <CheckCircle className="mr-2 h-4 w-4" />
+                          Dismiss Reports
+                        </Button>
+                        <Button size="sm" variant="destructive" onClick={() => openModeration(message, "remove")}>
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Remove Message
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      <Dialog open={!!moderating} onOpenChange={(open) => !open && setModerating(null)}>
+        <DialogContent>
+          {moderating && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{ACTION_COPY[moderating.action].title}</DialogTitle>
+                <DialogDescription>
+                  {moderating.action === "remove"
+                    ? "The message is deleted for both participants. The reported copy is kept as evidence."
+                    : "The message is left as it is and the reports are closed."}
+                </DialogDescription>
+              </DialogHeader>
+              <div>
+                <Label htmlFor="moderationNotes">
+                  {ACTION_COPY[moderating.action].notesRequired ? "Reason *" : "Notes (optional)"}
+                </Label>
+                <Textarea
+                  id="moderationNotes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={4}
+                  maxLength={1000}
+                  className="mt-2"
+                />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setModerating(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  variant={moderating.action === "remove" ? "destructive" : "default"}
+                  onClick={handleModerate}
+                  disabled={saving}
+                >
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {ACTION_COPY[moderating.action].action}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminMessages;
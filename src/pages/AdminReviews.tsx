@@ -0,0 +1,349 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { User } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, CheckCircle, EyeOff, Loader2, RotateCcw, Star, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { useIsAdmin } from "@/hooks/useIsAdmin";
+import {
+  ModerationAction,
+  REPORT_STATUS_LABELS,
+  ReportStatus,
+  getModerationActionLabel,
+  getReportReasonLabel,
+} from "@/lib/reviewModeration";
+
+type QueueFilter = "reported" | "hidden";
+
+type QueueReview = Tables<"reviews"> & {
+  reports: Tables<"review_reports">[];
+};
+
+const FILTER_LABELS: Record<QueueFilter, string> = {
+  reported: "Reported",
+  hidden: "Hidden",
+};
+
+const ACTION_COPY: Record<ModerationAction, { title: string; action: string; notesRequired: boolean }> = {
+  hide: { title: "Hide review", action: "Hide", notesRequired: true },
+  restore: { title: "Restore review", action: "Restore", notesRequired: false },
+  delete: { title: "Delete review", action: "Delete", notesRequired: true },
+  dismiss: { title: "Dismiss reports", action: "Dismiss", notesRequired: false },
+};
+
+const AdminReviews = () => {
+  const navigate = useNavigate();
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const { isAdmin, loading: roleLoading } = useIsAdmin(currentUser?.id ?? null);
+  const [filter, setFilter] = useState<QueueFilter>("reported");
+  const [reviews, setReviews] = useState<QueueReview[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [workerNames, setWorkerNames] = useState<Record<string, string>>({});
+  const [log, setLog] = useState<Tables<"review_moderation_log">[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [moderating, setModerating] = useState<{ review: QueueReview; action: ModerationAction } | null>(null);
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  useEffect(() => {
+    if (roleLoading) return;
+    if (!isAdmin) {
+      toast.error("Only admins can access review moderation");
+      navigate("/dashboard");
+      return;
+    }
+    loadReviews();
+  }, [isAdmin, roleLoading, filter]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+    setCurrentUser(session.user);
+  };
+
+  const loadReviews = async () => {
+    setLoading(true);
+    const { data, error } =
+      filter === "reported"
+        ? await supabase
+            .from("reviews")
+            .select("*, reports:review_reports!inner(*)")
+            .eq("reports.status", "open")
+            .order("created_at", { ascending: true })
+        : await supabase
+            .from("reviews")
+            .select("*, reports:review_reports(*)")
+            .not("hidden_at", "is", null)
+            .order("hidden_at", { ascending: false });
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load moderation queue"));
+      setLoading(false);
+      return;
+    }
+
+    const queue = (data as QueueReview[]) || [];
+    setReviews(queue);
+
+    if (queue.length > 0) {
+      const reviewIds = queue.map((review) => review.id);
+      const profileIds = [
+        ...new Set(queue.flatMap((review) => [review.hirer_id, ...review.reports.map((report) => report.reporter_id)])),
+      ];
+      const workerIds = [...new Set(queue.map((review) => review.worker_id))];
+
+      const [{ data: profilesData }, { data: workersData }, { data: logData }] = await Promise.all([
+        supabase.from("profiles").select("id, full_name").in("id", profileIds),
+        supabase.from("worker_profiles").select("id, user:profiles!worker_profiles_user_id_fkey(full_name)").in("id", workerIds),
+        supabase.from("review_moderation_log").select("*").in("review_id", reviewIds).order("created_at"),
+      ]);
+
+      setNames(Object.fromEntries((profilesData || []).map((profile) => [profile.id, profile.full_name])));
+      setWorkerNames(Object.fromEntries((workersData || []).map((worker) => [worker.id, worker.user?.full_name || ""])));
+      setLog(logData || []);
+    }
+    setLoading(false);
+  };
+
+  const openModeration = (review: QueueReview, action: ModerationAction) => {
+    setNotes("");
+    setModerating({ review, action });
+  };
+
+  const handleModerate = async () => {
+    if (!moderating) return;
+
+    const trimmedNotes = notes.trim();
+    if (ACTION_COPY[moderating.action].notesRequired && !trimmedNotes) {
+      toast.error("Please record a reason");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("moderate_review", {
+      _review_id: moderating.review.id,
+      _action: moderating.action,
+      _notes: trimmedNotes || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to moderate review"));
+      return;
+    }
+
+    toast.success(`Review ${getModerationActionLabel(moderating.action).toLowerCase()}`);
+    setModerating(null);
+    loadReviews();
+  };
+
+  if (roleLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <header className="bg-card border-b shadow-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Review Moderation</h1>
+            <p className="text-muted-foreground">Handle reported reviews and restore hidden ones</p>
+          </div>
+          <Select value={filter} onValueChange={(value) => setFilter(value as QueueFilter)}>
+            <SelectTrigger className="w-full md:w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FILTER_LABELS) as QueueFilter[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {FILTER_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : reviews.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground">No reviews in this queue</p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {reviews.map((review) => (
+              <Card key={review.id} className="p-6">
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                  <div className="flex-1 space-y-3">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold text-lg">
+                        {names[review.hirer_id] || "Unknown user"} → {workerNames[review.worker_id] || "Unknown worker"}
+                      </h3>
+                      {review.hidden_at && <Badge variant="destructive">Hidden</Badge>}
+                    </div>
+                    <div className="flex items-center">
+                      {[1, 2, 3, 4, 5].map((star) => (
+                        <Star
+                          key={star}
+                          className={`h-4 w-4 ${star <= review.rating ? "fill-warning text-warning" : "text-muted-foreground"}`}
+                        />
+                      ))}
+                      <span className="text-xs text-muted-foreground ml-2">
+                        {format(new Date(review.created_at), "MMM d, yyyy")}
+                      </span>
+                    </div>
+                    {review.review_text && <p className="text-sm">{review.review_text}</p>}
+
+                    {review.reports.length > 0 && (
+                      <div className="space-y-2">
+                        <p className="text-sm font-medium">Reports</p>
+                        {review.reports.map((report) => (
+                          <div key={report.id} className="rounded-md border p-3 text-sm">
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="font-medium">{getReportReasonLabel(report.reason)}</span>
+                              <Badge variant={report.status === "open" ? "secondary" : "outline"}>
+                                {REPORT_STATUS_LABELS[report.status as ReportStatus] || report.status}
+                              </Badge>
+                            </div>
+                            {report.details && <p className="text-muted-foreground mt-1">{report.details}</p>}
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {names[report.reporter_id] || "Unknown user"} •{" "}
+                              {format(new Date(report.created_at), "MMM d, yyyy h:mm a")}
+                            </p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {log.some((entry) => entry.review_id === review.id) && (
+                      <div className="space-y-1">
+                        <p className="text-sm font-medium">History</p>
+                        {log
+                          .filter((entry) => entry.review_id === review.id)
+                          .map((entry) => (
+                            <p key={entry.id} className="text-xs text-muted-foreground">
+                              {format(new Date(entry.created_at), "MMM d, yyyy h:mm a")} •{" "}
+                              {getModerationActionLabel(entry.action)}
+                              {entry.notes && `: ${entry.notes}`}
+                            </p>
+                          ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex flex-col gap-2 md:w-48">
+                    {review.hidden_at ? (
+                      <Button size="sm" onClick={() => openModeration(review, "restore")}>
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Restore
+                      </Button>
+                    ) : (
+                      <>
+                        <Button size="sm" variant="outline" onClick={() => openModeration(review, "dismiss")}>
+                          <CheckCircle className="mr-2 h-4 w-4" />
+                          Dismiss Reports
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => openModeration(review, "hide")}>
+                          <EyeOff className="mr-2 h-4 w-4" />
+                          Hide
+                        </Button>
+                      </>
+                    )}
+                    <Button size="sm" variant="destructive" onClick={() => openModeration(review, "delete")}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <Dialog open={!!moderating} onOpenChange={(open) => !open && setModerating(null)}>
+        <DialogContent>
+          {moderating && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{ACTION_COPY[moderating.action].title}</DialogTitle>
+                <DialogDescription>
+                  {moderating.action === "delete"
+                    ? "The review is removed for good. A copy is kept in the moderation log."
+                    : "The action and your notes are recorded in the moderation log."}
+                </DialogDescription>
+              </DialogHeader>
+              <div>
+                <Label htmlFor="moderationNotes">
+                  {ACTION_COPY[moderating.action].notesRequired ? "Reason *" : "Notes (optional)"}
+                </Label>
+                <Textarea
+                  id="moderationNotes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={4}
+                  maxLength={1000}
+                  className="mt-2"
+                />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setModerating(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  variant={moderating.action === "delete" ? "destructive" : "default"}
+                  onClick={handleModerate}
+                  disabled={saving}
+                >
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {ACTION_COPY[moderating.action].action}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminReviews;
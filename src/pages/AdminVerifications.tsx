@@ -0,0 +1,283 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { User } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeft, CheckCircle, HelpCircle, Loader2, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { useIsAdmin } from "@/hooks/useIsAdmin";
+import { WorkerDocumentReview } from "@/components/WorkerDocumentReview";
+import { VerificationStatus, getVerificationBadgeVariant, getVerificationLabel } from "@/lib/verification";
+
+type QueueWorker = Tables<"worker_profiles"> & {
+  user: Tables<"profiles">;
+  category: Tables<"categories"> | null;
+};
+
+type ReviewDecision = Exclude<VerificationStatus, "pending">;
+
+const DECISION_COPY: Record<ReviewDecision, { title: string; action: string; notesRequired: boolean }> = {
+  verified: { title: "Approve worker", action: "Approve", notesRequired: false },
+  rejected: { title: "Reject worker", action: "Reject", notesRequired: true },
+  needs_info: { title: "Request more information", action: "Send Request", notesRequired: true },
+};
+
+const AdminVerifications = () => {
+  const navigate = useNavigate();
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const { isAdmin, loading: roleLoading } = useIsAdmin(currentUser?.id ?? null);
+  const [statusFilter, setStatusFilter] = useState<VerificationStatus>("pending");
+  const [workers, setWorkers] = useState<QueueWorker[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<{ worker: QueueWorker; decision: ReviewDecision } | null>(null);
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  useEffect(() => {
+    if (roleLoading) return;
+    if (!isAdmin) {
+      toast.error("Only admins can access the verification queue");
+      navigate("/dashboard");
+      return;
+    }
+    loadWorkers();
+  }, [isAdmin, roleLoading, statusFilter]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+    setCurrentUser(session.user);
+  };
+
+  const loadWorkers = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("worker_profiles")
+      .select(`
+        *,
+        user:profiles!worker_profiles_user_id_fkey(*),
+        category:categories(*)
+      `)
+      .eq("verification_status", statusFilter)
+      .order("updated_at", { ascending: true });
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load verification queue"));
+    }
+    setWorkers((data as QueueWorker[]) || []);
+    setLoading(false);
+  };
+
+  const openReview = (worker: QueueWorker, decision: ReviewDecision) => {
+    setNotes(decision === "verified" ? "" : worker.verification_notes || "");
+    setReviewing({ worker, decision });
+  };
+
+  const handleSubmitReview = async () => {
+    if (!reviewing) return;
+
+    const trimmedNotes = notes.trim();
+    if (DECISION_COPY[reviewing.decision].notesRequired && !trimmedNotes) {
+      toast.error("Please give the worker a reason");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from("worker_profiles")
+      .update({
+        verification_status: reviewing.decision,
+        verification_notes: trimmedNotes || null,
+      })
+      .eq("id", reviewing.worker.id);
+    setSaving(false);
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to save review"));
+      return;
+    }
+
+    toast.success(`${reviewing.worker.user.full_name} marked as ${getVerificationLabel(reviewing.decision).toLowerCase()}`);
+    setReviewing(null);
+    loadWorkers();
+  };
+
+  if (roleLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <header className="bg-card border-b shadow-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Worker Verifications</h1>
+            <p className="text-muted-foreground">Review worker applications before they are shown as verified</p>
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as VerificationStatus)}>
+            <SelectTrigger className="w-full md:w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(["pending", "needs_info", "rejected", "verified"] as VerificationStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {getVerificationLabel(status)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : workers.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground">No workers in this queue</p>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {workers.map((worker) => (
+              <Card key={worker.id} className="p-6">
+                <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                  <div className="flex-1 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold text-lg">{worker.user.full_name}</h3>
+                      <Badge variant={getVerificationBadgeVariant(worker.verification_status)}>
+                        {getVerificationLabel(worker.verification_status)}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {worker.category?.name} • {worker.experience_years ?? 0} years experience • ₹{worker.hourly_rate}/hr
+                      {worker.daily_rate && ` • ₹${worker.daily_rate}/day`}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {worker.user.email}
+                      {worker.user.phone && ` • ${worker.user.phone}`}
+                    </p>
+                    {worker.skills && worker.skills.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {worker.skills.map((skill, idx) => (
+                          <Badge key={idx} variant="outline" className="text-xs">
+                            {skill}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    {worker.bio && <p className="text-sm">{worker.bio}</p>}
+                    {worker.verification_notes && (
+                      <p className="text-sm text-muted-foreground">
+                        <span className="font-medium">Reviewer notes:</span> {worker.verification_notes}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Last updated {format(new Date(worker.updated_at), "MMM d, yyyy h:mm a")}
+                    </p>
+                    <WorkerDocumentReview workerId={worker.id} categoryName={worker.category?.name} />
+                  </div>
+
+                  <div className="flex flex-col gap-2 md:w-48">
+                    {worker.verification_status !== "verified" && (
+                      <Button size="sm" onClick={() => openReview(worker, "verified")}>
+                        <CheckCircle className="mr-2 h-4 w-4" />
+                        Approve
+                      </Button>
+                    )}
+                    {worker.verification_status !== "needs_info" && (
+                      <Button size="sm" variant="outline" onClick={() => openReview(worker, "needs_info")}>
+                        <HelpCircle className="mr-2 h-4 w-4" />
+                        Request Info
+                      </Button>
+                    )}
+                    {worker.verification_status !== "rejected" && (
+                      <Button size="sm" variant="destructive" onClick={() => openReview(worker, "rejected")}>
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Reject
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          {reviewing && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{DECISION_COPY[reviewing.decision].title}</DialogTitle>
+                <DialogDescription>
+                  {reviewing.worker.user.full_name} will see these notes on their profile.
+                </DialogDescription>
+              </DialogHeader>
+              <div>
+                <Label htmlFor="reviewNotes">
+                  {DECISION_COPY[reviewing.decision].notesRequired ? "Reason *" : "Notes (optional)"}
+                </Label>
+                <Textarea
+                  id="reviewNotes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  rows={4}
+                  maxLength={1000}
+                  className="mt-2"
+                />
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setReviewing(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSubmitReview} disabled={saving}>
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {DECISION_COPY[reviewing.decision].action}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AdminVerifications;
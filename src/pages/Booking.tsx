@@ -14,20 +14,28 @@ import { ArrowLeft, Calendar as CalendarIcon, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { bookingSchema } from "@/lib/validationSchemas";
 import { handleSupabaseError } from "@/lib/errorMessages";
+import { TimeSlotGrid } from "@/components/TimeSlotGrid";
+import { CancellationPolicy } from "@/components/CancellationPolicy";
+import { useUserBlock } from "@/hooks/useUserBlock";
+import { TimeSlot, getBookingSlot, parseSlotRows, slotFitsWindows, slotsOverlap } from "@/lib/timeSlots";
 
 const Booking = () => {
   const { workerId } = useParams();
   const navigate = useNavigate();
   const [worker, setWorker] = useState<any>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [bookingDate, setBookingDate] = useState<Date>();
   const [availability, setAvailability] = useState<any[]>([]);
   const [currentMonth, setCurrentMonth] = useState<Date>(new Date());
+  const [busySlots, setBusySlots] = useState<TimeSlot[]>([]);
+  const [openWindows, setOpenWindows] = useState<TimeSlot[]>([]);
   const [formData, setFormData] = useState({
     startTime: "",
     durationHours: "",
     workDescription: "",
   });
+  const { blocked } = useUserBlock(currentUserId, worker?.user_id);
 
   useEffect(() => {
     loadWorkerData();
@@ -37,7 +45,14 @@ const Booking = () => {
     loadAvailability();
   }, [currentMonth, workerId]);
 
+  useEffect(() => {
+    loadDaySlots();
+  }, [bookingDate, workerId]);
+
   const loadWorkerData = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    setCurrentUserId(session?.user.id ?? null);
+
     const { data } = await supabase
       .from("worker_profiles")
       .select(`
@@ -57,16 +72,33 @@ const Booking = () => {
     const start = startOfMonth(currentMonth);
     const end = endOfMonth(currentMonth);
 
-    const { data } = await supabase
-      .from("availability_calendar")
-      .select("*")
-      .eq("worker_id", workerId)
-      .gte("date", format(start, "yyyy-MM-dd"))
-      .lte("date", format(end, "yyyy-MM-dd"));
+    // Recurring rules expanded with one-off exceptions applied
+    const { data } = await supabase.rpc("get_worker_availability", {
+      _worker_id: workerId,
+      _start: format(start, "yyyy-MM-dd"),
+      _end: format(end, "yyyy-MM-dd"),
+    });
 
     setAvailability(data || []);
   };
 
+  const loadDaySlots = async () => {
+    if (!workerId || !bookingDate) {
+      setBusySlots([]);
+      setOpenWindows([]);
+      return;
+    }
+
+    const args = { _worker_id: workerId, _date: format(bookingDate, "yyyy-MM-dd") };
+    const [{ data: busyData }, { data: windowData }] = await Promise.all([
+      supabase.rpc("get_worker_busy_slots", args),
+      supabase.rpc("get_worker_open_windows", args),
+    ]);
+
+    setBusySlots(parseSlotRows(busyData || []));
+    setOpenWindows(parseSlotRows(windowData || []));
+  };
+
   const getAvailabilityForDate = (date: Date) => {
     const dateStr = format(date, "yyyy-MM-dd");
     return availability.find((a) => a.date === dateStr);
@@ -78,7 +110,7 @@ const Booking = () => {
     
     // Check worker availability
     const avail = getAvailabilityForDate(date);
-    if (!avail) return true; // Allow if no availability set
+    if (!avail) return true; // Outside the loaded month, checked again on submit
     
     // Only allow "available" status
     return avail.status === "available";
@@ -124,19 +156,38 @@ const Booking = () => {
 
       // Double-check availability before inserting
       const bookingDateStr = format(validationResult.data.bookingDate, "yyyy-MM-dd");
-      const { data: availData } = await supabase
-        .from("availability_calendar")
-        .select("status")
-        .eq("worker_id", workerId)
-        .eq("date", bookingDateStr)
-        .maybeSingle();
-
-      if (availData && availData.status !== "available") {
+      const { data: dayStatus } = await supabase.rpc("worker_day_status", {
+        _worker_id: workerId!,
+        _date: bookingDateStr,
+      });
+
+      if (dayStatus && dayStatus !== "available") {
         toast.error("This worker is not available on the selected date");
         setLoading(false);
         return;
       }
 
+      const requestedSlot = getBookingSlot(
+        validationResult.data.bookingDate,
+        validationResult.data.startTime,
+        validationResult.data.durationHours
+      );
+      if (!slotFitsWindows(requestedSlot, openWindows)) {
+        toast.error(
+          validationResult.data.startTime && validationResult.data.durationHours
+            ? "The requested time is outside the worker's working hours. Please pick an open slot."
+            : "This worker only takes jobs during set hours. Please choose a start time and duration."
+        );
+        setLoading(false);
+        return;
+      }
+
+      if (busySlots.some((slot) => slotsOverlap(slot, requestedSlot))) {
+        toast.error("The worker already has a booking during this time. Please pick a free slot.");
+        setLoading(false);
+        return;
+      }
+
       const agreedRate = validationResult.data.durationHours 
         ? validationResult.data.durationHours * worker.hourly_rate
         : worker.daily_rate || worker.hourly_rate * 8;
@@ -153,7 +204,11 @@ const Booking = () => {
       });
 
       if (error) {
-        toast.error(handleSupabaseError(error, "Failed to create booking"));
+        // Overlap and availability errors have specific messages in getErrorMessage
+        const hasSpecificMessage = ["23P01", "BK003", "BK004"].includes(error.code);
+        toast.error(handleSupabaseError(error, hasSpecificMessage ? undefined : "Failed to create booking"));
+        // Someone may have taken the slot since the grid was loaded
+        loadDaySlots();
         setLoading(false);
         return;
       }
@@ -175,6 +230,10 @@ const Booking = () => {
     );
   }
 
+  const selectedSlot = bookingDate
+    ? getBookingSlot(bookingDate, formData.startTime, Number(formData.durationHours) || 0)
+    : null;
+
   const estimatedCost = formData.durationHours
     ? parseFloat(formData.durationHours) * worker.hourly_rate
     : worker.daily_rate || worker.hourly_rate * 8;
@@ -200,90 +259,119 @@ const Booking = () => {
               </p>
             </div>
 
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div>
-                <Label>Booking Date *</Label>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button
-                      variant="outline"
-                      className={cn(
-                        "w-full justify-start text-left font-normal mt-2",
-                        !bookingDate && "text-muted-foreground"
-                      )}
-                    >
-                      <CalendarIcon className="mr-2 h-4 w-4" />
-                      {bookingDate ? format(bookingDate, "PPP") : "Select a date"}
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start">
-                    <Calendar
-                      mode="single"
-                      selected={bookingDate}
-                      onSelect={setBookingDate}
-                      onMonthChange={setCurrentMonth}
-                      initialFocus
-                      disabled={(date) => !isDateBookable(date)}
-                      className="pointer-events-auto"
+            {blocked ? (
+              <p className="text-muted-foreground">
+                You can't book {worker.user.full_name} because one of you has blocked the other.
+              </p>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div>
+                  <Label>Booking Date *</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        className={cn(
+                          "w-full justify-start text-left font-normal mt-2",
+                          !bookingDate && "text-muted-foreground"
+                        )}
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {bookingDate ? format(bookingDate, "PPP") : "Select a date"}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={bookingDate}
+                        onSelect={setBookingDate}
+                        onMonthChange={setCurrentMonth}
+                        initialFocus
+                        disabled={(date) => !isDateBookable(date)}
+                        className="pointer-events-auto"
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+
+                {bookingDate && (
+                  <div>
+                    <Label>Worker's Schedule</Label>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Pick a free start time. Greyed out hours are already booked or outside the worker's hours.
+                    </p>
+                    <TimeSlotGrid
+                      date={bookingDate}
+                      busySlots={busySlots}
+                      openWindows={openWindows}
+                      selected={selectedSlot}
+                      onSelectStart={(startTime) => setFormData({ ...formData, startTime })}
                     />
-                  </PopoverContent>
-                </Popover>
-              </div>
-
-              <div>
-                <Label htmlFor="startTime">Start Time</Label>
-                <Input
-                  id="startTime"
-                  type="time"
-                  value={formData.startTime}
-                  onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
-                />
-              </div>
-
-              <div>
-                <Label htmlFor="duration">Duration (hours)</Label>
-                <Input
-                  id="duration"
-                  type="number"
-                  step="0.5"
-                  placeholder="8"
-                  value={formData.durationHours}
-                  onChange={(e) => setFormData({ ...formData, durationHours: e.target.value })}
-                />
-                <p className="text-sm text-muted-foreground mt-1">
-                  Leave empty for full day booking
-                </p>
-              </div>
-
-              <div>
-                <Label htmlFor="description">Work Description *</Label>
-                <Textarea
-                  id="description"
-                  placeholder="Describe the work you need done..."
-                  value={formData.workDescription}
-                  onChange={(e) => setFormData({ ...formData, workDescription: e.target.value })}
-                  rows={4}
-                  required
-                />
-              </div>
-
-              <div className="bg-muted p-4 rounded-lg">
-                <div className="flex justify-between items-center">
-                  <span className="font-semibold">Estimated Cost:</span>
-                  <span className="text-2xl font-bold text-primary">
-                    ₹{estimatedCost.toFixed(2)}
-                  </span>
+                  </div>
+                )}
+
+                <div>
+                  <Label htmlFor="startTime">Start Time</Label>
+                  <Input
+                    id="startTime"
+                    type="time"
+                    value={formData.startTime}
+                    onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+                  />
                 </div>
-                <p className="text-sm text-muted-foreground mt-2">
-                  Final payment after work completion
-                </p>
-              </div>
-
-              <Button type="submit" className="w-full" size="lg" disabled={loading}>
-                {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
-                Submit Booking Request
-              </Button>
-            </form>
+
+                <div>
+                  <Label htmlFor="duration">Duration (hours)</Label>
+                  <Input
+                    id="duration"
+                    type="number"
+                    step="0.5"
+                    placeholder="8"
+                    value={formData.durationHours}
+                    onChange={(e) => setFormData({ ...formData, durationHours: e.target.value })}
+                  />
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Leave empty for full day booking
+                  </p>
+                </div>
+
+                <div>
+                  <Label htmlFor="description">Work Description *</Label>
+                  <Textarea
+                    id="description"
+                    placeholder="Describe the work you need done..."
+                    value={formData.workDescription}
+                    onChange={(e) => setFormData({ ...formData, workDescription: e.target.value })}
+                    rows={4}
+                    required
+                  />
+                </div>
+
+                <div className="bg-muted p-4 rounded-lg">
+                  <div className="flex justify-between items-center">
+                    <span className="font-semibold">Estimated Cost:</span>
+                    <span className="text-2xl font-bold text-primary">
+                      ₹{estimatedCost.toFixed(2)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground mt-2">
+                    This is your offer. The worker can accept it or counter with a different rate or time.
+                    Funds are held once you both agree and released after completion.
+                  </p>
+                </div>
+
+                <CancellationPolicy
+                  agreedRate={estimatedCost}
+                  bookingDate={bookingDate ? format(bookingDate, "yyyy-MM-dd") : undefined}
+                  startTime={formData.startTime}
+                />
+
+                <Button type="submit" className="w-full" size="lg" disabled={loading}>
+                  {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                  Submit Booking Request
+                </Button>
+              </form>
+            )}
           </Card>
         </div>
       </main>
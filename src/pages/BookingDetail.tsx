@@ -1,25 +1,46 @@
 import { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { BookingMessages } from "@/components/BookingMessages";
-import { ReviewForm } from "@/components/ReviewForm";
+import { BookingReviews } from "@/components/BookingReviews";
 import { ReviewsList } from "@/components/ReviewsList";
+import { BookingTimeline } from "@/components/BookingTimeline";
+import { PaymentSummary } from "@/components/PaymentSummary";
+import { BookingOffers } from "@/components/BookingOffers";
+import { BookingInvoice } from "@/components/BookingInvoice";
+import { CancellationPolicy } from "@/components/CancellationPolicy";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { ArrowLeft, Calendar, Clock, DollarSign, MessageCircle } from "lucide-react";
 import { format } from "date-fns";
 import { toast } from "sonner";
 import { handleSupabaseError } from "@/lib/errorMessages";
 import { useUnreadMessages } from "@/hooks/useUnreadMessages";
+import { BookingStatus, canTransition, getBookingStatusLabel } from "@/lib/bookingStatus";
+import { EscrowResult, holdBookingFunds, releaseBookingFunds, settleCancelledBooking } from "@/lib/payments";
+import { getCancellationPartyLabel, getHoursUntilStart } from "@/lib/cancellationPolicy";
 
 const BookingDetail = () => {
   const { bookingId } = useParams();
   const navigate = useNavigate();
   const [booking, setBooking] = useState<any>(null);
   const [currentUser, setCurrentUser] = useState<any>(null);
-  const [existingReview, setExistingReview] = useState<any>(null);
   const [loading, setLoading] = useState(true);
+  const [cancelling, setCancelling] = useState(false);
+  const [cancelReason, setCancelReason] = useState("");
+  const [reportingNoShow, setReportingNoShow] = useState(false);
   const unreadCounts = useUnreadMessages(currentUser?.id);
 
   useEffect(() => {
@@ -61,17 +82,6 @@ const BookingDetail = () => {
     }
 
     setBooking(bookingData);
-
-    // Check if review exists
-    if (bookingData?.status === "completed" && bookingData.hirer_id === user.id) {
-      const { data: reviewData } = await supabase
-        .from("reviews")
-        .select("*")
-        .eq("booking_id", bookingId)
-        .maybeSingle();
-      
-      setExistingReview(reviewData);
-    }
     setLoading(false); // <-- After all async loading finishes
   }
   catch (err) {
@@ -79,22 +89,40 @@ const BookingDetail = () => {
     toast.error("Unexpected error while loading booking details.");
   }
 };
-  const handleStatusUpdate = async (newStatus: string) => {
-    const { error } = await supabase
-      .from("bookings")
-      .update({ status: newStatus })
-      .eq("id", bookingId);
+  // Moves the booking's funds along with its status; failures are left for a retry from PaymentSummary
+  const runEscrowStep = async (step: () => Promise<EscrowResult>) => {
+    try {
+      const result = await step();
+      if (!result.ok) {
+        toast.error(`Payment failed: ${result.failureReason || "please retry"}`);
+      }
+    } catch (error) {
+      toast.error(handleSupabaseError(error));
+    }
+  };
+
+  const handleStatusUpdate = async (newStatus: BookingStatus) => {
+    const { error } = await supabase.rpc("update_booking_status", {
+      _booking_id: bookingId!,
+      _status: newStatus,
+    });
 
     if (error) {
-      toast.error(handleSupabaseError(error, "Failed to update booking status"));
+      // Illegal transitions come back with BK00x codes that getErrorMessage explains
+      toast.error(handleSupabaseError(error));
+      loadData();
     } else {
-      const statusMessage = newStatus === "confirmed" ? "accepted" : 
+      const statusMessage = newStatus === "in_progress" ? "started" :
                            newStatus === "completed" ? "completed" : "updated";
       toast.success(`Booking ${statusMessage}`);
+
+      if (newStatus === "completed" && booking.payment_status === "authorized") {
+        await runEscrowStep(() => releaseBookingFunds(booking));
+      }
       
       // Show notification when worker completes the booking
       if (newStatus === "completed") {
-        toast.info("Work completed! The hirer can now leave a review.", {
+        toast.info("Work completed! You and the hirer can now review each other.", {
           duration: 5000,
         });
       }
@@ -103,6 +131,48 @@ const BookingDetail = () => {
     }
   };
 
+  // Accepting an offer confirms the booking, so the agreed rate is held right away
+  const handleOfferAccepted = async (confirmedBooking: Tables<"bookings">) => {
+    await runEscrowStep(() => holdBookingFunds(confirmedBooking));
+    loadData();
+  };
+
+  const handleCancel = async () => {
+    if (!cancelReason.trim()) {
+      toast.error("Please give a reason for cancelling");
+      return;
+    }
+
+    const { data, error } = await supabase.rpc("cancel_booking", {
+      _booking_id: bookingId!,
+      _reason: cancelReason.trim(),
+      _no_show: reportingNoShow,
+    });
+
+    if (error) {
+      toast.error(handleSupabaseError(error));
+      loadData();
+      return;
+    }
+
+    toast.success(reportingNoShow ? "No-show reported" : `Booking ${isDecline ? "declined" : "cancelled"}`);
+    if (Number(data.cancellation_fee) > 0) {
+      toast.info(`A cancellation fee of ₹${Number(data.cancellation_fee).toFixed(2)} goes to the worker`);
+    }
+    if (data.payment_status === "authorized") {
+      await runEscrowStep(() => settleCancelledBooking(data));
+    }
+
+    closeCancelDialog();
+    loadData();
+  };
+
+  const closeCancelDialog = () => {
+    setCancelling(false);
+    setReportingNoShow(false);
+    setCancelReason("");
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -120,7 +190,10 @@ const BookingDetail = () => {
   }
 
   const isHirer = currentUser?.id === booking.hirer_id;
-  const canReview = isHirer && booking.status === "completed" && !existingReview;
+  const actor = isHirer ? "hirer" : "worker";
+  const isDecline = booking.status === "pending" && !isHirer;
+  const canReportNoShow =
+    isHirer && booking.status === "confirmed" && getHoursUntilStart(booking.booking_date, booking.start_time) <= 0;
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-background to-muted">
@@ -141,10 +214,10 @@ const BookingDetail = () => {
                 <h1 className="text-2xl font-bold">Booking Details</h1>
                 <Badge variant={
                   booking.status === "completed" ? "default" :
-                  booking.status === "confirmed" ? "secondary" :
+                  booking.status === "confirmed" || booking.status === "in_progress" ? "secondary" :
                   booking.status === "cancelled" ? "destructive" : "outline"
                 }>
-                  {booking.status}
+                  {getBookingStatusLabel(booking.status)}
                 </Badge>
               </div>
 
@@ -219,25 +292,16 @@ const BookingDetail = () => {
                   </div>
                 </div>
 
-                {booking.status === "pending" && !isHirer && (
-                  <div className="flex gap-2 pt-4">
-                    <Button
-                      onClick={() => handleStatusUpdate("confirmed")}
-                      className="flex-1"
-                    >
-                      Accept Booking
-                    </Button>
-                    <Button
-                      onClick={() => handleStatusUpdate("cancelled")}
-                      variant="destructive"
-                      className="flex-1"
-                    >
-                      Decline
-                    </Button>
-                  </div>
+                {canTransition(booking.status, "in_progress", actor) && (
+                  <Button
+                    onClick={() => handleStatusUpdate("in_progress")}
+                    className="w-full"
+                  >
+                    Start Work
+                  </Button>
                 )}
 
-                {booking.status === "confirmed" && !isHirer && (
+                {canTransition(booking.status, "completed", actor) && (
                   <Button
                     onClick={() => handleStatusUpdate("completed")}
                     className="w-full"
@@ -245,37 +309,141 @@ const BookingDetail = () => {
                     Mark as Completed
                   </Button>
                 )}
+
+                {canTransition(booking.status, "cancelled", actor) && (
+                  <Button
+                    onClick={() => setCancelling(true)}
+                    variant={isDecline ? "destructive" : "outline"}
+                    className="w-full"
+                  >
+                    {isDecline ? "Decline Booking" : "Cancel Booking"}
+                  </Button>
+                )}
+
+                {canReportNoShow && (
+                  <Button
+                    onClick={() => {
+                      setReportingNoShow(true);
+                      setCancelling(true);
+                    }}
+                    variant="ghost"
+                    className="w-full text-destructive"
+                  >
+                    Report Worker No-Show
+                  </Button>
+                )}
+
+                {booking.status === "cancelled" && booking.cancellation_party && (
+                  <div className="rounded-lg bg-muted p-4 text-sm space-y-1">
+                    <p className="font-medium">{getCancellationPartyLabel(booking.cancellation_party)}</p>
+                    {booking.cancellation_reason && (
+                      <p className="text-muted-foreground">{booking.cancellation_reason}</p>
+                    )}
+                    {Number(booking.cancellation_fee) > 0 && (
+                      <p>Cancellation fee: ₹{Number(booking.cancellation_fee).toFixed(2)}</p>
+                    )}
+                  </div>
+                )}
               </div>
             </Card>
 
+            <BookingOffers
+              bookingId={bookingId!}
+              bookingStatus={booking.status}
+              actor={actor}
+              refreshKey={booking.updated_at}
+              onAccepted={handleOfferAccepted}
+            />
+
+            <PaymentSummary booking={booking} onChange={loadData} />
+
+            {booking.status === "completed" && (
+              <BookingInvoice bookingId={bookingId!} refreshKey={booking.updated_at} />
+            )}
+
+            <BookingTimeline bookingId={bookingId!} refreshKey={booking.updated_at} />
+
             <BookingMessages
               bookingId={bookingId!}
               currentUserId={currentUser.id}
+              otherUserId={isHirer ? booking.worker.user_id : booking.hirer_id}
             />
           </div>
 
           <div className="lg:col-span-1 space-y-6">
-            {canReview && (
-              <ReviewForm
+            {booking.status === "completed" && (
+              <BookingReviews
                 bookingId={bookingId!}
                 workerId={booking.worker_id}
-                hirerId={currentUser.id}
-                onReviewSubmitted={loadData}
+                hirerId={booking.hirer_id}
+                categoryId={booking.worker.category_id}
+                actor={actor}
               />
             )}
-            {existingReview && (
-              <Card className="p-6">
-                <h3 className="text-lg font-semibold mb-2">Your Review</h3>
-                <p className="text-sm text-muted-foreground">
-                  You've already reviewed this booking. Thank you for your feedback!
-                </p>
-              </Card>
-            )}
-            
+
+
             <ReviewsList workerId={booking.worker_id} />
           </div>
         </div>
       </main>
+
+      <Dialog
+        open={cancelling}
+        onOpenChange={(open) => {
+          if (!open) closeCancelDialog();
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reportingNoShow ? "Report worker no-show" : isDecline ? "Decline booking" : "Cancel booking"}
+            </DialogTitle>
+            <DialogDescription>
+              The reason is saved in the booking history and visible to both parties.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {booking.status === "confirmed" && !reportingNoShow && (
+              isHirer ? (
+                <CancellationPolicy
+                  agreedRate={Number(booking.agreed_rate)}
+                  bookingDate={booking.booking_date}
+                  startTime={booking.start_time}
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Cancelling an accepted booking close to the start time adds a penalty to your account. The hirer is
+                  refunded in full.
+                </p>
+              )
+            )}
+            {reportingNoShow && (
+              <p className="text-sm text-muted-foreground">
+                You'll be refunded in full and the worker receives a no-show penalty.
+              </p>
+            )}
+            <div>
+              <Label htmlFor="cancelReason">Reason *</Label>
+              <Textarea
+                id="cancelReason"
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                rows={3}
+                maxLength={500}
+                className="mt-2"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeCancelDialog}>
+              Keep Booking
+            </Button>
+            <Button variant="destructive" onClick={handleCancel} disabled={!cancelReason.trim()}>
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -1,35 +1,62 @@
-import { useEffect, useState } from "react";
-import { useNavigate, Link } from "react-router-dom";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate, useSearchParams, Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { WorkerCard } from "@/components/WorkerCard";
 import { BookingsList } from "@/components/BookingsList";
-import { LogOut, Search, Calendar } from "lucide-react";
+import { BillingDetails } from "@/components/BillingDetails";
+import { LocationPicker } from "@/components/LocationPicker";
+import { WorkerFiltersPanel } from "@/components/WorkerFiltersPanel";
+import { LogOut, Search, Calendar, MapPin, ShieldCheck, Flag, MessageSquare, MessageSquareWarning } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+import { useIsAdmin } from "@/hooks/useIsAdmin";
+import { useOnlineUsers } from "@/hooks/usePresence";
+import { WorkerFilters, parseWorkerFilters, toSearchParams, toSearchWorkersArgs } from "@/lib/workerFilters";
+
+const RADIUS_OPTIONS_KM = ["5", "10", "25", "50", "100"];
+const PAGE_SIZE = 12;
 
 const Dashboard = () => {
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseWorkerFilters(searchParams), [searchParams]);
   const [user, setUser] = useState<any>(null);
   const [profile, setProfile] = useState<any>(null);
   const [workers, setWorkers] = useState<any[]>([]);
   const [categories, setCategories] = useState<any[]>([]);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState("all");
+  const [searchTerm, setSearchTerm] = useState(filters.query);
+  const [totalWorkers, setTotalWorkers] = useState(0);
+  const latestSearchRequest = useRef(0);
   const [loading, setLoading] = useState(true);
+  const { isAdmin } = useIsAdmin(user?.id ?? null);
+  const onlineUserIds = useOnlineUsers(workers.map((worker) => worker.user_id));
 
   useEffect(() => {
     checkAuth();
     loadCategories();
   }, []);
 
+  // The search box writes to the URL once the hirer stops typing
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (searchTerm.trim() !== filters.query) updateFilters({ query: searchTerm.trim() });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
   useEffect(() => {
     if (profile?.role === "hirer") {
       loadWorkers();
     }
-  }, [profile, searchTerm, selectedCategory]);
+  }, [profile, filters]);
+
+  const updateFilters = (changes: Partial<WorkerFilters>) => {
+    setSearchParams(toSearchParams({ ...filters, ...changes }), { replace: true });
+  };
 
   const checkAuth = async () => {
     const { data: { session } } = await supabase.auth.getSession();
@@ -48,6 +75,10 @@ const Dashboard = () => {
       .single();
 
     setProfile(profileData);
+    // Default the search centre to the hirer's saved location unless the URL sets one
+    if (!filters.center && profileData?.location_lat != null && profileData?.location_lng != null) {
+      updateFilters({ center: { lat: Number(profileData.location_lat), lng: Number(profileData.location_lng) } });
+    }
     setLoading(false);
   };
 
@@ -56,33 +87,55 @@ const Dashboard = () => {
     if (data) setCategories(data);
   };
 
-  const loadWorkers = async () => {
-    let query = supabase
-      .from("worker_profiles")
-      .select(`
-        *,
-        user:profiles!worker_profiles_user_id_fkey(*),
-        category:categories(*)
-      `)
-      .order("rating", { ascending: false });
-
-    if (selectedCategory !== "all") {
-      query = query.eq("category_id", selectedCategory);
+  const loadWorkers = async (offset = 0) => {
+    const requestId = ++latestSearchRequest.current;
+
+    // Matching, ranking, distance and paging all happen in the database
+    const { data: results, error } = await supabase.rpc("search_workers", {
+      ...toSearchWorkersArgs(filters),
+      _limit: PAGE_SIZE,
+      _offset: offset,
+    });
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to search workers"));
+      return;
     }
 
-    const { data } = await query;
-    
-    let filteredData = data || [];
-    
-    if (searchTerm) {
-      filteredData = filteredData.filter((worker) =>
-        worker.user.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        worker.bio?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        worker.skills?.some((skill: string) => skill.toLowerCase().includes(searchTerm.toLowerCase()))
-      );
+    let pageWorkers = [];
+    if (results.length > 0) {
+      const { data, error: workersError } = await supabase
+        .from("worker_profiles")
+        .select(`
+          *,
+          user:profiles!worker_profiles_user_id_fkey(*),
+          category:categories(*)
+        `)
+        .in("id", results.map((r) => r.worker_id));
+
+      if (workersError) {
+        toast.error(handleSupabaseError(workersError, "Failed to load workers"));
+        return;
+      }
+
+      // Keep the ranking order returned by search_workers
+      const workersById = new Map((data || []).map((worker) => [worker.id, worker]));
+      pageWorkers = results
+        .filter((result) => workersById.has(result.worker_id))
+        .map((result) => ({
+          ...workersById.get(result.worker_id),
+          distance_km: result.distance_km,
+          name_highlight: result.name_highlight,
+          bio_highlight: result.bio_highlight,
+          matched_skills: result.matched_skills,
+        }));
     }
 
-    setWorkers(filteredData);
+    // A newer search started while this one was in flight
+    if (requestId !== latestSearchRequest.current) return;
+
+    setWorkers((prev) => (offset === 0 ? pageWorkers : [...prev, ...pageWorkers]));
+    setTotalWorkers(results[0]?.total_count ?? offset);
   };
 
   const handleLogout = async () => {
@@ -108,6 +161,28 @@ const Dashboard = () => {
             <span className="text-sm text-muted-foreground">
               Welcome, {profile?.full_name}
             </span>
+            <Button variant="outline" size="sm" onClick={() => navigate("/inbox")}>
+              <MessageSquare className="mr-2 h-4 w-4" />
+              Inbox
+            </Button>
+            {isAdmin && (
+              <Button variant="outline" size="sm" onClick={() => navigate("/admin/verifications")}>
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                Verifications
+              </Button>
+            )}
+            {isAdmin && (
+              <Button variant="outline" size="sm" onClick={() => navigate("/admin/reviews")}>
+                <Flag className="mr-2 h-4 w-4" />
+                Reviews
+              </Button>
+            )}
+            {isAdmin && (
+              <Button variant="outline" size="sm" onClick={() => navigate("/admin/messages")}>
+                <MessageSquareWarning className="mr-2 h-4 w-4" />
+                Messages
+              </Button>
+            )}
             <Button variant="outline" size="sm" onClick={handleLogout}>
               <LogOut className="mr-2 h-4 w-4" />
               Logout
@@ -144,7 +219,7 @@ const Dashboard = () => {
                       className="pl-10"
                     />
                   </div>
-                  <Select value={selectedCategory} onValueChange={setSelectedCategory}>
+                  <Select value={filters.category} onValueChange={(category) => updateFilters({ category })}>
                     <SelectTrigger className="w-full md:w-[200px]">
                       <SelectValue placeholder="Category" />
                     </SelectTrigger>
@@ -157,12 +232,39 @@ const Dashboard = () => {
                       ))}
                     </SelectContent>
                   </Select>
+                  <WorkerFiltersPanel filters={filters} onApply={updateFilters} />
+                </div>
+
+                <div className="flex flex-col md:flex-row md:items-center gap-4">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    <MapPin className="h-4 w-4 text-primary" />
+                    Near
+                  </div>
+                  <div className="flex-1">
+                    <LocationPicker value={filters.center} onChange={(center) => updateFilters({ center })} />
+                  </div>
+                  <Select
+                    value={String(filters.radiusKm)}
+                    onValueChange={(radius) => updateFilters({ radiusKm: Number(radius) })}
+                    disabled={!filters.center}
+                  >
+                    <SelectTrigger className="w-full md:w-[140px]">
+                      <SelectValue placeholder="Radius" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RADIUS_OPTIONS_KM.map((km) => (
+                        <SelectItem key={km} value={km}>
+                          Within {km} km
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                 {workers.map((worker) => (
-                  <WorkerCard key={worker.id} worker={worker} />
+                  <WorkerCard key={worker.id} worker={worker} online={onlineUserIds.has(worker.user_id)} />
                 ))}
               </div>
 
@@ -171,6 +273,14 @@ const Dashboard = () => {
                   <p className="text-muted-foreground">No workers found matching your criteria</p>
                 </div>
               )}
+
+              {workers.length < totalWorkers && (
+                <div className="flex justify-center mt-8">
+                  <Button variant="outline" onClick={() => loadWorkers(workers.length)}>
+                    Load more ({totalWorkers - workers.length} remaining)
+                  </Button>
+                </div>
+              )}
             </TabsContent>
 
             <TabsContent value="bookings">
@@ -181,6 +291,9 @@ const Dashboard = () => {
                 </p>
               </div>
               <BookingsList userId={user.id} userRole="hirer" />
+              <div className="mt-8">
+                <BillingDetails userId={user.id} stateCode={profile?.gst_state_code ?? null} gstin={profile?.gstin ?? null} />
+              </div>
             </TabsContent>
           </Tabs>
         ) : (
@@ -0,0 +1,223 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { User } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { ArrowLeft, BellOff, Briefcase, Search } from "lucide-react";
+import { format, isToday } from "date-fns";
+import { toast } from "sonner";
+import { handleSupabaseError } from "@/lib/errorMessages";
+
+type InboxConversation = Database["public"]["Functions"]["get_inbox_conversations"]["Returns"][number];
+
+const getInitials = (name: string) => {
+  return name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase();
+};
+
+const Inbox = () => {
+  const navigate = useNavigate();
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [conversations, setConversations] = useState<InboxConversation[]>([]);
+  const [search, setSearch] = useState("");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    checkAuth();
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    loadConversations();
+
+    // Any new or read message in one of our conversations changes the list.
+    // Booking messages can't be filtered by participant; RLS limits them to ours.
+    const channel = supabase
+      .channel(`inbox-${currentUser.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'direct_messages', filter: `receiver_id=eq.${currentUser.id}` },
+        () => loadConversations()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'direct_messages', filter: `sender_id=eq.${currentUser.id}` },
+        () => loadConversations()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'messages' },
+        () => loadConversations()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [currentUser]);
+
+  const checkAuth = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+      return;
+    }
+    setCurrentUser(session.user);
+  };
+
+  const loadConversations = async () => {
+    const { data, error } = await supabase.rpc("get_inbox_conversations");
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to load conversations"));
+    } else {
+      setConversations(data || []);
+    }
+    setLoading(false);
+  };
+
+  const filteredConversations = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return conversations;
+    return conversations.filter((conversation) =>
+      [conversation.partner_name, conversation.work_description, conversation.last_message].some((text) =>
+        text?.toLowerCase().includes(query)
+      )
+    );
+  }, [conversations, search]);
+
+  const openConversation = (conversation: InboxConversation) => {
+    if (conversation.conversation_type === "booking" && conversation.booking_id) {
+      navigate(`/booking-detail/${conversation.booking_id}`);
+    } else {
+      navigate(`/chat/${conversation.partner_id}`);
+    }
+  };
+
+  const getPreview = (conversation: InboxConversation) => {
+    // Deleted messages keep their place in the thread with empty content
+    const text = conversation.last_message || (conversation.last_message_file_type ? "Sent an attachment" : "Message deleted");
+    return conversation.last_message_sender_id === currentUser?.id ? `You: ${text}` : text;
+  };
+
+  const formatTimestamp = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return isToday(date) ? format(date, "h:mm a") : format(date, "MMM d");
+  };
+
+  // Muted conversations still show their count but aren't highlighted
+  const isHighlighted = (conversation: InboxConversation) => conversation.unread_count > 0 && !conversation.muted;
+
+  const totalUnread = conversations.reduce(
+    (sum, conversation) => sum + (conversation.muted ? 0 : conversation.unread_count),
+    0
+  );
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-muted">
+      <header className="bg-card border-b shadow-sm">
+        <div className="container mx-auto px-4 py-4">
+          <Button variant="ghost" onClick={() => navigate("/dashboard")}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold mb-2">Inbox</h1>
+          <p className="text-muted-foreground">
+            {totalUnread > 0 ? `${totalUnread} unread message${totalUnread === 1 ? "" : "s"}` : "You're all caught up"}
+          </p>
+        </div>
+
+        <div className="relative mb-4">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name, job or message..."
+            className="pl-9"
+          />
+        </div>
+
+        {filteredConversations.length === 0 ? (
+          <Card className="p-8 text-center">
+            <p className="text-muted-foreground">
+              {conversations.length === 0 ? "No conversations yet" : "No conversations match your search"}
+            </p>
+          </Card>
+        ) : (
+          <Card className="divide-y">
+            {filteredConversations.map((conversation) => (
+              <button
+                key={`${conversation.conversation_type}-${conversation.booking_id ?? conversation.partner_id}`}
+                type="button"
+                onClick={() => openConversation(conversation)}
+                className="w-full flex items-center gap-3 p-4 text-left hover:bg-muted/50 transition-colors"
+              >
+                <Avatar className="h-10 w-10">
+                  <AvatarFallback className="bg-primary text-primary-foreground text-sm">
+                    {getInitials(conversation.partner_name || "User")}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-1 min-w-0">
+                      <span className={`truncate ${isHighlighted(conversation) ? "font-semibold" : "font-medium"}`}>
+                        {conversation.partner_name || "Unknown user"}
+                      </span>
+                      {conversation.muted && <BellOff className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                    </span>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {formatTimestamp(conversation.last_message_at)}
+                    </span>
+                  </div>
+                  {conversation.conversation_type === "booking" && (
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Briefcase className="h-3 w-3 shrink-0" />
+                      <span className="truncate">{conversation.work_description}</span>
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between gap-2">
+                    <p
+                      className={`text-sm truncate ${
+                        isHighlighted(conversation) ? "text-foreground" : "text-muted-foreground"
+                      }`}
+                    >
+                      {getPreview(conversation)}
+                    </p>
+                    {conversation.unread_count > 0 && (
+                      <Badge variant={conversation.muted ? "secondary" : "default"} className="shrink-0">
+                        {conversation.unread_count}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              </button>
+            ))}
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Inbox;
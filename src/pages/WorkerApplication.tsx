@@ -8,14 +8,24 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { DocumentUploadForm } from "@/components/DocumentUploadForm";
+import { Loader2, X } from "lucide-react";
 import { workerApplicationSchema } from "@/lib/validationSchemas";
 import { handleSupabaseError } from "@/lib/errorMessages";
+import {
+  PendingDocument,
+  getDocumentTypeLabel,
+  hasLicenseProof,
+  requiresLicense,
+  uploadWorkerDocument,
+} from "@/lib/workerDocuments";
 
 const WorkerApplication = () => {
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
   const [categories, setCategories] = useState<any[]>([]);
+  const [documents, setDocuments] = useState<PendingDocument[]>([]);
   const [formData, setFormData] = useState({
     categoryId: "",
     hourlyRate: "",
@@ -34,6 +44,9 @@ const WorkerApplication = () => {
     if (data) setCategories(data);
   };
 
+  const selectedCategory = categories.find((cat) => cat.id === formData.categoryId);
+  const licenseRequired = requiresLicense(selectedCategory?.name);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -62,15 +75,25 @@ const WorkerApplication = () => {
         return;
       }
 
-      const { error } = await supabase.from("worker_profiles").insert({
-        user_id: user.id,
-        category_id: validationResult.data.categoryId,
-        hourly_rate: validationResult.data.hourlyRate,
-        daily_rate: validationResult.data.dailyRate || null,
-        experience_years: validationResult.data.experienceYears,
-        skills: validationResult.data.skills,
-        bio: validationResult.data.bio || null,
-      });
+      if (licenseRequired && !hasLicenseProof(documents.map((doc) => doc.documentType))) {
+        toast.error(`${selectedCategory.name}s must upload a license or trade certificate`);
+        setLoading(false);
+        return;
+      }
+
+      const { data: workerProfile, error } = await supabase
+        .from("worker_profiles")
+        .insert({
+          user_id: user.id,
+          category_id: validationResult.data.categoryId,
+          hourly_rate: validationResult.data.hourlyRate,
+          daily_rate: validationResult.data.dailyRate || null,
+          experience_years: validationResult.data.experienceYears,
+          skills: validationResult.data.skills,
+          bio: validationResult.data.bio || null,
+        })
+        .select("id")
+        .single();
 
       if (error) {
         toast.error(handleSupabaseError(error, "Failed to submit application"));
@@ -78,6 +101,22 @@ const WorkerApplication = () => {
         return;
       }
 
+      const failedUploads: string[] = [];
+      for (const document of documents) {
+        try {
+          await uploadWorkerDocument({ userId: user.id, workerId: workerProfile.id, ...document });
+        } catch (uploadError) {
+          handleSupabaseError(uploadError);
+          failedUploads.push(document.file.name);
+        }
+      }
+
+      if (failedUploads.length > 0) {
+        toast.warning(`Application submitted, but ${failedUploads.join(", ")} could not be uploaded. You can retry from your profile.`);
+        navigate("/worker-profile");
+        return;
+      }
+
       toast.success("Application submitted successfully!");
       navigate("/dashboard");
     } catch (error) {
@@ -174,6 +213,39 @@ const WorkerApplication = () => {
               />
             </div>
 
+            <div>
+              <Label>Documents{licenseRequired && " *"}</Label>
+              <p className="text-sm text-muted-foreground mb-2">
+                Upload ID proof, certificates or photos of past work. Documents are only shared with our verification team.
+                {licenseRequired && ` ${selectedCategory.name}s must include a license or trade certificate.`}
+              </p>
+              {documents.length > 0 && (
+                <div className="space-y-2 mb-3">
+                  {documents.map((doc, idx) => (
+                    <div key={idx} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary">{getDocumentTypeLabel(doc.documentType)}</Badge>
+                        <span className="truncate">{doc.file.name}</span>
+                        {doc.expiresOn && <span className="text-muted-foreground">• Expires {doc.expiresOn}</span>}
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDocuments(documents.filter((_, i) => i !== idx))}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <DocumentUploadForm
+                submitLabel="Add Document"
+                onSubmit={(doc) => setDocuments([...documents, doc])}
+              />
+            </div>
+
             <Button type="submit" className="w-full" size="lg" disabled={loading}>
               {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
               Submit Application
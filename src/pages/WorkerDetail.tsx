@@ -6,9 +6,15 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Calendar } from "@/components/ui/calendar";
+import { Progress } from "@/components/ui/progress";
 import { ReviewsList } from "@/components/ReviewsList";
-import { ArrowLeft, Star, MapPin, Phone, DollarSign, Briefcase, Calendar as CalendarIcon, MessageCircle } from "lucide-react";
+import { TimeSlotGrid } from "@/components/TimeSlotGrid";
+import { ArrowLeft, Star, MapPin, Phone, DollarSign, Briefcase, Calendar as CalendarIcon, MessageCircle, ShieldCheck } from "lucide-react";
 import { format, startOfMonth, endOfMonth } from "date-fns";
+import { TimeSlot, parseSlotRows } from "@/lib/timeSlots";
+import { formatRating } from "@/lib/ratings";
+import { ReviewCriterion, getReviewCriteria, parseCriteriaRatings } from "@/lib/reviews";
+import { useUserBlock } from "@/hooks/useUserBlock";
 
 const WorkerDetail = () => {
   const { workerId } = useParams();
@@ -16,7 +22,12 @@ const WorkerDetail = () => {
   const [worker, setWorker] = useState<any>(null);
   const [availability, setAvailability] = useState<any[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
+  const [busySlots, setBusySlots] = useState<TimeSlot[]>([]);
+  const [openWindows, setOpenWindows] = useState<TimeSlot[]>([]);
+  const [criteria, setCriteria] = useState<ReviewCriterion[]>([]);
   const [loading, setLoading] = useState(true);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const { blocked } = useUserBlock(currentUserId, worker?.user_id);
 
   useEffect(() => {
     loadWorkerData();
@@ -25,10 +36,14 @@ const WorkerDetail = () => {
   useEffect(() => {
     if (selectedDate) {
       loadAvailability();
+      loadDaySlots();
     }
   }, [selectedDate, workerId]);
 
   const loadWorkerData = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    setCurrentUserId(session?.user.id ?? null);
+
     const { data } = await supabase
       .from("worker_profiles")
       .select(`
@@ -41,6 +56,14 @@ const WorkerDetail = () => {
 
     setWorker(data);
     setLoading(false);
+
+    if (data) {
+      try {
+        setCriteria(await getReviewCriteria(data.category_id));
+      } catch (error) {
+        console.error("Error loading review criteria:", error);
+      }
+    }
   };
 
   const loadAvailability = async () => {
@@ -49,16 +72,29 @@ const WorkerDetail = () => {
     const start = startOfMonth(selectedDate);
     const end = endOfMonth(selectedDate);
 
-    const { data } = await supabase
-      .from("availability_calendar")
-      .select("*")
-      .eq("worker_id", workerId)
-      .gte("date", format(start, "yyyy-MM-dd"))
-      .lte("date", format(end, "yyyy-MM-dd"));
+    // Recurring rules expanded with one-off exceptions applied
+    const { data } = await supabase.rpc("get_worker_availability", {
+      _worker_id: workerId!,
+      _start: format(start, "yyyy-MM-dd"),
+      _end: format(end, "yyyy-MM-dd"),
+    });
 
     setAvailability(data || []);
   };
 
+  const loadDaySlots = async () => {
+    if (!selectedDate) return;
+
+    const args = { _worker_id: workerId!, _date: format(selectedDate, "yyyy-MM-dd") };
+    const [{ data: busyData }, { data: windowData }] = await Promise.all([
+      supabase.rpc("get_worker_busy_slots", args),
+      supabase.rpc("get_worker_open_windows", args),
+    ]);
+
+    setBusySlots(parseSlotRows(busyData || []));
+    setOpenWindows(parseSlotRows(windowData || []));
+  };
+
   const getAvailabilityForDate = (date: Date) => {
     const dateStr = format(date, "yyyy-MM-dd");
     return availability.find((a) => a.date === dateStr);
@@ -101,6 +137,10 @@ const WorkerDetail = () => {
     );
   }
 
+  // Averages over published reviews, maintained on worker_profiles by triggers
+  const criteriaAverages = parseCriteriaRatings(worker.rating_criteria);
+  const ratedCriteria = criteria.filter((criterion) => criteriaAverages[criterion.key]);
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-background to-muted">
       <header className="bg-card border-b shadow-sm">
@@ -129,9 +169,18 @@ const WorkerDetail = () => {
                     <Badge variant="secondary" className="text-base px-3 py-1">
                       {worker.category?.name}
                     </Badge>
+                    {worker.verification_status === "verified" && (
+                      <Badge variant="default" className="gap-1">
+                        <ShieldCheck className="h-3 w-3" />
+                        Verified
+                      </Badge>
+                    )}
                     <div className="flex items-center">
                       <Star className="h-5 w-5 fill-warning text-warning mr-1" />
-                      <span className="font-semibold text-lg">{worker.rating || "New"}</span>
+                      <span className="font-semibold text-lg">{formatRating(worker)}</span>
+                      {worker.rating_count > 0 && (
+                        <span className="text-muted-foreground ml-1">({worker.rating_count})</span>
+                      )}
                     </div>
                     {worker.total_jobs > 0 && (
                       <span className="text-muted-foreground">
@@ -177,6 +226,21 @@ const WorkerDetail = () => {
                 </div>
               )}
 
+              {ratedCriteria.length > 0 && (
+                <div className="mb-6">
+                  <h2 className="text-xl font-semibold mb-3">Ratings by Criterion</h2>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+                    {ratedCriteria.map((criterion) => (
+                      <div key={criterion.id} className="flex items-center gap-2 text-sm">
+                        <span className="w-32 text-muted-foreground">{criterion.label}</span>
+                        <Progress value={(criteriaAverages[criterion.key] / 5) * 100} className="h-2 flex-1" />
+                        <span className="w-8 text-right font-medium">{criteriaAverages[criterion.key].toFixed(1)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="mb-4">
                 <h4 className="text-md font-semibold mb-2">Contact Information</h4>
                 <div className="space-y-2">
@@ -253,13 +317,30 @@ const WorkerDetail = () => {
                 </div>
               </div>
 
-              <Button 
-                className="w-full mt-6" 
-                size="lg"
-                onClick={() => navigate(`/booking/${workerId}`)}
-              >
-                Book Now
-              </Button>
+              {selectedDate && (
+                <div className="mt-6">
+                  <h3 className="font-semibold mb-2">{format(selectedDate, "EEEE, MMM d")}</h3>
+                  {openWindows.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">Not taking jobs on this day</p>
+                  ) : (
+                    <TimeSlotGrid date={selectedDate} busySlots={busySlots} openWindows={openWindows} />
+                  )}
+                </div>
+              )}
+
+              {blocked ? (
+                <p className="mt-6 text-sm text-muted-foreground">
+                  You can't book this worker because one of you has blocked the other.
+                </p>
+              ) : (
+                <Button 
+                  className="w-full mt-6" 
+                  size="lg"
+                  onClick={() => navigate(`/booking/${workerId}`)}
+                >
+                  Book Now
+                </Button>
+              )}
               
               <Button 
                 className="w-full mt-3" 
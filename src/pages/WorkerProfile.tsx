@@ -5,13 +5,24 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { LocationPicker } from "@/components/LocationPicker";
+import { WorkerDocumentsManager } from "@/components/WorkerDocumentsManager";
+import { BillingDetails } from "@/components/BillingDetails";
+import { EarningsStatement } from "@/components/EarningsStatement";
+import { AvailabilityRulesEditor } from "@/components/AvailabilityRulesEditor";
+import { AvailabilityWindowsEditor } from "@/components/AvailabilityWindowsEditor";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ArrowLeft, Star, MapPin, Phone, DollarSign, Briefcase, Calendar as CalendarIcon, Bell } from "lucide-react";
+import { ArrowLeft, Star, MapPin, Phone, DollarSign, Briefcase, Calendar as CalendarIcon, Bell, ShieldCheck } from "lucide-react";
 import { format, startOfMonth, endOfMonth } from "date-fns";
 import { toast } from "sonner";
 import { handleSupabaseError } from "@/lib/errorMessages";
+import { GeoPoint } from "@/lib/geo";
+import { getVerificationBadgeVariant, getVerificationLabel } from "@/lib/verification";
+import { formatRating } from "@/lib/ratings";
 
 const WorkerProfile = () => {
   const navigate = useNavigate();
@@ -22,6 +33,9 @@ const WorkerProfile = () => {
   const [bookings, setBookings] = useState<any[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
   const [availabilityStatus, setAvailabilityStatus] = useState("available");
+  const [address, setAddress] = useState("");
+  const [location, setLocation] = useState<GeoPoint | null>(null);
+  const [savingLocation, setSavingLocation] = useState(false);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -57,6 +71,10 @@ const WorkerProfile = () => {
       .single();
 
     setProfile(profileData);
+    setAddress(profileData?.address || "");
+    if (profileData?.location_lat != null && profileData?.location_lng != null) {
+      setLocation({ lat: Number(profileData.location_lat), lng: Number(profileData.location_lng) });
+    }
 
     if (profileData?.role === "worker") {
       const { data: workerData } = await supabase
@@ -80,12 +98,12 @@ const WorkerProfile = () => {
     const start = startOfMonth(selectedDate);
     const end = endOfMonth(selectedDate);
 
-    const { data } = await supabase
-      .from("availability_calendar")
-      .select("*")
-      .eq("worker_id", workerProfile.id)
-      .gte("date", format(start, "yyyy-MM-dd"))
-      .lte("date", format(end, "yyyy-MM-dd"));
+    // Recurring rules expanded with one-off exceptions applied
+    const { data } = await supabase.rpc("get_worker_availability", {
+      _worker_id: workerProfile.id,
+      _start: format(start, "yyyy-MM-dd"),
+      _end: format(end, "yyyy-MM-dd"),
+    });
 
     setAvailability(data || []);
   };
@@ -109,26 +127,30 @@ const WorkerProfile = () => {
     if (!workerProfile) return;
 
     const dateStr = format(date, "yyyy-MM-dd");
-    const existing = availability.find((a) => a.date === dateStr);
 
-    if (existing) {
+    if (availabilityStatus === "schedule") {
+      // Drop the one-off exception so the recurring rules apply again
       const { error } = await supabase
         .from("availability_calendar")
-        .update({ status: availabilityStatus })
-        .eq("id", existing.id);
+        .delete()
+        .eq("worker_id", workerProfile.id)
+        .eq("date", dateStr);
 
       if (error) {
-        toast.error(handleSupabaseError(error, "Failed to update availability"));
+        toast.error(handleSupabaseError(error, "Failed to clear exception"));
         return;
       }
     } else {
       const { error } = await supabase
         .from("availability_calendar")
-        .insert({
-          worker_id: workerProfile.id,
-          date: dateStr,
-          status: availabilityStatus,
-        });
+        .upsert(
+          {
+            worker_id: workerProfile.id,
+            date: dateStr,
+            status: availabilityStatus,
+          },
+          { onConflict: "worker_id,date" }
+        );
 
       if (error) {
         toast.error(handleSupabaseError(error, "Failed to set availability"));
@@ -140,6 +162,28 @@ const WorkerProfile = () => {
     loadAvailability();
   };
 
+  const handleSaveLocation = async () => {
+    if (!user) return;
+
+    setSavingLocation(true);
+    const { error } = await supabase
+      .from("profiles")
+      .update({
+        address: address.trim() || null,
+        location_lat: location?.lat ?? null,
+        location_lng: location?.lng ?? null,
+      })
+      .eq("id", user.id);
+    setSavingLocation(false);
+
+    if (error) {
+      toast.error(handleSupabaseError(error, "Failed to save location"));
+      return;
+    }
+
+    toast.success("Work location saved");
+  };
+
   const getAvailabilityForDate = (date: Date) => {
     const dateStr = format(date, "yyyy-MM-dd");
     return availability.find((a) => a.date === dateStr);
@@ -157,6 +201,7 @@ const WorkerProfile = () => {
     const variants: Record<string, any> = {
       pending: "secondary",
       confirmed: "default",
+      in_progress: "default",
       completed: "outline",
       cancelled: "destructive",
     };
@@ -202,6 +247,29 @@ const WorkerProfile = () => {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Worker Profile Info */}
           <div className="lg:col-span-2">
+            {workerProfile.verification_status !== "verified" && (
+              <Alert
+                variant={workerProfile.verification_status === "rejected" ? "destructive" : "default"}
+                className="mb-6"
+              >
+                <ShieldCheck className="h-4 w-4" />
+                <AlertTitle>Verification: {getVerificationLabel(workerProfile.verification_status)}</AlertTitle>
+                <AlertDescription>
+                  {workerProfile.verification_status === "pending" &&
+                    "Our team is reviewing your profile. Verified workers get a badge on their profile card."}
+                  {workerProfile.verification_status === "needs_info" &&
+                    "Please update your profile with the details below. It will go back into review automatically."}
+                  {workerProfile.verification_status === "rejected" &&
+                    "Your profile was not approved."}
+                  {workerProfile.verification_notes && (
+                    <p className="mt-2">
+                      <span className="font-medium">Reviewer notes:</span> {workerProfile.verification_notes}
+                    </p>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
             <Card className="p-8 shadow-card mb-6">
               <div className="flex items-start gap-6 mb-6">
                 <Avatar className="h-24 w-24">
@@ -215,9 +283,15 @@ const WorkerProfile = () => {
                     <Badge variant="secondary" className="text-base px-3 py-1">
                       {workerProfile.category?.name}
                     </Badge>
+                    <Badge variant={getVerificationBadgeVariant(workerProfile.verification_status)}>
+                      {getVerificationLabel(workerProfile.verification_status)}
+                    </Badge>
                     <div className="flex items-center">
                       <Star className="h-5 w-5 fill-warning text-warning mr-1" />
-                      <span className="font-semibold text-lg">{workerProfile.rating || "New"}</span>
+                      <span className="font-semibold text-lg">{formatRating(workerProfile)}</span>
+                      {workerProfile.rating_count > 0 && (
+                        <span className="text-muted-foreground ml-1">({workerProfile.rating_count})</span>
+                      )}
                     </div>
                     {workerProfile.total_jobs > 0 && (
                       <span className="text-muted-foreground">
@@ -286,6 +360,42 @@ const WorkerProfile = () => {
               </div>
             </Card>
 
+            {/* Work Location */}
+            <Card className="p-6 shadow-card mb-6">
+              <h2 className="text-2xl font-semibold mb-2 flex items-center gap-2">
+                <MapPin className="h-6 w-6" />
+                Work Location
+              </h2>
+              <p className="text-sm text-muted-foreground mb-4">
+                Hirers searching near a site will see how far away you are
+              </p>
+              <div className="space-y-3">
+                <Input
+                  placeholder="Address or area"
+                  value={address}
+                  onChange={(e) => setAddress(e.target.value)}
+                  maxLength={300}
+                />
+                <LocationPicker value={location} onChange={setLocation} />
+                <Button onClick={handleSaveLocation} disabled={savingLocation}>
+                  Save Location
+                </Button>
+              </div>
+            </Card>
+
+            {/* GST details for invoices */}
+            <BillingDetails userId={user.id} stateCode={profile?.gst_state_code ?? null} gstin={profile?.gstin ?? null} />
+
+            {/* Identity and Skill Documents */}
+            <WorkerDocumentsManager
+              workerId={workerProfile.id}
+              userId={user.id}
+              categoryName={workerProfile.category?.name}
+            />
+
+            {/* Monthly Earnings */}
+            <EarningsStatement workerId={workerProfile.id} workerName={profile?.full_name || ""} />
+
             {/* Bookings Section */}
             <Card className="p-6 shadow-card">
               <h2 className="text-2xl font-semibold mb-4 flex items-center gap-2">
@@ -336,7 +446,7 @@ const WorkerProfile = () => {
               </h2>
               
               <div className="mb-4">
-                <label className="text-sm font-medium mb-2 block">Set Status</label>
+                <label className="text-sm font-medium mb-2 block">One-off Exception</label>
                 <Select value={availabilityStatus} onValueChange={setAvailabilityStatus}>
                   <SelectTrigger>
                     <SelectValue />
@@ -345,6 +455,7 @@ const WorkerProfile = () => {
                     <SelectItem value="available">Available</SelectItem>
                     <SelectItem value="unavailable">Not Available</SelectItem>
                     <SelectItem value="holiday">Holiday</SelectItem>
+                    <SelectItem value="schedule">Follow Schedule</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -379,7 +490,7 @@ const WorkerProfile = () => {
               />
 
               <div className="mt-4 space-y-2 text-sm">
-                <p className="font-medium">Click a date to set availability</p>
+                <p className="font-medium">Click a date to override your recurring schedule</p>
                 <div className="flex items-center gap-2">
                   <div className="w-4 h-4 rounded bg-success"></div>
                   <span>Available</span>
@@ -393,6 +504,14 @@ const WorkerProfile = () => {
                   <span>Holiday</span>
                 </div>
               </div>
+
+              <div className="mt-6 pt-6 border-t">
+                <AvailabilityRulesEditor workerId={workerProfile.id} onChange={loadAvailability} />
+              </div>
+
+              <div className="mt-6 pt-6 border-t">
+                <AvailabilityWindowsEditor workerId={workerProfile.id} selectedDate={selectedDate} />
+              </div>
             </Card>
           </div>
         </div>
@@ -0,0 +1,173 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { EscrowBooking, isEscrowStep, runEscrowStep } from "./escrow.ts";
+import { createFakePaymentProvider } from "./fakeProvider.ts";
+import { setPaymentProvider } from "./provider.ts";
+import { PaymentEntryType, PaymentLedger, PaymentProvider, ProviderResult } from "./types.ts";
+
+interface LedgerEntry {
+  entryType: PaymentEntryType;
+  amount: number;
+  status: ProviderResult["status"];
+  reference: string | null;
+}
+
+// Keeps entries in memory and sums them the way booking_payment_balance does
+const createMemoryLedger = () => {
+  const entries: LedgerEntry[] = [];
+  const sumOf = (entryType: PaymentEntryType) =>
+    entries
+      .filter((entry) => entry.entryType === entryType && entry.status === "succeeded")
+      .reduce((total, entry) => total + entry.amount, 0);
+
+  const ledger: PaymentLedger = {
+    async record(_bookingId, entryType, amount, result) {
+      entries.push({ entryType, amount, status: result.status, reference: result.reference });
+    },
+    async getHeldAmount() {
+      return sumOf("authorization") - sumOf("capture") - sumOf("refund");
+    },
+    async getCapturedTotals() {
+      return { captured: sumOf("capture"), unpaid: sumOf("capture") - sumOf("payout") };
+    },
+    async getAuthorizationReference() {
+      const hold = entries.findLast((entry) => entry.entryType === "authorization" && entry.status === "succeeded");
+      return hold?.reference ?? "";
+    },
+  };
+
+  const summary = () => entries.map(({ entryType, amount, status }) => `${entryType} ${amount} ${status}`);
+  return { ledger, summary };
+};
+
+// Counts provider calls so tests can check that nothing reached the provider
+const useProvider = (provider: PaymentProvider) => {
+  const calls: string[] = [];
+  setPaymentProvider({
+    name: provider.name,
+    authorize: (params) => (calls.push("authorize"), provider.authorize(params)),
+    capture: (params) => (calls.push("capture"), provider.capture(params)),
+    refund: (params) => (calls.push("refund"), provider.refund(params)),
+    payout: (params) => (calls.push("payout"), provider.payout(params)),
+  });
+  return calls;
+};
+
+const booking = (overrides: Partial<EscrowBooking> = {}): EscrowBooking => ({
+  id: "booking-1",
+  worker_id: "worker-1",
+  status: "confirmed",
+  payment_status: "pending",
+  agreed_rate: 600,
+  cancellation_fee: null,
+  ...overrides,
+});
+
+Deno.test("hold authorizes the agreed rate", async () => {
+  useProvider(createFakePaymentProvider());
+  const { ledger, summary } = createMemoryLedger();
+
+  const result = await runEscrowStep(ledger, booking(), "hold");
+
+  assertEquals(result, { ok: true, failureReason: undefined });
+  assertEquals(summary(), ["authorization 600 succeeded"]);
+});
+
+Deno.test("a declined hold is recorded as failed", async () => {
+  useProvider(createFakePaymentProvider({ failOn: ["authorize"] }));
+  const { ledger, summary } = createMemoryLedger();
+
+  const result = await runEscrowStep(ledger, booking(), "hold");
+
+  assertEquals(result, { ok: false, failureReason: "Card declined" });
+  assertEquals(summary(), ["authorization 600 failed"]);
+});
+
+Deno.test("release captures the hold and pays it out", async () => {
+  useProvider(createFakePaymentProvider());
+  const { ledger, summary } = createMemoryLedger();
+  await runEscrowStep(ledger, booking(), "hold");
+
+  const result = await runEscrowStep(ledger, booking({ status: "completed", payment_status: "authorized" }), "release");
+
+  assertEquals(result.ok, true);
+  assertEquals(summary(), ["authorization 600 succeeded", "capture 600 succeeded", "payout 600 succeeded"]);
+});
+
+Deno.test("settle captures the fee, refunds the rest and pays out the fee", async () => {
+  useProvider(createFakePaymentProvider());
+  const { ledger, summary } = createMemoryLedger();
+  await runEscrowStep(ledger, booking(), "hold");
+
+  const cancelled = booking({ status: "cancelled", payment_status: "authorized", cancellation_fee: 200 });
+  const result = await runEscrowStep(ledger, cancelled, "settle");
+
+  assertEquals(result.ok, true);
+  assertEquals(summary(), [
+    "authorization 600 succeeded",
+    "capture 200 succeeded",
+    "refund 400 succeeded",
+    "payout 200 succeeded",
+  ]);
+});
+
+Deno.test("settle without a fee refunds the whole hold", async () => {
+  useProvider(createFakePaymentProvider());
+  const { ledger, summary } = createMemoryLedger();
+  await runEscrowStep(ledger, booking(), "hold");
+
+  await runEscrowStep(ledger, booking({ status: "cancelled", payment_status: "authorized" }), "settle");
+
+  assertEquals(summary(), ["authorization 600 succeeded", "refund 600 succeeded"]);
+});
+
+Deno.test("a failed payout is retried without capturing again", async () => {
+  const provider = createFakePaymentProvider();
+  useProvider(provider);
+  const { ledger, summary } = createMemoryLedger();
+  await runEscrowStep(ledger, booking(), "hold");
+
+  const completed = booking({ status: "completed", payment_status: "authorized" });
+  useProvider({ ...provider, payout: createFakePaymentProvider({ failOn: ["payout"] }).payout });
+  const failed = await runEscrowStep(ledger, completed, "release");
+  assertEquals(failed, { ok: false, failureReason: "Payout failed" });
+
+  const calls = useProvider(provider);
+  const retried = await runEscrowStep(ledger, completed, "release");
+
+  assertEquals(retried.ok, true);
+  assertEquals(calls, ["payout"]);
+  assertEquals(summary(), [
+    "authorization 600 succeeded",
+    "capture 600 succeeded",
+    "payout 600 failed",
+    "payout 600 succeeded",
+  ]);
+});
+
+Deno.test("steps that don't fit the booking never reach the provider", async () => {
+  const calls = useProvider(createFakePaymentProvider());
+  const { ledger, summary } = createMemoryLedger();
+
+  const wrongState: Array<[Partial<EscrowBooking>, "hold" | "release" | "settle"]> = [
+    [{ status: "pending" }, "hold"],
+    [{ payment_status: "authorized" }, "hold"],
+    [{ status: "completed", payment_status: "paid" }, "hold"],
+    [{ payment_status: "authorized" }, "release"],
+    [{ status: "completed", payment_status: "pending" }, "release"],
+    [{ payment_status: "authorized" }, "settle"],
+    [{ status: "cancelled", payment_status: "refunded" }, "settle"],
+  ];
+
+  for (const [overrides, step] of wrongState) {
+    const error = await assertRejects(() => runEscrowStep(ledger, booking(overrides), step));
+    assertEquals((error as { code: string }).code, "PY001");
+  }
+
+  assertEquals(calls, []);
+  assertEquals(summary(), []);
+});
+
+Deno.test("only the escrow steps themselves are accepted", () => {
+  assertEquals(["hold", "release", "settle"].map(isEscrowStep), [true, true, true]);
+  assertEquals(["constructor", "toString", "__proto__", "", null].map(isEscrowStep), [false, false, false, false, false]);
+});
@@ -0,0 +1,152 @@
+import { getPaymentProvider } from "./provider.ts";
+import { PaymentLedger, ProviderResult } from "./types.ts";
+
+export const PAYMENT_CURRENCY = "INR";
+
+export interface EscrowBooking {
+  id: string;
+  worker_id: string;
+  status: string;
+  payment_status: string | null;
+  agreed_rate: number;
+  cancellation_fee: number | null;
+}
+
+export interface EscrowResult {
+  ok: boolean;
+  failureReason?: string;
+}
+
+const toEscrowResult = (result: ProviderResult): EscrowResult => ({
+  ok: result.status === "succeeded",
+  failureReason: result.failureReason,
+});
+
+/**
+ * Holds the agreed rate on the hirer's payment method once the booking is confirmed
+ */
+const holdBookingFunds = async (ledger: PaymentLedger, booking: EscrowBooking): Promise<EscrowResult> => {
+  const amount = Number(booking.agreed_rate);
+  const result = await getPaymentProvider().authorize({
+    bookingId: booking.id,
+    amount,
+    currency: PAYMENT_CURRENCY,
+  });
+
+  await ledger.record(booking.id, "authorization", amount, result);
+  return toEscrowResult(result);
+};
+
+const captureFunds = async (ledger: PaymentLedger, bookingId: string, amount: number) => {
+  const result = await getPaymentProvider().capture({
+    authorizationReference: await ledger.getAuthorizationReference(bookingId),
+    amount,
+  });
+  await ledger.record(bookingId, "capture", amount, result);
+  return result;
+};
+
+// Pays out whatever was captured but not yet paid, so a failed payout can be retried
+const payOutCaptured = async (ledger: PaymentLedger, booking: EscrowBooking): Promise<EscrowResult> => {
+  const { unpaid: amount } = await ledger.getCapturedTotals(booking.id);
+  if (amount <= 0) return { ok: true };
+
+  const result = await getPaymentProvider().payout({
+    bookingId: booking.id,
+    workerId: booking.worker_id,
+    amount,
+    currency: PAYMENT_CURRENCY,
+  });
+  await ledger.record(booking.id, "payout", amount, result);
+  return toEscrowResult(result);
+};
+
+/**
+ * Captures the held funds and pays them out to the worker on completion
+ */
+const releaseBookingFunds = async (ledger: PaymentLedger, booking: EscrowBooking): Promise<EscrowResult> => {
+  const held = await ledger.getHeldAmount(booking.id);
+  if (held > 0) {
+    const capture = await captureFunds(ledger, booking.id, held);
+    if (capture.status !== "succeeded") return toEscrowResult(capture);
+  } else if ((await ledger.getCapturedTotals(booking.id)).unpaid <= 0) {
+    return { ok: false, failureReason: "No funds are held for this booking" };
+  }
+
+  return payOutCaptured(ledger, booking);
+};
+
+/**
+ * Returns everything still held to the hirer
+ */
+const refundHeldFunds = async (ledger: PaymentLedger, booking: EscrowBooking): Promise<EscrowResult> => {
+  const refundAmount = await ledger.getHeldAmount(booking.id);
+  if (refundAmount <= 0) return { ok: true };
+
+  const result = await getPaymentProvider().refund({
+    authorizationReference: await ledger.getAuthorizationReference(booking.id),
+    amount: refundAmount,
+  });
+
+  await ledger.record(booking.id, "refund", refundAmount, result);
+  return toEscrowResult(result);
+};
+
+/**
+ * Settles a cancelled booking: the cancellation fee is captured and paid to
+ * the worker, everything else still held goes back to the hirer
+ */
+const settleCancelledBooking = async (ledger: PaymentLedger, booking: EscrowBooking): Promise<EscrowResult> => {
+  const fee = Number(booking.cancellation_fee) || 0;
+  const { captured } = await ledger.getCapturedTotals(booking.id);
+  const feeToCapture = Math.min(Math.max(fee - captured, 0), await ledger.getHeldAmount(booking.id));
+
+  if (feeToCapture > 0) {
+    const capture = await captureFunds(ledger, booking.id, feeToCapture);
+    if (capture.status !== "succeeded") return toEscrowResult(capture);
+  }
+
+  const refund = await refundHeldFunds(ledger, booking);
+  if (!refund.ok) return refund;
+
+  return payOutCaptured(ledger, booking);
+};
+
+const ESCROW_STEPS = {
+  hold: holdBookingFunds,
+  release: releaseBookingFunds,
+  settle: settleCancelledBooking,
+};
+
+export type EscrowStep = keyof typeof ESCROW_STEPS;
+
+export const isEscrowStep = (step: unknown): step is EscrowStep =>
+  typeof step === "string" && Object.hasOwn(ESCROW_STEPS, step);
+
+// Same rules as public.begin_escrow_step, which checks them again with the booking locked
+const canRunStep = (step: EscrowStep, { status, payment_status }: EscrowBooking) => {
+  const paymentStatus = payment_status || "pending";
+  switch (step) {
+    case "hold":
+      return ["confirmed", "in_progress"].includes(status) && ["pending", "failed"].includes(paymentStatus);
+    case "release":
+      return status === "completed" && paymentStatus === "authorized";
+    case "settle":
+      return status === "cancelled" && paymentStatus === "authorized";
+  }
+};
+
+/**
+ * Runs one escrow step. Steps that don't fit the booking's state are
+ * rejected with PY001 before the provider is called.
+ */
+export const runEscrowStep = async (
+  ledger: PaymentLedger,
+  booking: EscrowBooking,
+  step: EscrowStep
+): Promise<EscrowResult> => {
+  if (!canRunStep(step, booking)) {
+    throw { message: `Payment step ${step} is not allowed for this booking`, code: "PY001" };
+  }
+  return ESCROW_STEPS[step](ledger, booking);
+};
@@ -0,0 +1,57 @@
+import { PaymentProvider, ProviderResult } from "./types.ts";
+
+interface FakeProviderOptions {
+  // Makes every call of the given kinds fail, to exercise error paths
+  failOn?: Array<keyof Omit<PaymentProvider, "name">>;
+}
+
+/**
+ * In-memory provider for local development and tests. Keeps just enough
+ * state to reject captures and refunds larger than the hold, for as long
+ * as the function instance lives.
+ */
+export const createFakePaymentProvider = (options: FakeProviderOptions = {}): PaymentProvider => {
+  const holds = new Map<string, number>();
+  let sequence = 0;
+
+  const nextReference = (prefix: string) => `fake_${prefix}_${Date.now()}_${++sequence}`;
+  const failed = (failureReason: string): ProviderResult => ({ status: "failed", reference: null, failureReason });
+  const shouldFail = (method: keyof Omit<PaymentProvider, "name">) => options.failOn?.includes(method) ?? false;
+
+  return {
+    name: "fake",
+
+    async authorize({ amount }) {
+      if (shouldFail("authorize")) return failed("Card declined");
+      const reference = nextReference("auth");
+      holds.set(reference, amount);
+      return { status: "succeeded", reference };
+    },
+
+    async capture({ authorizationReference, amount }) {
+      if (shouldFail("capture")) return failed("Capture failed");
+      const held = holds.get(authorizationReference);
+      // Holds made in an earlier session are not in memory; trust the ledger
+      if (held !== undefined) {
+        if (amount > held) return failed("Capture exceeds the held amount");
+        holds.set(authorizationReference, held - amount);
+      }
+      return { status: "succeeded", reference: nextReference("capture") };
+    },
+
+    async refund({ authorizationReference, amount }) {
+      if (shouldFail("refund")) return failed("Refund failed");
+      const held = holds.get(authorizationReference);
+      if (held !== undefined) {
+        if (amount > held) return failed("Refund exceeds the held amount");
+        holds.set(authorizationReference, held - amount);
+      }
+      return { status: "succeeded", reference: nextReference("refund") };
+    },
+
+    async payout() {
+      if (shouldFail("payout")) return failed("Payout failed");
+      return { status: "succeeded", reference: nextReference("payout") };
+    },
+  };
+};
@@ -0,0 +1,67 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isEscrowStep, runEscrowStep } from "./escrow.ts";
+import { createSupabaseLedger } from "./ledger.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+/**
+ * Runs one escrow step for a booking. The caller only names the booking and
+ * the step; amounts come from the booking and the ledger, and provider
+ * results are recorded here with the service role, never by the browser.
+ * begin_escrow_step checks the caller and the booking's state and reserves
+ * the booking before the provider is called, so a step the booking isn't
+ * ready for never moves money.
+ */
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+  });
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return json({ error: "Not signed in" }, 401);
+  }
+
+  const { bookingId, step } = (await req.json().catch(() => null)) ?? {};
+  if (typeof bookingId !== "string" || !isEscrowStep(step)) {
+    return json({ error: "Unknown escrow step", code: "22023" }, 400);
+  }
+
+  const db = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  const { data: booking, error: reserveError } = await db.rpc("begin_escrow_step", {
+    _booking_id: bookingId,
+    _step: step,
+    _user_id: user.id,
+  });
+
+  if (reserveError) {
+    const status = reserveError.code === "P0002" ? 404 : 400;
+    return json({ error: reserveError.message, code: reserveError.code }, status);
+  }
+
+  try {
+    const result = await runEscrowStep(createSupabaseLedger(db, user.id), booking, step);
+    return json(result);
+  } catch (error) {
+    // Ledger errors keep their PY00x codes so the client can explain them
+    const { message, code } = error as { message: string; code?: string };
+    return json({ error: message, code }, 400);
+  } finally {
+    await db.rpc("finish_escrow_step", { _booking_id: bookingId });
+  }
+});
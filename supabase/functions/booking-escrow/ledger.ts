@@ -0,0 +1,61 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPaymentProvider } from "./provider.ts";
+import { PaymentEntryType, PaymentLedger } from "./types.ts";
+
+/**
+ * The ledger in the database, written with the service role through
+ * record_payment_entry. createdBy is the user who triggered the step.
+ */
+export const createSupabaseLedger = (db: SupabaseClient, createdBy: string): PaymentLedger => ({
+  async record(bookingId, entryType, amount, result) {
+    const { error } = await db.rpc("record_payment_entry", {
+      _booking_id: bookingId,
+      _entry_type: entryType,
+      _amount: amount,
+      _status: result.status,
+      _provider: getPaymentProvider().name,
+      _provider_reference: result.reference ?? undefined,
+      _failure_reason: result.failureReason,
+      _created_by: createdBy,
+    });
+    if (error) throw error;
+  },
+
+  async getHeldAmount(bookingId) {
+    const { data, error } = await db.rpc("booking_payment_balance", { _booking_id: bookingId });
+    if (error) throw error;
+    return Number(data) || 0;
+  },
+
+  async getCapturedTotals(bookingId) {
+    const { data, error } = await db
+      .from("payments")
+      .select("entry_type, amount")
+      .eq("booking_id", bookingId)
+      .eq("status", "succeeded")
+      .in("entry_type", ["capture", "payout"]);
+
+    if (error) throw error;
+    const sumOf = (entryType: PaymentEntryType) =>
+      (data || [])
+        .filter((entry) => entry.entry_type === entryType)
+        .reduce((total, entry) => total + Number(entry.amount), 0);
+    const captured = sumOf("capture");
+    return { captured, unpaid: captured - sumOf("payout") };
+  },
+
+  async getAuthorizationReference(bookingId) {
+    const { data, error } = await db
+      .from("payments")
+      .select("provider_reference")
+      .eq("booking_id", bookingId)
+      .eq("entry_type", "authorization")
+      .eq("status", "succeeded")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.provider_reference ?? "";
+  },
+});
@@ -0,0 +1,30 @@
+import { createFakePaymentProvider } from "./fakeProvider.ts";
+import { PaymentProvider } from "./types.ts";
+
+const providers: Record<string, () => PaymentProvider> = {
+  fake: () => createFakePaymentProvider(),
+};
+
+let activeProvider: PaymentProvider | null = null;
+
+/**
+ * Provider selected by the PAYMENT_PROVIDER secret, defaulting to the fake one
+ */
+export const getPaymentProvider = () => {
+  if (!activeProvider) {
+    const name = Deno.env.get("PAYMENT_PROVIDER") || "fake";
+    const factory = providers[name];
+    if (!factory) {
+      throw new Error(`Unknown payment provider "${name}"`);
+    }
+    activeProvider = factory();
+  }
+  return activeProvider;
+};
+
+/**
+ * Swaps the provider, e.g. for a failing fake in tests
+ */
+export const setPaymentProvider = (provider: PaymentProvider) => {
+  activeProvider = provider;
+};
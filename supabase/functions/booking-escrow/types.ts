@@ -0,0 +1,37 @@
+export type PaymentEntryType = "authorization" | "capture" | "refund" | "payout";
+
+export interface ProviderResult {
+  status: "succeeded" | "failed";
+  // Provider-side id of the hold, charge, refund or transfer
+  reference: string | null;
+  failureReason?: string;
+}
+
+/**
+ * A payment gateway. Only this function talks to it, so amounts and
+ * results never come from the browser.
+ */
+export interface PaymentProvider {
+  name: string;
+  // Places a hold on the hirer's funds
+  authorize(params: { bookingId: string; amount: number; currency: string }): Promise<ProviderResult>;
+  // Charges some or all of a hold
+  capture(params: { authorizationReference: string; amount: number }): Promise<ProviderResult>;
+  // Releases a hold or returns captured funds to the hirer
+  refund(params: { authorizationReference: string; amount: number }): Promise<ProviderResult>;
+  // Transfers captured funds to the worker
+  payout(params: { bookingId: string; workerId: string; amount: number; currency: string }): Promise<ProviderResult>;
+}
+
+/**
+ * The payments ledger as the escrow steps see it. Sums only count entries
+ * that succeeded.
+ */
+export interface PaymentLedger {
+  record(bookingId: string, entryType: PaymentEntryType, amount: number, result: ProviderResult): Promise<void>;
+  // Authorized minus captured and refunded
+  getHeldAmount(bookingId: string): Promise<number>;
+  // Everything captured, and how much of that hasn't been paid out yet
+  getCapturedTotals(bookingId: string): Promise<{ captured: number; unpaid: number }>;
+  getAuthorizationReference(bookingId: string): Promise<string>;
+}
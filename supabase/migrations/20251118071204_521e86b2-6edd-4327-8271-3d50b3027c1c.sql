@@ -0,0 +1,51 @@
+-- Great-circle distance in kilometres between two coordinates (haversine formula)
+CREATE OR REPLACE FUNCTION public.haversine_km(
+  _lat1 DOUBLE PRECISION,
+  _lng1 DOUBLE PRECISION,
+  _lat2 DOUBLE PRECISION,
+  _lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT 6371 * 2 * asin(sqrt(
+    power(sin(radians(_lat2 - _lat1) / 2), 2) +
+    cos(radians(_lat1)) * cos(radians(_lat2)) * power(sin(radians(_lng2 - _lng1) / 2), 2)
+  ));
+$$;
+
+-- Index profile coordinates so the bounding-box pre-filter below stays cheap
+CREATE INDEX IF NOT EXISTS idx_profiles_location
+  ON public.profiles(location_lat, location_lng)
+  WHERE location_lat IS NOT NULL AND location_lng IS NOT NULL;
+
+-- Workers within a radius of a centre point, nearest first
+CREATE OR REPLACE FUNCTION public.nearby_workers(
+  _lat DOUBLE PRECISION,
+  _lng DOUBLE PRECISION,
+  _radius_km DOUBLE PRECISION,
+  _category_id UUID DEFAULT NULL
+)
+RETURNS TABLE (worker_id UUID, distance_km DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT wp.id, d.km
+  FROM public.worker_profiles wp
+  JOIN public.profiles p ON p.id = wp.user_id
+  CROSS JOIN LATERAL (
+    SELECT public.haversine_km(_lat, _lng, p.location_lat, p.location_lng) AS km
+  ) d
+  WHERE p.location_lat IS NOT NULL
+    AND p.location_lng IS NOT NULL
+    -- Bounding box (1° latitude ≈ 111 km) prunes rows before the exact distance check
+    AND p.location_lat BETWEEN _lat - _radius_km / 111.0 AND _lat + _radius_km / 111.0
+    AND p.location_lng BETWEEN _lng - _radius_km / (111.0 * GREATEST(cos(radians(_lat)), 0.01))
+                           AND _lng + _radius_km / (111.0 * GREATEST(cos(radians(_lat)), 0.01))
+    AND (_category_id IS NULL OR wp.category_id = _category_id)
+    AND d.km <= _radius_km
+  ORDER BY d.km;
+$$;
@@ -0,0 +1,171 @@
+-- Trigram matching gives typo-tolerant worker search
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Denormalised search document: name and category live in other tables
+ALTER TABLE public.worker_profiles
+  ADD COLUMN search_document TEXT NOT NULL DEFAULT '',
+  ADD COLUMN search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION public.refresh_worker_search_document()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _full_name TEXT;
+  _category TEXT;
+BEGIN
+  SELECT full_name INTO _full_name FROM public.profiles WHERE id = NEW.user_id;
+  SELECT name INTO _category FROM public.categories WHERE id = NEW.category_id;
+
+  NEW.search_document := concat_ws(' ', _full_name, _category, array_to_string(NEW.skills, ' '), NEW.bio);
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(_full_name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(NEW.skills, ' '), '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(_category, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(NEW.bio, '')), 'C');
+
+  RETURN NEW;
+END;
+$$;
+
+-- Listing search_document lets other triggers force a rebuild by touching it
+CREATE TRIGGER refresh_worker_profiles_search_document
+  BEFORE INSERT OR UPDATE OF user_id, category_id, skills, bio, search_document
+  ON public.worker_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_worker_search_document();
+
+-- Rebuild worker search documents when a name or category name changes
+CREATE OR REPLACE FUNCTION public.touch_worker_search_documents()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'profiles' THEN
+    UPDATE public.worker_profiles SET search_document = '' WHERE user_id = NEW.id;
+  ELSE
+    UPDATE public.worker_profiles SET search_document = '' WHERE category_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_worker_search_on_profile_name
+  AFTER UPDATE OF full_name ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.full_name IS DISTINCT FROM NEW.full_name)
+  EXECUTE FUNCTION public.touch_worker_search_documents();
+
+CREATE TRIGGER touch_worker_search_on_category_name
+  AFTER UPDATE OF name ON public.categories
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION public.touch_worker_search_documents();
+
+-- Backfill existing rows without bumping updated_at
+ALTER TABLE public.worker_profiles DISABLE TRIGGER update_worker_profiles_updated_at;
+UPDATE public.worker_profiles SET search_document = '';
+ALTER TABLE public.worker_profiles ENABLE TRIGGER update_worker_profiles_updated_at;
+
+CREATE INDEX idx_worker_profiles_search_vector
+  ON public.worker_profiles USING GIN (search_vector);
+CREATE INDEX idx_worker_profiles_search_document_trgm
+  ON public.worker_profiles USING GIN (search_document extensions.gin_trgm_ops);
+
+-- Ranked, paginated worker search with highlighted matches.
+-- Replaces nearby_workers: the optional centre point and radius are applied here too.
+CREATE OR REPLACE FUNCTION public.search_workers(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _lat DOUBLE PRECISION DEFAULT NULL,
+  _lng DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  worker_id UUID,
+  rank REAL,
+  distance_km DOUBLE PRECISION,
+  name_highlight TEXT,
+  bio_highlight TEXT,
+  matched_skills TEXT[],
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  _search TEXT := NULLIF(trim(_query), '');
+  _tsq tsquery;
+  _geo BOOLEAN := _lat IS NOT NULL AND _lng IS NOT NULL AND _radius_km IS NOT NULL;
+  _headline_opts TEXT := 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12';
+BEGIN
+  IF _search IS NOT NULL THEN
+    -- Prefix-match every word so results keep up while the hirer is still typing
+    SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+      INTO _tsq
+      FROM regexp_split_to_table(lower(_search), '[^[:alnum:]]+') AS word
+      WHERE word <> '';
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      wp.id,
+      wp.rating,
+      wp.skills,
+      wp.bio,
+      p.full_name,
+      CASE
+        WHEN _search IS NULL THEN 0::REAL
+        ELSE (COALESCE(ts_rank_cd(wp.search_vector, _tsq), 0) + word_similarity(_search, wp.search_document))::REAL
+      END AS score,
+      CASE
+        WHEN _geo THEN public.haversine_km(_lat, _lng, p.location_lat, p.location_lng)
+      END AS km
+    FROM public.worker_profiles wp
+    JOIN public.profiles p ON p.id = wp.user_id
+    WHERE (_category_id IS NULL OR wp.category_id = _category_id)
+      -- Full-text match, or a trigram word match to tolerate typos ("plumbr")
+      AND (_search IS NULL OR wp.search_vector @@ _tsq OR _search <% wp.search_document)
+      AND (NOT _geo OR (
+        p.location_lat BETWEEN _lat - _radius_km / 111.0 AND _lat + _radius_km / 111.0
+        AND p.location_lng BETWEEN _lng - _radius_km / (111.0 * GREATEST(cos(radians(_lat)), 0.01))
+                               AND _lng + _radius_km / (111.0 * GREATEST(cos(radians(_lat)), 0.01))
+      ))
+  )
+  SELECT
+    m.id,
+    m.score,
+    m.km,
+    CASE WHEN _tsq IS NOT NULL
+      THEN ts_headline('english', m.full_name, _tsq, _headline_opts || ', HighlightAll=true')
+      ELSE m.full_name
+    END,
+    CASE WHEN _tsq IS NOT NULL AND m.bio IS NOT NULL
+      THEN ts_headline('english', m.bio, _tsq, _headline_opts)
+      ELSE m.bio
+    END,
+    CASE WHEN _search IS NOT NULL
+      THEN ARRAY(
+        SELECT skill FROM unnest(m.skills) AS skill
+        WHERE to_tsvector('english', skill) @@ _tsq OR _search <% skill
+      )
+      ELSE ARRAY[]::TEXT[]
+    END,
+    count(*) OVER ()
+  FROM matches m
+  WHERE NOT _geo OR m.km <= _radius_km
+  ORDER BY m.score DESC, m.km ASC NULLS LAST, m.rating DESC NULLS LAST, m.id
+  LIMIT _limit
+  OFFSET _offset;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.nearby_workers(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, UUID);
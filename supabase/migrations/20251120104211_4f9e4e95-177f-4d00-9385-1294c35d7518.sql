@@ -0,0 +1,140 @@
+-- Whether a worker already has confirmed work on a date.
+-- SECURITY DEFINER because hirers cannot read other hirers' bookings.
+CREATE OR REPLACE FUNCTION public.is_worker_booked_on(_worker_id UUID, _date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.bookings
+    WHERE worker_id = _worker_id
+      AND booking_date = _date
+      AND status IN ('confirmed', 'in_progress')
+  );
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_worker_date
+  ON public.bookings(worker_id, booking_date);
+
+-- Recreate search_workers with the advanced filter parameters
+DROP FUNCTION IF EXISTS public.search_workers(TEXT, UUID, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_workers(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _lat DOUBLE PRECISION DEFAULT NULL,
+  _lng DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _min_hourly_rate NUMERIC DEFAULT NULL,
+  _max_hourly_rate NUMERIC DEFAULT NULL,
+  _min_daily_rate NUMERIC DEFAULT NULL,
+  _max_daily_rate NUMERIC DEFAULT NULL,
+  _min_experience INTEGER DEFAULT NULL,
+  _min_rating NUMERIC DEFAULT NULL,
+  _verification_status TEXT DEFAULT NULL,
+  _available_on DATE DEFAULT NULL,
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  worker_id UUID,
+  rank REAL,
+  distance_km DOUBLE PRECISION,
+  name_highlight TEXT,
+  bio_highlight TEXT,
+  matched_skills TEXT[],
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  _search TEXT := NULLIF(trim(_query), '');
+  _tsq tsquery;
+  _geo BOOLEAN := _lat IS NOT NULL AND _lng IS NOT NULL AND _radius_km IS NOT NULL;
+  _headline_opts TEXT := 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12';
+BEGIN
+  IF _search IS NOT NULL THEN
+    -- Prefix-match every word so results keep up while the hirer is still typing
+    SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+      INTO _tsq
+      FROM regexp_split_to_table(lower(_search), '[^[:alnum:]]+') AS word
+      WHERE word <> '';
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      wp.id,
+      wp.rating,
+      wp.skills,
+      wp.bio,
+      p.full_name,
+      CASE
+        WHEN _search IS NULL THEN 0::REAL
+        ELSE (COALESCE(ts_rank_cd(wp.search_vector, _tsq), 0) + word_similarity(_search, wp.search_document))::REAL
+      END AS score,
+      CASE
+        WHEN _geo THEN public.haversine_km(_lat, _lng, p.location_lat, p.location_lng)
+      END AS km
+    FROM public.worker_profiles wp
+    JOIN public.profiles p ON p.id = wp.user_id
+    WHERE (_category_id IS NULL OR wp.category_id = _category_id)
+      -- Full-text match, or a trigram word match to tolerate typos ("plumbr")
+      AND (_search IS NULL OR wp.search_vector @@ _tsq OR _search <% wp.search_document)
+      AND (NOT _geo OR (
+        p.location_lat BETWEEN _lat - _radius_km / 111.0 AND _lat + _radius_km / 111.0
+        AND p.location_lng BETWEEN _lng - _radius_km / (111.0 * GREATEST(cos(radians(_lat)), 0.01))
+                               AND _lng + _radius_km / (111.0 * GREATEST(cos(radians(_lat)), 0.01))
+      ))
+      AND (_min_hourly_rate IS NULL OR wp.hourly_rate >= _min_hourly_rate)
+      AND (_max_hourly_rate IS NULL OR wp.hourly_rate <= _max_hourly_rate)
+      AND (_min_daily_rate IS NULL OR wp.daily_rate >= _min_daily_rate)
+      AND (_max_daily_rate IS NULL OR wp.daily_rate <= _max_daily_rate)
+      AND (_min_experience IS NULL OR COALESCE(wp.experience_years, 0) >= _min_experience)
+      AND (_min_rating IS NULL OR COALESCE(wp.rating, 0) >= _min_rating)
+      AND (_verification_status IS NULL OR wp.verification_status = _verification_status)
+      -- Same rule as the booking form: no calendar entry means available
+      AND (_available_on IS NULL OR (
+        NOT EXISTS (
+          SELECT 1
+          FROM public.availability_calendar ac
+          WHERE ac.worker_id = wp.id
+            AND ac.date = _available_on
+            AND ac.status <> 'available'
+        )
+        AND NOT public.is_worker_booked_on(wp.id, _available_on)
+      ))
+  )
+  SELECT
+    m.id,
+    m.score,
+    m.km,
+    CASE WHEN _tsq IS NOT NULL
+      THEN ts_headline('english', m.full_name, _tsq, _headline_opts || ', HighlightAll=true')
+      ELSE m.full_name
+    END,
+    CASE WHEN _tsq IS NOT NULL AND m.bio IS NOT NULL
+      THEN ts_headline('english', m.bio, _tsq, _headline_opts)
+      ELSE m.bio
+    END,
+    CASE WHEN _search IS NOT NULL
+      THEN ARRAY(
+        SELECT skill FROM unnest(m.skills) AS skill
+        WHERE to_tsvector('english', skill) @@ _tsq OR _search <% skill
+      )
+      ELSE ARRAY[]::TEXT[]
+    END,
+    count(*) OVER ()
+  FROM matches m
+  WHERE NOT _geo OR m.km <= _radius_km
+  ORDER BY m.score DESC, m.km ASC NULLS LAST, m.rating DESC NULLS LAST, m.id
+  LIMIT _limit
+  OFFSET _offset;
+END;
+$$;
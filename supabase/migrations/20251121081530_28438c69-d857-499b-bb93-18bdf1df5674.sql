@@ -0,0 +1,4 @@
+-- Add the admin role. Kept in its own migration because a new enum value
+-- cannot be used in the same transaction that adds it.
+-- Admins are granted manually: INSERT INTO public.user_roles (user_id, role) VALUES ('<user id>', 'admin');
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'admin';
@@ -0,0 +1,82 @@
+-- get_user_role backs the profiles update policy, so it must keep returning the
+-- hirer/worker role even when the user has also been granted admin
+CREATE OR REPLACE FUNCTION public.get_user_role(_user_id UUID)
+RETURNS app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role
+  FROM public.user_roles
+  WHERE user_id = _user_id
+    AND role <> 'admin'
+  LIMIT 1;
+$$;
+
+-- Verification workflow columns
+UPDATE public.worker_profiles SET verification_status = 'pending' WHERE verification_status IS NULL;
+
+ALTER TABLE public.worker_profiles
+  ALTER COLUMN verification_status SET NOT NULL,
+  ADD COLUMN verification_notes TEXT,
+  ADD COLUMN verification_reviewed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN verification_reviewed_by UUID REFERENCES auth.users(id),
+  ADD CONSTRAINT worker_profiles_verification_status_check
+    CHECK (verification_status IN ('pending', 'verified', 'rejected', 'needs_info')),
+  -- Rejections and requests for more information must tell the worker why
+  ADD CONSTRAINT worker_profiles_verification_notes_check
+    CHECK (verification_status NOT IN ('rejected', 'needs_info') OR verification_notes IS NOT NULL);
+
+CREATE INDEX idx_worker_profiles_verification_status ON public.worker_profiles(verification_status);
+
+-- Only admins may change verification fields; workers keep editing the rest of their profile
+CREATE OR REPLACE FUNCTION public.protect_worker_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _is_admin BOOLEAN := auth.uid() IS NULL OR public.has_role(auth.uid(), 'admin');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NOT _is_admin THEN
+      NEW.verification_status := 'pending';
+      NEW.verification_notes := NULL;
+      NEW.verification_reviewed_at := NULL;
+      NEW.verification_reviewed_by := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.verification_status, NEW.verification_notes, NEW.verification_reviewed_at, NEW.verification_reviewed_by)
+     IS DISTINCT FROM
+     (OLD.verification_status, OLD.verification_notes, OLD.verification_reviewed_at, OLD.verification_reviewed_by) THEN
+    IF NOT _is_admin THEN
+      RAISE EXCEPTION 'Only admins can change verification status' USING ERRCODE = '42501';
+    END IF;
+    NEW.verification_reviewed_at := now();
+    NEW.verification_reviewed_by := auth.uid();
+  ELSIF OLD.verification_status = 'needs_info'
+    AND auth.uid() = OLD.user_id
+    AND (NEW.category_id, NEW.hourly_rate, NEW.daily_rate, NEW.experience_years, NEW.skills, NEW.bio)
+        IS DISTINCT FROM
+        (OLD.category_id, OLD.hourly_rate, OLD.daily_rate, OLD.experience_years, OLD.skills, OLD.bio) THEN
+    -- The worker responded to a request for more information: back into the queue
+    NEW.verification_status := 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_worker_profiles_verification
+  BEFORE INSERT OR UPDATE ON public.worker_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_worker_verification();
+
+CREATE POLICY "Admins can update worker profiles"
+  ON public.worker_profiles
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
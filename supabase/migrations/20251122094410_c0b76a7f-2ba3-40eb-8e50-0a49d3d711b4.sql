@@ -0,0 +1,136 @@
+-- Private storage bucket for worker identity, licensing and portfolio documents
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'worker-documents',
+  'worker-documents',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+);
+
+-- Files live under the owner's user id: <user_id>/<file>
+CREATE POLICY "Workers can upload own documents"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'worker-documents' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Owners and admins can view worker documents"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'worker-documents' AND (
+    auth.uid()::text = (storage.foldername(name))[1] OR
+    public.has_role(auth.uid(), 'admin')
+  )
+);
+
+CREATE POLICY "Workers can delete own documents"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'worker-documents' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Document metadata and per-document review state
+CREATE TABLE public.worker_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  worker_id UUID NOT NULL REFERENCES public.worker_profiles(id) ON DELETE CASCADE,
+  document_type TEXT NOT NULL CHECK (document_type IN ('id_proof', 'trade_certificate', 'license', 'portfolio_photo')),
+  file_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  file_type TEXT NOT NULL,
+  expires_on DATE,
+  verification_status TEXT NOT NULL DEFAULT 'pending' CHECK (verification_status IN ('pending', 'verified', 'rejected')),
+  review_notes TEXT,
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT worker_documents_review_notes_check
+    CHECK (verification_status <> 'rejected' OR review_notes IS NOT NULL)
+);
+
+ALTER TABLE public.worker_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners and admins can view worker documents"
+  ON public.worker_documents
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    EXISTS (
+      SELECT 1 FROM public.worker_profiles
+      WHERE worker_profiles.id = worker_documents.worker_id
+      AND worker_profiles.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Workers can add own documents"
+  ON public.worker_documents
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    verification_status = 'pending' AND
+    reviewed_by IS NULL AND
+    file_path LIKE auth.uid()::text || '/%' AND
+    EXISTS (
+      SELECT 1 FROM public.worker_profiles
+      WHERE worker_profiles.id = worker_documents.worker_id
+      AND worker_profiles.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Workers can delete own documents"
+  ON public.worker_documents
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.worker_profiles
+      WHERE worker_profiles.id = worker_documents.worker_id
+      AND worker_profiles.user_id = auth.uid()
+    )
+  );
+
+-- Only admins review documents; workers replace a document by uploading a new one
+CREATE POLICY "Admins can review worker documents"
+  ON public.worker_documents
+  FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Record who reviewed a document and when
+CREATE OR REPLACE FUNCTION public.stamp_worker_document_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.verification_status IS DISTINCT FROM OLD.verification_status
+     OR NEW.review_notes IS DISTINCT FROM OLD.review_notes THEN
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_worker_documents_review
+  BEFORE UPDATE ON public.worker_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stamp_worker_document_review();
+
+CREATE TRIGGER update_worker_documents_updated_at
+  BEFORE UPDATE ON public.worker_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_worker_documents_worker_id ON public.worker_documents(worker_id);
+CREATE INDEX idx_worker_documents_status ON public.worker_documents(verification_status);
@@ -0,0 +1,80 @@
+-- Booking status state machine
+--   pending     -> confirmed    worker accepts
+--   pending     -> cancelled    hirer cancels or worker declines
+--   confirmed   -> in_progress  worker starts the job
+--   confirmed   -> cancelled    either party
+--   in_progress -> completed    worker finishes the job
+-- completed and cancelled are final.
+CREATE OR REPLACE FUNCTION public.booking_transition_roles(_from TEXT, _to TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _from = 'pending' AND _to = 'confirmed' THEN ARRAY['worker']
+    WHEN _from = 'pending' AND _to = 'cancelled' THEN ARRAY['hirer', 'worker']
+    WHEN _from = 'confirmed' AND _to = 'in_progress' THEN ARRAY['worker']
+    WHEN _from = 'confirmed' AND _to = 'cancelled' THEN ARRAY['hirer', 'worker']
+    WHEN _from = 'in_progress' AND _to = 'completed' THEN ARRAY['worker']
+  END;
+$$;
+
+-- Rejects illegal status changes:
+--   BK001  the transition does not exist from the current state
+--   BK002  the transition exists but the caller's role may not perform it
+CREATE OR REPLACE FUNCTION public.enforce_booking_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _allowed TEXT[];
+  _actor TEXT;
+BEGIN
+  -- Service role and maintenance scripts are not bound by the state machine
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'New bookings must start as pending'
+        USING ERRCODE = 'BK001', DETAIL = format('Requested status: %s', NEW.status);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  _allowed := public.booking_transition_roles(OLD.status, NEW.status);
+  IF _allowed IS NULL THEN
+    RAISE EXCEPTION 'Booking cannot move from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'BK001';
+  END IF;
+
+  IF auth.uid() = OLD.hirer_id THEN
+    _actor := 'hirer';
+  ELSIF EXISTS (
+    SELECT 1 FROM public.worker_profiles
+    WHERE id = OLD.worker_id AND user_id = auth.uid()
+  ) THEN
+    _actor := 'worker';
+  END IF;
+
+  IF _actor IS NULL OR NOT _actor = ANY(_allowed) THEN
+    RAISE EXCEPTION 'Only the % can move a booking from % to %', array_to_string(_allowed, ' or '), OLD.status, NEW.status
+      USING ERRCODE = 'BK002';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_bookings_status_transition
+  BEFORE INSERT OR UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_booking_status_transition();
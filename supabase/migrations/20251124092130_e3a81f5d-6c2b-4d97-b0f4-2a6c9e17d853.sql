@@ -0,0 +1,98 @@
+-- Append-only audit trail of booking changes
+CREATE TABLE public.booking_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  field TEXT NOT NULL CHECK (field IN ('created', 'status', 'agreed_rate', 'booking_date', 'start_time', 'payment_status')),
+  old_value TEXT,
+  new_value TEXT,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.booking_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the bookings trigger, so there are no write policies
+CREATE POLICY "Booking participants can view booking events"
+  ON public.booking_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    EXISTS (
+      SELECT 1 FROM public.bookings
+      WHERE bookings.id = booking_events.booking_id
+      AND (bookings.hirer_id = auth.uid() OR
+           bookings.worker_id IN (SELECT id FROM public.worker_profiles WHERE user_id = auth.uid()))
+    )
+  );
+
+CREATE INDEX idx_booking_events_booking_id ON public.booking_events(booking_id, created_at);
+
+-- Records one event per tracked field that changed. The optional reason is
+-- passed through the transaction-local app.booking_change_reason setting.
+CREATE OR REPLACE FUNCTION public.log_booking_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reason TEXT := NULLIF(current_setting('app.booking_change_reason', true), '');
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.booking_events (booking_id, actor_id, field, new_value, reason)
+    VALUES (NEW.id, auth.uid(), 'created', NEW.status, _reason);
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.booking_events (booking_id, actor_id, field, old_value, new_value, reason)
+  SELECT NEW.id, auth.uid(), changes.field, changes.old_value, changes.new_value, _reason
+  FROM (VALUES
+    ('status', OLD.status, NEW.status),
+    ('agreed_rate', OLD.agreed_rate::TEXT, NEW.agreed_rate::TEXT),
+    ('booking_date', OLD.booking_date::TEXT, NEW.booking_date::TEXT),
+    ('start_time', OLD.start_time::TEXT, NEW.start_time::TEXT),
+    ('payment_status', OLD.payment_status, NEW.payment_status)
+  ) AS changes(field, old_value, new_value)
+  WHERE changes.old_value IS DISTINCT FROM changes.new_value;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_bookings_events
+  AFTER INSERT OR UPDATE ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_booking_events();
+
+-- Status change with an optional reason recorded in the audit trail. Runs as
+-- the caller so RLS and the status transition rules still apply.
+CREATE OR REPLACE FUNCTION public.update_booking_status(_booking_id UUID, _status TEXT, _reason TEXT DEFAULT NULL)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+BEGIN
+  PERFORM set_config('app.booking_change_reason', COALESCE(btrim(_reason), ''), true);
+
+  UPDATE public.bookings
+  SET status = _status
+  WHERE id = _booking_id
+  RETURNING * INTO _booking;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('app.booking_change_reason', '', true);
+  RETURN _booking;
+END;
+$$;
+
+-- Seed history for bookings created before the audit trail existed
+INSERT INTO public.booking_events (booking_id, actor_id, field, new_value, created_at)
+SELECT id, hirer_id, 'created', status, created_at
+FROM public.bookings;
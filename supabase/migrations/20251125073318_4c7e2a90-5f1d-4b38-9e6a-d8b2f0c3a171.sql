@@ -0,0 +1,68 @@
+-- Needed for the worker_id equality part of the exclusion constraint
+CREATE EXTENSION IF NOT EXISTS btree_gist WITH SCHEMA extensions;
+
+-- Time range a booking occupies. Without both a start time and a duration the
+-- booking is treated as taking the whole day.
+ALTER TABLE public.bookings
+  ADD COLUMN time_slot TSRANGE GENERATED ALWAYS AS (
+    CASE
+      WHEN start_time IS NULL OR duration_hours IS NULL
+        THEN tsrange(booking_date::TIMESTAMP, (booking_date + 1)::TIMESTAMP)
+      ELSE tsrange(
+        booking_date + start_time,
+        booking_date + start_time + duration_hours::DOUBLE PRECISION * INTERVAL '1 hour'
+      )
+    END
+  ) STORED;
+
+-- A worker can never hold two accepted bookings that overlap
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_no_worker_overlap
+  EXCLUDE USING gist (worker_id WITH =, time_slot WITH &&)
+  WHERE (status IN ('confirmed', 'in_progress'));
+
+-- Requests are still allowed to compete for a free slot, but not for one that
+-- is already taken by an accepted booking
+CREATE OR REPLACE FUNCTION public.reject_overlapping_booking_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'pending' AND EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE worker_id = NEW.worker_id
+      AND id <> NEW.id
+      AND status IN ('confirmed', 'in_progress')
+      AND time_slot && NEW.time_slot
+  ) THEN
+    RAISE EXCEPTION 'Worker already has a booking during this time'
+      USING ERRCODE = '23P01', CONSTRAINT = 'bookings_no_worker_overlap';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- AFTER so the generated time_slot is available; raising still aborts the write
+CREATE CONSTRAINT TRIGGER reject_overlapping_bookings_request
+  AFTER INSERT OR UPDATE OF booking_date, start_time, duration_hours ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reject_overlapping_booking_request();
+
+-- Taken slots for a worker on a given day. Hirers cannot read other hirers'
+-- bookings, so this only exposes the times.
+CREATE OR REPLACE FUNCTION public.get_worker_busy_slots(_worker_id UUID, _date DATE)
+RETURNS TABLE (starts_at TIMESTAMP, ends_at TIMESTAMP)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lower(time_slot), upper(time_slot)
+  FROM public.bookings
+  WHERE worker_id = _worker_id
+    AND status IN ('confirmed', 'in_progress')
+    AND time_slot && tsrange(_date::TIMESTAMP, (_date + 1)::TIMESTAMP)
+  ORDER BY lower(time_slot);
+$$;
@@ -0,0 +1,228 @@
+-- Recurring availability. Weekly patterns and date ranges describe the
+-- default schedule; availability_calendar rows remain one-off exceptions.
+CREATE TABLE public.availability_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  worker_id UUID NOT NULL REFERENCES public.worker_profiles(id) ON DELETE CASCADE,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('weekly', 'date_range')),
+  -- Days of the week as 0 (Sunday) to 6 (Saturday), for weekly rules
+  weekdays SMALLINT[],
+  -- Optional bounds for weekly rules, required for date ranges
+  start_date DATE,
+  end_date DATE,
+  status TEXT NOT NULL CHECK (status IN ('available', 'unavailable', 'holiday')),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT availability_rules_weekly_check CHECK (
+    rule_type <> 'weekly' OR (
+      cardinality(weekdays) > 0 AND weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]
+    )
+  ),
+  CONSTRAINT availability_rules_date_range_check CHECK (
+    rule_type <> 'date_range' OR (start_date IS NOT NULL AND end_date IS NOT NULL)
+  ),
+  CONSTRAINT availability_rules_dates_check CHECK (
+    start_date IS NULL OR end_date IS NULL OR start_date <= end_date
+  )
+);
+
+ALTER TABLE public.availability_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view availability rules"
+  ON public.availability_rules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Workers can manage own availability rules"
+  ON public.availability_rules
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.worker_profiles
+    WHERE worker_profiles.id = availability_rules.worker_id
+    AND worker_profiles.user_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.worker_profiles
+    WHERE worker_profiles.id = availability_rules.worker_id
+    AND worker_profiles.user_id = auth.uid()
+  ));
+
+CREATE TRIGGER update_availability_rules_updated_at
+  BEFORE UPDATE ON public.availability_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_availability_rules_worker_id ON public.availability_rules(worker_id);
+
+-- Effective availability for each day in a range. Precedence:
+--   1. a one-off availability_calendar row for that date
+--   2. a date_range rule covering the date
+--   3. a weekly rule for that weekday (within its optional bounds)
+--   4. available
+-- When rules of the same kind overlap, holiday beats unavailable beats available.
+CREATE OR REPLACE FUNCTION public.get_worker_availability(_worker_id UUID, _start DATE, _end DATE)
+RETURNS TABLE (date DATE, status TEXT, source TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    d.day::DATE,
+    COALESCE(exception.status, date_range.status, weekly.status, 'available'),
+    CASE
+      WHEN exception.status IS NOT NULL THEN 'exception'
+      WHEN date_range.status IS NOT NULL THEN 'date_range'
+      WHEN weekly.status IS NOT NULL THEN 'weekly'
+      ELSE 'default'
+    END
+  FROM generate_series(_start, LEAST(_end, _start + 366), INTERVAL '1 day') AS d(day)
+  LEFT JOIN LATERAL (
+    SELECT ac.status
+    FROM public.availability_calendar ac
+    WHERE ac.worker_id = _worker_id AND ac.date = d.day::DATE
+  ) exception ON true
+  LEFT JOIN LATERAL (
+    SELECT r.status
+    FROM public.availability_rules r
+    WHERE r.worker_id = _worker_id
+      AND r.rule_type = 'date_range'
+      AND d.day::DATE BETWEEN r.start_date AND r.end_date
+    ORDER BY array_position(ARRAY['holiday', 'unavailable', 'available'], r.status)
+    LIMIT 1
+  ) date_range ON true
+  LEFT JOIN LATERAL (
+    SELECT r.status
+    FROM public.availability_rules r
+    WHERE r.worker_id = _worker_id
+      AND r.rule_type = 'weekly'
+      AND extract(dow FROM d.day)::SMALLINT = ANY(r.weekdays)
+      AND (r.start_date IS NULL OR d.day::DATE >= r.start_date)
+      AND (r.end_date IS NULL OR d.day::DATE <= r.end_date)
+    ORDER BY array_position(ARRAY['holiday', 'unavailable', 'available'], r.status)
+    LIMIT 1
+  ) weekly ON true
+  ORDER BY d.day;
+$$;
+
+CREATE OR REPLACE FUNCTION public.worker_day_status(_worker_id UUID, _date DATE)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT status FROM public.get_worker_availability(_worker_id, _date, _date);
+$$;
+
+-- Search availability filter now honours recurring rules
+CREATE OR REPLACE FUNCTION public.search_workers(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _lat DOUBLE PRECISION DEFAULT NULL,
+  _lng DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _min_hourly_rate NUMERIC DEFAULT NULL,
+  _max_hourly_rate NUMERIC DEFAULT NULL,
+  _min_daily_rate NUMERIC DEFAULT NULL,
+  _max_daily_rate NUMERIC DEFAULT NULL,
+  _min_experience INTEGER DEFAULT NULL,
+  _min_rating NUMERIC DEFAULT NULL,
+  _verification_status TEXT DEFAULT NULL,
+  _available_on DATE DEFAULT NULL,
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  worker_id UUID,
+  rank REAL,
+  distance_km DOUBLE PRECISION,
+  name_highlight TEXT,
+  bio_highlight TEXT,
+  matched_skills TEXT[],
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  _search TEXT := NULLIF(trim(_query), '');
+  _tsq tsquery;
+  _geo BOOLEAN := _lat IS NOT NULL AND _lng IS NOT NULL AND _radius_km IS NOT NULL;
+  _headline_opts TEXT := 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12';
+BEGIN
+  IF _search IS NOT NULL THEN
+    -- Prefix-match every word so results keep up while the hirer is still typing
+    SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+      INTO _tsq
+      FROM regexp_split_to_table(lower(_search), '[^[:alnum:]]+') AS word
+      WHERE word <> '';
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      wp.id,
+      wp.rating,
+      wp.skills,
+      wp.bio,
+      p.full_name,
+      CASE
+        WHEN _search IS NULL THEN 0::REAL
+        ELSE (COALESCE(ts_rank_cd(wp.search_vector, _tsq), 0) + word_similarity(_search, wp.search_document))::REAL
+      END AS score,
+      CASE
+        WHEN _geo THEN public.haversine_km(_lat, _lng, p.location_lat, p.location_lng)
+      END AS km
+    FROM public.worker_profiles wp
+    JOIN public.profiles p ON p.id = wp.user_id
+    WHERE (_category_id IS NULL OR wp.category_id = _category_id)
+      -- Full-text match, or a trigram word match to tolerate typos ("plumbr")
+      AND (_search IS NULL OR wp.search_vector @@ _tsq OR _search <% wp.search_document)
+      AND (NOT _geo OR (
+        p.location_lat BETWEEN _lat - _radius_km / 111.0 AND _lat + _radius_km / 111.0
+        AND p.location_lng BETWEEN _lng - _radius_km / (111.0 * GREATEST(cos(radians(_lat)), 0.01))
+                               AND _lng + _radius_km / (111.0 * GREATEST(cos(radians(_lat)), 0.01))
+      ))
+      AND (_min_hourly_rate IS NULL OR wp.hourly_rate >= _min_hourly_rate)
+      AND (_max_hourly_rate IS NULL OR wp.hourly_rate <= _max_hourly_rate)
+      AND (_min_daily_rate IS NULL OR wp.daily_rate >= _min_daily_rate)
+      AND (_max_daily_rate IS NULL OR wp.daily_rate <= _max_daily_rate)
+      AND (_min_experience IS NULL OR COALESCE(wp.experience_years, 0) >= _min_experience)
+      AND (_min_rating IS NULL OR COALESCE(wp.rating, 0) >= _min_rating)
+      AND (_verification_status IS NULL OR wp.verification_status = _verification_status)
+      -- Same rules as the booking form, including recurring availability
+      AND (_available_on IS NULL OR (
+        public.worker_day_status(wp.id, _available_on) = 'available'
+        AND NOT public.is_worker_booked_on(wp.id, _available_on)
+      ))
+  )
+  SELECT
+    m.id,
+    m.score,
+    m.km,
+    CASE WHEN _tsq IS NOT NULL
+      THEN ts_headline('english', m.full_name, _tsq, _headline_opts || ', HighlightAll=true')
+      ELSE m.full_name
+    END,
+    CASE WHEN _tsq IS NOT NULL AND m.bio IS NOT NULL
+      THEN ts_headline('english', m.bio, _tsq, _headline_opts)
+      ELSE m.bio
+    END,
+    CASE WHEN _search IS NOT NULL
+      THEN ARRAY(
+        SELECT skill FROM unnest(m.skills) AS skill
+        WHERE to_tsvector('english', skill) @@ _tsq OR _search <% skill
+      )
+      ELSE ARRAY[]::TEXT[]
+    END,
+    count(*) OVER ()
+  FROM matches m
+  WHERE NOT _geo OR m.km <= _radius_km
+  ORDER BY m.score DESC, m.km ASC NULLS LAST, m.rating DESC NULLS LAST, m.id
+  LIMIT _limit
+  OFFSET _offset;
+END;
+$$;
@@ -0,0 +1,114 @@
+-- Hours a worker takes jobs. Weekly windows repeat every week; dated windows
+-- replace the weekly ones for that date. A day with no windows at all is open
+-- for the whole day, as long as its availability status is 'available'.
+CREATE TABLE public.availability_windows (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  worker_id UUID NOT NULL REFERENCES public.worker_profiles(id) ON DELETE CASCADE,
+  weekday SMALLINT CHECK (weekday BETWEEN 0 AND 6),
+  date DATE,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT availability_windows_day_check CHECK ((weekday IS NULL) <> (date IS NULL)),
+  CONSTRAINT availability_windows_times_check CHECK (start_time < end_time)
+);
+
+ALTER TABLE public.availability_windows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view availability windows"
+  ON public.availability_windows
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Workers can manage own availability windows"
+  ON public.availability_windows
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.worker_profiles
+    WHERE worker_profiles.id = availability_windows.worker_id
+    AND worker_profiles.user_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.worker_profiles
+    WHERE worker_profiles.id = availability_windows.worker_id
+    AND worker_profiles.user_id = auth.uid()
+  ));
+
+CREATE INDEX idx_availability_windows_worker_id ON public.availability_windows(worker_id);
+
+-- Open time windows for a worker on a date. Taken slots are not subtracted;
+-- see get_worker_busy_slots.
+CREATE OR REPLACE FUNCTION public.get_worker_open_windows(_worker_id UUID, _date DATE)
+RETURNS TABLE (starts_at TIMESTAMP, ends_at TIMESTAMP)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF public.worker_day_status(_worker_id, _date) <> 'available' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT _date + w.start_time, _date + w.end_time
+  FROM public.availability_windows w
+  WHERE w.worker_id = _worker_id AND w.date = _date
+  ORDER BY w.start_time;
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT _date + w.start_time, _date + w.end_time
+  FROM public.availability_windows w
+  WHERE w.worker_id = _worker_id AND w.weekday = extract(dow FROM _date)::SMALLINT
+  ORDER BY w.start_time;
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT _date::TIMESTAMP, (_date + 1)::TIMESTAMP;
+END;
+$$;
+
+-- Booking requests must fit inside a single open window:
+--   BK003  the worker is not available on that date
+--   BK004  the requested time is outside the worker's open windows
+CREATE OR REPLACE FUNCTION public.check_booking_fits_availability()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _has_windows BOOLEAN := false;
+  _fits BOOLEAN := false;
+BEGIN
+  IF auth.uid() IS NULL OR NEW.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT count(*) > 0, COALESCE(bool_or(tsrange(w.starts_at, w.ends_at) @> NEW.time_slot), false)
+    INTO _has_windows, _fits
+    FROM public.get_worker_open_windows(NEW.worker_id, NEW.booking_date) w;
+
+  IF NOT _has_windows THEN
+    RAISE EXCEPTION 'Worker is not available on %', NEW.booking_date
+      USING ERRCODE = 'BK003';
+  END IF;
+
+  IF NOT _fits THEN
+    RAISE EXCEPTION 'Requested time is outside the worker''s open hours'
+      USING ERRCODE = 'BK004';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- AFTER so the generated time_slot is available; raising still aborts the write
+CREATE CONSTRAINT TRIGGER check_bookings_fit_availability
+  AFTER INSERT OR UPDATE OF booking_date, start_time, duration_hours ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_booking_fits_availability();
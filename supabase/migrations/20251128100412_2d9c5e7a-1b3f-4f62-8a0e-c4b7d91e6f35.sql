@@ -0,0 +1,176 @@
+-- Escrow lifecycle on the booking: funds are authorized (held) when the
+-- booking is confirmed, captured and paid out on completion, refunded on
+-- cancellation
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_payment_status_check;
+ALTER TABLE public.bookings
+  ADD CONSTRAINT bookings_payment_status_check
+  CHECK (payment_status IN ('pending', 'authorized', 'paid', 'refunded', 'failed'));
+
+-- Append-only payment ledger
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('authorization', 'capture', 'refund', 'payout')),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount >= 0),
+  currency TEXT NOT NULL DEFAULT 'INR',
+  status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed')),
+  provider TEXT NOT NULL,
+  provider_reference TEXT,
+  failure_reason TEXT,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written through record_payment_entry
+CREATE POLICY "Booking participants can view payments"
+  ON public.payments
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    EXISTS (
+      SELECT 1 FROM public.bookings
+      WHERE bookings.id = payments.booking_id
+      AND (bookings.hirer_id = auth.uid() OR
+           bookings.worker_id IN (SELECT id FROM public.worker_profiles WHERE user_id = auth.uid()))
+    )
+  );
+
+CREATE INDEX idx_payments_booking_id ON public.payments(booking_id, created_at);
+
+-- Amount still held on the hirer's payment method for a booking
+CREATE OR REPLACE FUNCTION public.booking_payment_balance(_booking_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(sum(
+    CASE entry_type
+      WHEN 'authorization' THEN amount
+      WHEN 'capture' THEN -amount
+      WHEN 'refund' THEN -amount
+      ELSE 0
+    END
+  ), 0)
+  FROM public.payments
+  WHERE booking_id = _booking_id AND status = 'succeeded';
+$$;
+
+-- Records a provider result in the ledger and moves bookings.payment_status.
+-- Each entry type is only accepted from the matching booking state:
+--   authorization  booking confirmed or in progress, nothing held yet
+--   capture        booking completed, funds held
+--   payout         booking completed, funds captured
+--   refund         booking cancelled, up to the amount held
+-- Failed provider calls are recorded too but leave the held balance alone.
+CREATE OR REPLACE FUNCTION public.record_payment_entry(
+  _booking_id UUID,
+  _entry_type TEXT,
+  _amount NUMERIC,
+  _status TEXT,
+  _provider TEXT,
+  _provider_reference TEXT DEFAULT NULL,
+  _failure_reason TEXT DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+  _balance NUMERIC;
+  _entry public.payments;
+  _next_status TEXT;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    _booking.hirer_id = auth.uid() OR
+    EXISTS (SELECT 1 FROM public.worker_profiles WHERE id = _booking.worker_id AND user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  _balance := public.booking_payment_balance(_booking_id);
+
+  IF _entry_type = 'authorization' THEN
+    IF _booking.status NOT IN ('confirmed', 'in_progress') OR _booking.payment_status NOT IN ('pending', 'failed') THEN
+      RAISE EXCEPTION 'Funds can only be held once a booking is confirmed' USING ERRCODE = 'PY001';
+    END IF;
+    _next_status := 'authorized';
+  ELSIF _entry_type = 'capture' THEN
+    IF _booking.status <> 'completed' OR _booking.payment_status <> 'authorized' THEN
+      RAISE EXCEPTION 'Funds can only be captured for a completed booking with a hold' USING ERRCODE = 'PY001';
+    END IF;
+    IF _amount > _balance THEN
+      RAISE EXCEPTION 'Capture exceeds the held amount' USING ERRCODE = 'PY002';
+    END IF;
+    _next_status := 'authorized';
+  ELSIF _entry_type = 'payout' THEN
+    IF _booking.status <> 'completed' OR _booking.payment_status <> 'authorized' THEN
+      RAISE EXCEPTION 'Payouts require a completed booking with captured funds' USING ERRCODE = 'PY001';
+    END IF;
+    IF _amount > (
+      SELECT COALESCE(sum(CASE entry_type WHEN 'capture' THEN amount ELSE -amount END), 0)
+      FROM public.payments
+      WHERE booking_id = _booking_id AND status = 'succeeded' AND entry_type IN ('capture', 'payout')
+    ) THEN
+      RAISE EXCEPTION 'Payout exceeds the captured amount' USING ERRCODE = 'PY002';
+    END IF;
+    _next_status := 'paid';
+  ELSIF _entry_type = 'refund' THEN
+    IF _booking.status <> 'cancelled' OR _booking.payment_status <> 'authorized' THEN
+      RAISE EXCEPTION 'Refunds are only issued for cancelled bookings with funds held' USING ERRCODE = 'PY001';
+    END IF;
+    IF _amount > _balance THEN
+      RAISE EXCEPTION 'Refund exceeds the held amount' USING ERRCODE = 'PY002';
+    END IF;
+    _next_status := 'refunded';
+  ELSE
+    RAISE EXCEPTION 'Unknown payment entry type %', _entry_type USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.payments (
+    booking_id, entry_type, amount, status, provider, provider_reference, failure_reason, created_by
+  )
+  VALUES (
+    _booking_id, _entry_type, _amount, _status, _provider, _provider_reference, _failure_reason, auth.uid()
+  )
+  RETURNING * INTO _entry;
+
+  IF _status = 'succeeded' THEN
+    UPDATE public.bookings SET payment_status = _next_status WHERE id = _booking_id;
+  ELSIF _entry_type = 'authorization' THEN
+    UPDATE public.bookings SET payment_status = 'failed' WHERE id = _booking_id;
+  END IF;
+
+  RETURN _entry;
+END;
+$$;
+
+-- payment_status follows the ledger. Clients update bookings as the
+-- authenticated role; record_payment_entry runs as the function owner.
+CREATE OR REPLACE FUNCTION public.protect_booking_payment_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status
+     AND current_user IN ('authenticated', 'anon') THEN
+    RAISE EXCEPTION 'Payment status can only change through the payment ledger'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_bookings_payment_status
+  BEFORE UPDATE OF payment_status ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_booking_payment_status();
@@ -0,0 +1,289 @@
+-- Cancellation policy: fees for late hirer cancellations, penalties for late
+-- worker cancellations and no-shows. Tiers only apply to confirmed bookings;
+-- withdrawing or declining a pending request is always free.
+CREATE TABLE public.cancellation_policy_tiers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  applies_to TEXT NOT NULL CHECK (applies_to IN ('hirer', 'worker', 'worker_no_show')),
+  -- The tier applies when the booking starts at least this many hours later
+  min_hours_before NUMERIC(6, 2) NOT NULL CHECK (min_hours_before >= 0),
+  fee_percent NUMERIC(5, 2) NOT NULL CHECK (fee_percent BETWEEN 0 AND 100),
+  label TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (applies_to, min_hours_before)
+);
+
+ALTER TABLE public.cancellation_policy_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view cancellation policy"
+  ON public.cancellation_policy_tiers
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage cancellation policy"
+  ON public.cancellation_policy_tiers
+  FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_cancellation_policy_tiers_updated_at
+  BEFORE UPDATE ON public.cancellation_policy_tiers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.cancellation_policy_tiers (applies_to, min_hours_before, fee_percent, label) VALUES
+  ('hirer', 24, 0, 'Free cancellation'),
+  ('hirer', 0, 50, 'Late cancellation'),
+  ('worker', 24, 0, 'Free cancellation'),
+  ('worker', 0, 10, 'Late cancellation by worker'),
+  ('worker_no_show', 0, 25, 'Worker no-show');
+
+-- Outcome of a cancellation. cancellation_fee is kept from the hirer's hold
+-- and paid to the worker; worker penalties go to the payment ledger.
+ALTER TABLE public.bookings
+  ADD COLUMN cancellation_party TEXT CHECK (cancellation_party IN ('hirer', 'worker', 'worker_no_show')),
+  ADD COLUMN cancellation_reason TEXT,
+  ADD COLUMN cancellation_fee NUMERIC(10, 2) CHECK (cancellation_fee >= 0),
+  ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_entry_type_check;
+ALTER TABLE public.payments
+  ADD CONSTRAINT payments_entry_type_check
+  CHECK (entry_type IN ('authorization', 'capture', 'refund', 'payout', 'penalty'));
+
+-- Hours until the booking starts, in the platform's local time. Bookings
+-- without a start time count from the beginning of the day.
+CREATE OR REPLACE FUNCTION public.booking_hours_until_start(_booking_date DATE, _start_time TIME)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT round((extract(epoch FROM (_booking_date + COALESCE(_start_time, '00:00'::TIME))
+    - (now() AT TIME ZONE 'Asia/Kolkata')) / 3600)::NUMERIC, 2);
+$$;
+
+-- Percentage charged for a cancellation by _party with _hours_before to go
+CREATE OR REPLACE FUNCTION public.cancellation_fee_percent(_party TEXT, _hours_before NUMERIC)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT fee_percent
+    FROM public.cancellation_policy_tiers
+    WHERE applies_to = _party AND min_hours_before <= GREATEST(_hours_before, 0)
+    ORDER BY min_hours_before DESC
+    LIMIT 1
+  ), 0);
+$$;
+
+-- Cancels a booking and works out who pays for it:
+--   hirer           fee kept from the hold, the rest is refunded
+--   worker          hirer refunded in full, penalty recorded against the worker
+--   worker_no_show  reported by the hirer once the start time has passed
+-- BK005  no reason given
+-- BK006  no-show reported by the worker, too early, or on an unconfirmed booking
+CREATE OR REPLACE FUNCTION public.cancel_booking(_booking_id UUID, _reason TEXT, _no_show BOOLEAN DEFAULT false)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+  _actor TEXT;
+  _party TEXT;
+  _hours NUMERIC;
+  _amount NUMERIC := 0;
+BEGIN
+  IF COALESCE(btrim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to cancel a booking' USING ERRCODE = 'BK005';
+  END IF;
+
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+
+  IF FOUND AND _booking.hirer_id = auth.uid() THEN
+    _actor := 'hirer';
+  ELSIF FOUND AND EXISTS (
+    SELECT 1 FROM public.worker_profiles WHERE id = _booking.worker_id AND user_id = auth.uid()
+  ) THEN
+    _actor := 'worker';
+  ELSE
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  _hours := public.booking_hours_until_start(_booking.booking_date, _booking.start_time);
+
+  IF _no_show THEN
+    IF _actor <> 'hirer' OR _booking.status <> 'confirmed' OR _hours > 0 THEN
+      RAISE EXCEPTION 'A no-show can only be reported by the hirer after a confirmed booking was due to start'
+        USING ERRCODE = 'BK006';
+    END IF;
+    _party := 'worker_no_show';
+  ELSE
+    _party := _actor;
+  END IF;
+
+  IF _booking.status = 'confirmed' THEN
+    _amount := round(_booking.agreed_rate * public.cancellation_fee_percent(_party, _hours) / 100, 2);
+  END IF;
+
+  -- The transition trigger still decides whether the caller may cancel
+  PERFORM set_config('app.booking_change_reason', btrim(_reason), true);
+
+  UPDATE public.bookings
+  SET status = 'cancelled',
+      cancellation_party = _party,
+      cancellation_reason = btrim(_reason),
+      cancellation_fee = CASE WHEN _party = 'hirer' THEN _amount ELSE 0 END,
+      cancelled_at = now()
+  WHERE id = _booking_id
+  RETURNING * INTO _booking;
+
+  PERFORM set_config('app.booking_change_reason', '', true);
+
+  IF _party <> 'hirer' AND _amount > 0 THEN
+    INSERT INTO public.payments (booking_id, entry_type, amount, status, provider, created_by)
+    VALUES (_booking_id, 'penalty', _amount, 'succeeded', 'platform', auth.uid());
+  END IF;
+
+  RETURN _booking;
+END;
+$$;
+
+-- Cancellations carry a reason and a fee, so they only go through cancel_booking
+CREATE OR REPLACE FUNCTION public.protect_booking_cancellation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') AND (
+    (NEW.status = 'cancelled' AND OLD.status <> 'cancelled') OR
+    NEW.cancellation_party IS DISTINCT FROM OLD.cancellation_party OR
+    NEW.cancellation_reason IS DISTINCT FROM OLD.cancellation_reason OR
+    NEW.cancellation_fee IS DISTINCT FROM OLD.cancellation_fee OR
+    NEW.cancelled_at IS DISTINCT FROM OLD.cancelled_at
+  ) THEN
+    RAISE EXCEPTION 'Bookings can only be cancelled through cancel_booking'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_bookings_cancellation
+  BEFORE UPDATE OF status, cancellation_party, cancellation_reason, cancellation_fee, cancelled_at
+  ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_booking_cancellation();
+
+-- Cancelled bookings with a fee are settled by capturing the fee, refunding
+-- the rest and paying the fee out, so capture and payout now also accept
+-- cancelled bookings (up to the fee) and refunds leave the fee in the hold.
+-- payment_status follows the balances: authorized while anything is held or
+-- captured but unpaid, then paid if the worker received money, else refunded.
+CREATE OR REPLACE FUNCTION public.record_payment_entry(
+  _booking_id UUID,
+  _entry_type TEXT,
+  _amount NUMERIC,
+  _status TEXT,
+  _provider TEXT,
+  _provider_reference TEXT DEFAULT NULL,
+  _failure_reason TEXT DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+  _balance NUMERIC;
+  _captured NUMERIC;
+  _paid_out NUMERIC;
+  _fee_to_capture NUMERIC;
+  _entry public.payments;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    _booking.hirer_id = auth.uid() OR
+    EXISTS (SELECT 1 FROM public.worker_profiles WHERE id = _booking.worker_id AND user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  _balance := public.booking_payment_balance(_booking_id);
+  SELECT
+    COALESCE(sum(amount) FILTER (WHERE entry_type = 'capture'), 0),
+    COALESCE(sum(amount) FILTER (WHERE entry_type = 'payout'), 0)
+  INTO _captured, _paid_out
+  FROM public.payments
+  WHERE booking_id = _booking_id AND status = 'succeeded';
+  _fee_to_capture := GREATEST(COALESCE(_booking.cancellation_fee, 0) - _captured, 0);
+
+  IF _entry_type = 'authorization' THEN
+    IF _booking.status NOT IN ('confirmed', 'in_progress') OR _booking.payment_status NOT IN ('pending', 'failed') THEN
+      RAISE EXCEPTION 'Funds can only be held once a booking is confirmed' USING ERRCODE = 'PY001';
+    END IF;
+  ELSIF _entry_type = 'capture' THEN
+    IF _booking.status NOT IN ('completed', 'cancelled') OR _booking.payment_status <> 'authorized' THEN
+      RAISE EXCEPTION 'Funds can only be captured for a completed booking with a hold' USING ERRCODE = 'PY001';
+    END IF;
+    IF _amount > _balance OR (_booking.status = 'cancelled' AND _amount > _fee_to_capture) THEN
+      RAISE EXCEPTION 'Capture exceeds the held amount' USING ERRCODE = 'PY002';
+    END IF;
+  ELSIF _entry_type = 'payout' THEN
+    IF _booking.status NOT IN ('completed', 'cancelled') OR _booking.payment_status <> 'authorized' THEN
+      RAISE EXCEPTION 'Payouts require a completed booking with captured funds' USING ERRCODE = 'PY001';
+    END IF;
+    IF _amount > _captured - _paid_out THEN
+      RAISE EXCEPTION 'Payout exceeds the captured amount' USING ERRCODE = 'PY002';
+    END IF;
+  ELSIF _entry_type = 'refund' THEN
+    IF _booking.status <> 'cancelled' OR _booking.payment_status <> 'authorized' THEN
+      RAISE EXCEPTION 'Refunds are only issued for cancelled bookings with funds held' USING ERRCODE = 'PY001';
+    END IF;
+    IF _amount > _balance - _fee_to_capture THEN
+      RAISE EXCEPTION 'Refund exceeds the held amount' USING ERRCODE = 'PY002';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown payment entry type %', _entry_type USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.payments (
+    booking_id, entry_type, amount, status, provider, provider_reference, failure_reason, created_by
+  )
+  VALUES (
+    _booking_id, _entry_type, _amount, _status, _provider, _provider_reference, _failure_reason, auth.uid()
+  )
+  RETURNING * INTO _entry;
+
+  IF _status = 'succeeded' THEN
+    _balance := public.booking_payment_balance(_booking_id);
+    SELECT
+      COALESCE(sum(amount) FILTER (WHERE entry_type = 'capture'), 0),
+      COALESCE(sum(amount) FILTER (WHERE entry_type = 'payout'), 0)
+    INTO _captured, _paid_out
+    FROM public.payments
+    WHERE booking_id = _booking_id AND status = 'succeeded';
+
+    UPDATE public.bookings
+    SET payment_status = CASE
+      WHEN _balance > 0 OR _captured > _paid_out THEN 'authorized'
+      WHEN _paid_out > 0 THEN 'paid'
+      ELSE 'refunded'
+    END
+    WHERE id = _booking_id;
+  ELSIF _entry_type = 'authorization' THEN
+    UPDATE public.bookings SET payment_status = 'failed' WHERE id = _booking_id;
+  END IF;
+
+  RETURN _entry;
+END;
+$$;
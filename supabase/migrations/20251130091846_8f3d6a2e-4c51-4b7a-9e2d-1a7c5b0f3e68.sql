@@ -0,0 +1,188 @@
+-- GST invoices for completed bookings. Invoices are numbered per Indian
+-- financial year (April to March) without gaps, e.g. INV/25-26/00001, and
+-- snapshot the parties and amounts so later profile edits don't change them.
+CREATE TABLE public.invoice_counters (
+  financial_year TEXT NOT NULL PRIMARY KEY,
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.invoice_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE public.invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID NOT NULL UNIQUE REFERENCES public.bookings(id) ON DELETE RESTRICT,
+  invoice_number TEXT NOT NULL UNIQUE,
+  financial_year TEXT NOT NULL,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  worker_id UUID NOT NULL REFERENCES public.worker_profiles(id) ON DELETE RESTRICT,
+  hirer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE RESTRICT,
+  supplier_name TEXT NOT NULL,
+  supplier_address TEXT,
+  recipient_name TEXT NOT NULL,
+  recipient_email TEXT,
+  recipient_address TEXT,
+  category_name TEXT NOT NULL,
+  -- Services Accounting Code; 9985 covers support services
+  sac_code TEXT NOT NULL DEFAULT '9985',
+  description TEXT NOT NULL,
+  quantity NUMERIC(10, 2) NOT NULL,
+  unit TEXT NOT NULL CHECK (unit IN ('hour', 'job')),
+  -- agreed_rate is GST inclusive; it is split into the taxable value and
+  -- CGST + SGST for an intra-state supply
+  taxable_amount NUMERIC(10, 2) NOT NULL,
+  cgst_rate NUMERIC(5, 2) NOT NULL,
+  cgst_amount NUMERIC(10, 2) NOT NULL,
+  sgst_rate NUMERIC(5, 2) NOT NULL,
+  sgst_amount NUMERIC(10, 2) NOT NULL,
+  total_amount NUMERIC(10, 2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (taxable_amount + cgst_amount + sgst_amount = total_amount)
+);
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+-- Invoices are only issued by issue_booking_invoice
+CREATE POLICY "Booking participants can view invoices"
+  ON public.invoices
+  FOR SELECT
+  TO authenticated
+  USING (
+    hirer_id = auth.uid() OR
+    worker_id IN (SELECT id FROM public.worker_profiles WHERE user_id = auth.uid()) OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE INDEX idx_invoices_worker_id ON public.invoices(worker_id, issued_at);
+CREATE INDEX idx_invoices_hirer_id ON public.invoices(hirer_id, issued_at);
+
+-- Financial year label for a date, e.g. 2025-11-30 -> 25-26
+CREATE OR REPLACE FUNCTION public.financial_year_of(_date DATE)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT to_char(make_date(_fy, 1, 1), 'YY') || '-' || to_char(make_date(_fy + 1, 1, 1), 'YY')
+  FROM (
+    SELECT CASE WHEN extract(month FROM _date) >= 4
+      THEN extract(year FROM _date)::INTEGER
+      ELSE extract(year FROM _date)::INTEGER - 1
+    END AS _fy
+  ) fy;
+$$;
+
+-- Issues the invoice for a completed booking, once
+CREATE OR REPLACE FUNCTION public.issue_booking_invoice(_booking_id UUID)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _gst_rate CONSTANT NUMERIC := 18;
+  _invoice public.invoices;
+  _booking public.bookings;
+  _worker RECORD;
+  _hirer public.profiles;
+  _financial_year TEXT;
+  _number INTEGER;
+  _taxable NUMERIC;
+  _cgst NUMERIC;
+BEGIN
+  SELECT * INTO _invoice FROM public.invoices WHERE booking_id = _booking_id;
+  IF FOUND THEN
+    RETURN _invoice;
+  END IF;
+
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id AND status = 'completed';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoices are only issued for completed bookings' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT profiles.full_name, profiles.address, categories.name AS category_name
+  INTO _worker
+  FROM public.worker_profiles
+  JOIN public.profiles ON profiles.id = worker_profiles.user_id
+  JOIN public.categories ON categories.id = worker_profiles.category_id
+  WHERE worker_profiles.id = _booking.worker_id;
+
+  SELECT * INTO _hirer FROM public.profiles WHERE id = _booking.hirer_id;
+
+  _financial_year := public.financial_year_of((now() AT TIME ZONE 'Asia/Kolkata')::DATE);
+
+  INSERT INTO public.invoice_counters (financial_year, last_number)
+  VALUES (_financial_year, 1)
+  ON CONFLICT (financial_year) DO UPDATE SET last_number = invoice_counters.last_number + 1
+  RETURNING last_number INTO _number;
+
+  _taxable := round(_booking.agreed_rate * 100 / (100 + _gst_rate), 2);
+  _cgst := round((_booking.agreed_rate - _taxable) / 2, 2);
+
+  INSERT INTO public.invoices (
+    booking_id, invoice_number, financial_year, worker_id, hirer_id,
+    supplier_name, supplier_address, recipient_name, recipient_email, recipient_address,
+    category_name, description, quantity, unit,
+    taxable_amount, cgst_rate, cgst_amount, sgst_rate, sgst_amount, total_amount
+  )
+  VALUES (
+    _booking_id,
+    'INV/' || _financial_year || '/' || lpad(_number::TEXT, 5, '0'),
+    _financial_year,
+    _booking.worker_id,
+    _booking.hirer_id,
+    _worker.full_name,
+    _worker.address,
+    _hirer.full_name,
+    _hirer.email,
+    _hirer.address,
+    _worker.category_name,
+    _booking.work_description,
+    COALESCE(_booking.duration_hours, 1),
+    CASE WHEN _booking.duration_hours IS NULL THEN 'job' ELSE 'hour' END,
+    _taxable,
+    _gst_rate / 2,
+    _cgst,
+    _gst_rate / 2,
+    _booking.agreed_rate - _taxable - _cgst,
+    _booking.agreed_rate
+  )
+  RETURNING * INTO _invoice;
+
+  RETURN _invoice;
+END;
+$$;
+
+-- Only the completion trigger issues invoices
+REVOKE EXECUTE ON FUNCTION public.issue_booking_invoice(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.issue_invoice_on_completion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    PERFORM public.issue_booking_invoice(NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER issue_bookings_invoice
+  AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.issue_invoice_on_completion();
+
+-- Invoice bookings completed before invoicing existed, in completion order
+DO $$
+DECLARE
+  _booking_id UUID;
+BEGIN
+  FOR _booking_id IN
+    SELECT id FROM public.bookings WHERE status = 'completed' ORDER BY updated_at, created_at
+  LOOP
+    PERFORM public.issue_booking_invoice(_booking_id);
+  END LOOP;
+END;
+$$;
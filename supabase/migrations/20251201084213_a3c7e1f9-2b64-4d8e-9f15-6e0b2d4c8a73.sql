@@ -0,0 +1,255 @@
+-- Rate negotiation on booking requests. Every proposal of terms is a
+-- numbered offer; the hirer's request is version 1. The parties take turns:
+-- each side either accepts the other's latest offer or counters it, and the
+-- booking's terms are only written when an offer is accepted.
+CREATE TABLE public.booking_offers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  offered_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  offered_by_role TEXT NOT NULL CHECK (offered_by_role IN ('hirer', 'worker')),
+  rate NUMERIC(10, 2) NOT NULL CHECK (rate > 0),
+  booking_date DATE NOT NULL,
+  start_time TIME,
+  duration_hours NUMERIC(5, 2) CHECK (duration_hours > 0),
+  message TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'superseded', 'closed')),
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (booking_id, version)
+);
+
+-- At most one offer is waiting for an answer
+CREATE UNIQUE INDEX booking_offers_one_open
+  ON public.booking_offers(booking_id)
+  WHERE status = 'open';
+
+ALTER TABLE public.booking_offers ENABLE ROW LEVEL SECURITY;
+
+-- Offers are written by the trigger and RPCs below
+CREATE POLICY "Booking participants can view offers"
+  ON public.booking_offers
+  FOR SELECT
+  TO authenticated
+  USING (
+    public.has_role(auth.uid(), 'admin') OR
+    EXISTS (
+      SELECT 1 FROM public.bookings
+      WHERE bookings.id = booking_offers.booking_id
+      AND (bookings.hirer_id = auth.uid() OR
+           bookings.worker_id IN (SELECT id FROM public.worker_profiles WHERE user_id = auth.uid()))
+    )
+  );
+
+-- Either party may now confirm a pending booking, by accepting the other's offer
+CREATE OR REPLACE FUNCTION public.booking_transition_roles(_from TEXT, _to TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _from = 'pending' AND _to = 'confirmed' THEN ARRAY['hirer', 'worker']
+    WHEN _from = 'pending' AND _to = 'cancelled' THEN ARRAY['hirer', 'worker']
+    WHEN _from = 'confirmed' AND _to = 'in_progress' THEN ARRAY['worker']
+    WHEN _from = 'confirmed' AND _to = 'cancelled' THEN ARRAY['hirer', 'worker']
+    WHEN _from = 'in_progress' AND _to = 'completed' THEN ARRAY['worker']
+  END;
+$$;
+
+-- Opens version 1 with the hirer's request and closes open offers when the
+-- booking is cancelled
+CREATE OR REPLACE FUNCTION public.sync_booking_offers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.booking_offers (
+      booking_id, version, offered_by, offered_by_role, rate, booking_date, start_time, duration_hours
+    )
+    VALUES (
+      NEW.id, 1, NEW.hirer_id, 'hirer', NEW.agreed_rate, NEW.booking_date, NEW.start_time, NEW.duration_hours
+    );
+  ELSIF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    UPDATE public.booking_offers
+    SET status = 'closed', responded_at = now()
+    WHERE booking_id = NEW.id AND status = 'open';
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_bookings_offers
+  AFTER INSERT OR UPDATE OF status ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_booking_offers();
+
+-- Terms and confirmation only change by accepting an offer
+CREATE OR REPLACE FUNCTION public.protect_booking_terms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') AND (
+    NEW.agreed_rate IS DISTINCT FROM OLD.agreed_rate OR
+    NEW.booking_date IS DISTINCT FROM OLD.booking_date OR
+    NEW.start_time IS DISTINCT FROM OLD.start_time OR
+    NEW.duration_hours IS DISTINCT FROM OLD.duration_hours OR
+    (OLD.status = 'pending' AND NEW.status = 'confirmed')
+  ) THEN
+    RAISE EXCEPTION 'Booking terms can only change by accepting an offer'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_bookings_terms
+  BEFORE UPDATE OF agreed_rate, booking_date, start_time, duration_hours, status ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_booking_terms();
+
+-- Caller's side of a booking, or NULL when they are not part of it
+CREATE OR REPLACE FUNCTION public.booking_actor(_booking public.bookings)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _booking.hirer_id = auth.uid() THEN 'hirer'
+    WHEN EXISTS (
+      SELECT 1 FROM public.worker_profiles WHERE id = _booking.worker_id AND user_id = auth.uid()
+    ) THEN 'worker'
+  END;
+$$;
+
+-- Counters the other party's open offer
+-- BK007  the booking is no longer pending
+-- BK008  the caller's own offer is still waiting for an answer
+CREATE OR REPLACE FUNCTION public.make_booking_offer(
+  _booking_id UUID,
+  _rate NUMERIC,
+  _booking_date DATE,
+  _start_time TIME DEFAULT NULL,
+  _duration_hours NUMERIC DEFAULT NULL,
+  _message TEXT DEFAULT NULL
+)
+RETURNS public.booking_offers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+  _actor TEXT;
+  _open public.booking_offers;
+  _offer public.booking_offers;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+  _actor := public.booking_actor(_booking);
+
+  IF _actor IS NULL THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _booking.status <> 'pending' THEN
+    RAISE EXCEPTION 'Offers can only be made on pending bookings' USING ERRCODE = 'BK007';
+  END IF;
+
+  SELECT * INTO _open FROM public.booking_offers WHERE booking_id = _booking_id AND status = 'open';
+  IF FOUND AND _open.offered_by_role = _actor THEN
+    RAISE EXCEPTION 'Your last offer is still waiting for a response' USING ERRCODE = 'BK008';
+  END IF;
+
+  UPDATE public.booking_offers
+  SET status = 'superseded', responded_at = now()
+  WHERE id = _open.id;
+
+  INSERT INTO public.booking_offers (
+    booking_id, version, offered_by, offered_by_role, rate, booking_date, start_time, duration_hours, message
+  )
+  SELECT
+    _booking_id, COALESCE(max(version), 0) + 1, auth.uid(), _actor,
+    _rate, _booking_date, _start_time, _duration_hours, NULLIF(btrim(_message), '')
+  FROM public.booking_offers
+  WHERE booking_id = _booking_id
+  RETURNING * INTO _offer;
+
+  RETURN _offer;
+END;
+$$;
+
+-- Accepts the other party's open offer: the offer's terms become the
+-- booking's and the booking is confirmed. Terms are written while the booking
+-- is still pending so the availability and overlap checks run on them.
+CREATE OR REPLACE FUNCTION public.accept_booking_offer(_offer_id UUID)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.booking_offers;
+  _booking public.bookings;
+  _actor TEXT;
+BEGIN
+  SELECT * INTO _offer FROM public.booking_offers WHERE id = _offer_id FOR UPDATE;
+  SELECT * INTO _booking FROM public.bookings WHERE id = _offer.booking_id FOR UPDATE;
+  _actor := public.booking_actor(_booking);
+
+  IF _offer.id IS NULL OR _actor IS NULL THEN
+    RAISE EXCEPTION 'Offer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _offer.status <> 'open' OR _booking.status <> 'pending' THEN
+    RAISE EXCEPTION 'This offer is no longer open' USING ERRCODE = 'BK007';
+  END IF;
+
+  IF _offer.offered_by_role = _actor THEN
+    RAISE EXCEPTION 'Your last offer is still waiting for a response' USING ERRCODE = 'BK008';
+  END IF;
+
+  UPDATE public.booking_offers
+  SET status = 'accepted', responded_at = now()
+  WHERE id = _offer_id;
+
+  PERFORM set_config('app.booking_change_reason', format('Offer v%s accepted', _offer.version), true);
+
+  UPDATE public.bookings
+  SET agreed_rate = _offer.rate,
+      booking_date = _offer.booking_date,
+      start_time = _offer.start_time,
+      duration_hours = _offer.duration_hours
+  WHERE id = _booking.id;
+
+  UPDATE public.bookings
+  SET status = 'confirmed'
+  WHERE id = _booking.id
+  RETURNING * INTO _booking;
+
+  PERFORM set_config('app.booking_change_reason', '', true);
+  RETURN _booking;
+END;
+$$;
+
+-- Version 1 for bookings made before negotiation existed
+INSERT INTO public.booking_offers (
+  booking_id, version, offered_by, offered_by_role, rate, booking_date, start_time, duration_hours,
+  status, responded_at, created_at
+)
+SELECT
+  id, 1, hirer_id, 'hirer', agreed_rate, booking_date, start_time, duration_hours,
+  CASE status
+    WHEN 'pending' THEN 'open'
+    WHEN 'cancelled' THEN 'closed'
+    ELSE 'accepted'
+  END,
+  CASE WHEN status = 'pending' THEN NULL ELSE updated_at END,
+  created_at
+FROM public.bookings;
@@ -0,0 +1,130 @@
+-- Review and job statistics on worker_profiles, kept up to date by triggers
+-- on reviews and bookings instead of being computed by each client.
+ALTER TABLE public.worker_profiles
+  ADD COLUMN rating_count INTEGER NOT NULL DEFAULT 0,
+  -- Number of reviews per star, e.g. {"1": 0, "2": 1, "3": 0, "4": 3, "5": 8}
+  ADD COLUMN rating_distribution JSONB NOT NULL DEFAULT '{"1": 0, "2": 0, "3": 0, "4": 0, "5": 0}'::jsonb;
+
+UPDATE public.worker_profiles SET rating = 0 WHERE rating IS NULL;
+UPDATE public.worker_profiles SET total_jobs = 0 WHERE total_jobs IS NULL;
+
+ALTER TABLE public.worker_profiles
+  ALTER COLUMN rating SET NOT NULL,
+  ALTER COLUMN total_jobs SET NOT NULL;
+
+-- Recounts one worker's statistics from scratch
+CREATE OR REPLACE FUNCTION public.refresh_worker_stats(_worker_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.worker_profiles wp
+  SET rating = stats.rating,
+      rating_count = stats.rating_count,
+      rating_distribution = stats.rating_distribution,
+      total_jobs = (
+        SELECT count(*) FROM public.bookings
+        WHERE bookings.worker_id = _worker_id AND bookings.status = 'completed'
+      )
+  FROM (
+    SELECT
+      COALESCE(round(avg(r.rating), 2), 0) AS rating,
+      count(r.id)::INTEGER AS rating_count,
+      jsonb_build_object(
+        '1', count(*) FILTER (WHERE r.rating = 1),
+        '2', count(*) FILTER (WHERE r.rating = 2),
+        '3', count(*) FILTER (WHERE r.rating = 3),
+        '4', count(*) FILTER (WHERE r.rating = 4),
+        '5', count(*) FILTER (WHERE r.rating = 5)
+      ) AS rating_distribution
+    FROM public.reviews r
+    WHERE r.worker_id = _worker_id
+  ) stats
+  WHERE wp.id = _worker_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_worker_stats(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_worker_stats_from_reviews()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_worker_stats(OLD.worker_id);
+  END IF;
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.worker_id IS DISTINCT FROM OLD.worker_id) THEN
+    PERFORM public.refresh_worker_stats(NEW.worker_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_reviews_worker_stats
+  AFTER INSERT OR UPDATE OF rating, worker_id OR DELETE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_worker_stats_from_reviews();
+
+-- Only bookings entering or leaving completed change total_jobs
+CREATE OR REPLACE FUNCTION public.refresh_worker_stats_from_bookings()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.status = 'completed' THEN
+    PERFORM public.refresh_worker_stats(OLD.worker_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.status = 'completed'
+     AND (TG_OP = 'INSERT' OR OLD.status <> 'completed' OR NEW.worker_id IS DISTINCT FROM OLD.worker_id) THEN
+    PERFORM public.refresh_worker_stats(NEW.worker_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_bookings_worker_stats
+  AFTER INSERT OR UPDATE OF status, worker_id OR DELETE ON public.bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_worker_stats_from_bookings();
+
+-- Statistics are owned by the triggers above; workers keep editing the rest
+-- of their profile
+CREATE OR REPLACE FUNCTION public.protect_worker_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.rating := 0;
+    NEW.rating_count := 0;
+    NEW.rating_distribution := '{"1": 0, "2": 0, "3": 0, "4": 0, "5": 0}'::jsonb;
+    NEW.total_jobs := 0;
+  ELSIF (NEW.rating, NEW.rating_count, NEW.rating_distribution, NEW.total_jobs)
+        IS DISTINCT FROM
+        (OLD.rating, OLD.rating_count, OLD.rating_distribution, OLD.total_jobs) THEN
+    RAISE EXCEPTION 'Ratings and job counts are calculated automatically' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_worker_profiles_stats
+  BEFORE INSERT OR UPDATE ON public.worker_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_worker_stats();
+
+-- Bring every existing profile in line with its reviews and bookings
+SELECT public.refresh_worker_stats(id) FROM public.worker_profiles;
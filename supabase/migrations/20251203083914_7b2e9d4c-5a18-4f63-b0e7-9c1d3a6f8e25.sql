@@ -0,0 +1,322 @@
+-- Two-way reviews: after a completed booking the hirer reviews the worker
+-- (reviews) and the worker reviews the hirer (hirer_reviews). Reviews are
+-- blind: neither is published until both are in or the review window closes,
+-- so one side can't answer the other's review in kind.
+CREATE TABLE public.hirer_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  booking_id UUID NOT NULL UNIQUE REFERENCES public.bookings(id) ON DELETE CASCADE,
+  worker_id UUID NOT NULL REFERENCES public.worker_profiles(id) ON DELETE CASCADE,
+  hirer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  rating INTEGER NOT NULL CHECK (rating >= 1 AND rating <= 5),
+  review_text TEXT,
+  revealed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.hirer_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_hirer_reviews_updated_at
+  BEFORE UPDATE ON public.hirer_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_hirer_reviews_hirer_id ON public.hirer_reviews(hirer_id);
+
+-- Reviews written before blind reviews were already public
+ALTER TABLE public.reviews ADD COLUMN revealed_at TIMESTAMP WITH TIME ZONE;
+UPDATE public.reviews SET revealed_at = created_at;
+
+-- Reviews can be written for 14 days after the booking is completed; after
+-- that anything still hidden is published. NULL until the booking completes.
+CREATE OR REPLACE FUNCTION public.booking_review_deadline(_booking_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT max(booking_events.created_at) FROM public.booking_events
+      WHERE booking_events.booking_id = bookings.id
+      AND booking_events.field = 'status'
+      AND booking_events.new_value = 'completed'
+    ),
+    -- Completed before the audit trail existed
+    bookings.updated_at
+  ) + interval '14 days'
+  FROM public.bookings
+  WHERE bookings.id = _booking_id AND bookings.status = 'completed';
+$$;
+
+-- Hirer reviews of workers: published ones are public, hirers also see
+-- their own while it is hidden and can edit it until then
+DROP POLICY "Anyone can view reviews" ON public.reviews;
+DROP POLICY "Hirers can create reviews for their bookings" ON public.reviews;
+DROP POLICY "Hirers can update their own reviews" ON public.reviews;
+
+CREATE POLICY "Anyone can view published reviews"
+  ON public.reviews
+  FOR SELECT
+  USING (revealed_at IS NOT NULL OR auth.uid() = hirer_id);
+
+CREATE POLICY "Hirers can review completed bookings"
+  ON public.reviews
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = hirer_id AND
+    EXISTS (
+      SELECT 1 FROM public.bookings
+      WHERE bookings.id = reviews.booking_id
+      AND bookings.hirer_id = auth.uid()
+      AND bookings.worker_id = reviews.worker_id
+      AND bookings.status = 'completed'
+    ) AND
+    now() < public.booking_review_deadline(booking_id)
+  );
+
+CREATE POLICY "Hirers can update their hidden reviews"
+  ON public.reviews
+  FOR UPDATE
+  USING (auth.uid() = hirer_id AND revealed_at IS NULL);
+
+-- Worker reviews of hirers, mirroring the above
+CREATE POLICY "Authenticated users can view published hirer reviews"
+  ON public.hirer_reviews
+  FOR SELECT
+  TO authenticated
+  USING (
+    revealed_at IS NOT NULL OR
+    worker_id IN (SELECT id FROM public.worker_profiles WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Workers can review completed bookings"
+  ON public.hirer_reviews
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    worker_id IN (SELECT id FROM public.worker_profiles WHERE user_id = auth.uid()) AND
+    EXISTS (
+      SELECT 1 FROM public.bookings
+      WHERE bookings.id = hirer_reviews.booking_id
+      AND bookings.worker_id = hirer_reviews.worker_id
+      AND bookings.hirer_id = hirer_reviews.hirer_id
+      AND bookings.status = 'completed'
+    ) AND
+    now() < public.booking_review_deadline(booking_id)
+  );
+
+CREATE POLICY "Workers can update their hidden hirer reviews"
+  ON public.hirer_reviews
+  FOR UPDATE
+  TO authenticated
+  USING (
+    worker_id IN (SELECT id FROM public.worker_profiles WHERE user_id = auth.uid()) AND
+    revealed_at IS NULL
+  );
+
+-- Publishing is done by the functions below, never by the reviewer
+CREATE OR REPLACE FUNCTION public.protect_review_reveal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.revealed_at := NULL;
+  ELSIF NEW.revealed_at IS DISTINCT FROM OLD.revealed_at THEN
+    RAISE EXCEPTION 'Reviews are published automatically' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_reviews_reveal
+  BEFORE INSERT OR UPDATE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_review_reveal();
+
+CREATE TRIGGER protect_hirer_reviews_reveal
+  BEFORE INSERT OR UPDATE ON public.hirer_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_review_reveal();
+
+-- Publishes both reviews of a booking once each side has written one
+CREATE OR REPLACE FUNCTION public.reveal_booking_reviews()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.reviews WHERE booking_id = NEW.booking_id)
+     AND EXISTS (SELECT 1 FROM public.hirer_reviews WHERE booking_id = NEW.booking_id) THEN
+    UPDATE public.reviews SET revealed_at = now()
+    WHERE booking_id = NEW.booking_id AND revealed_at IS NULL;
+    UPDATE public.hirer_reviews SET revealed_at = now()
+    WHERE booking_id = NEW.booking_id AND revealed_at IS NULL;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER reveal_reviews_on_insert
+  AFTER INSERT ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reveal_booking_reviews();
+
+CREATE TRIGGER reveal_hirer_reviews_on_insert
+  AFTER INSERT ON public.hirer_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reveal_booking_reviews();
+
+-- Publishes reviews whose window has closed without the other side's review
+CREATE OR REPLACE FUNCTION public.reveal_due_reviews()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.reviews SET revealed_at = now()
+  WHERE revealed_at IS NULL AND public.booking_review_deadline(booking_id) <= now();
+  UPDATE public.hirer_reviews SET revealed_at = now()
+  WHERE revealed_at IS NULL AND public.booking_review_deadline(booking_id) <= now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reveal_due_reviews() FROM PUBLIC, anon, authenticated;
+
+-- Run it hourly where pg_cron is available (it is on hosted Supabase)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('reveal-due-reviews', '0 * * * *', 'SELECT public.reveal_due_reviews()');
+  END IF;
+END;
+$$;
+
+-- Worker ratings only count published reviews
+CREATE OR REPLACE FUNCTION public.refresh_worker_stats(_worker_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.worker_profiles wp
+  SET rating = stats.rating,
+      rating_count = stats.rating_count,
+      rating_distribution = stats.rating_distribution,
+      total_jobs = (
+        SELECT count(*) FROM public.bookings
+        WHERE bookings.worker_id = _worker_id AND bookings.status = 'completed'
+      )
+  FROM (
+    SELECT
+      COALESCE(round(avg(r.rating), 2), 0) AS rating,
+      count(r.id)::INTEGER AS rating_count,
+      jsonb_build_object(
+        '1', count(*) FILTER (WHERE r.rating = 1),
+        '2', count(*) FILTER (WHERE r.rating = 2),
+        '3', count(*) FILTER (WHERE r.rating = 3),
+        '4', count(*) FILTER (WHERE r.rating = 4),
+        '5', count(*) FILTER (WHERE r.rating = 5)
+      ) AS rating_distribution
+    FROM public.reviews r
+    WHERE r.worker_id = _worker_id AND r.revealed_at IS NOT NULL
+  ) stats
+  WHERE wp.id = _worker_id;
+END;
+$$;
+
+DROP TRIGGER refresh_reviews_worker_stats ON public.reviews;
+
+CREATE TRIGGER refresh_reviews_worker_stats
+  AFTER INSERT OR UPDATE OF rating, worker_id, revealed_at OR DELETE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_worker_stats_from_reviews();
+
+-- Hirer reputation from published worker reviews, shown to workers on
+-- booking requests
+ALTER TABLE public.profiles
+  ADD COLUMN hirer_rating NUMERIC(3, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN hirer_rating_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.refresh_hirer_reputation(_hirer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles p
+  SET hirer_rating = stats.rating,
+      hirer_rating_count = stats.rating_count
+  FROM (
+    SELECT
+      COALESCE(round(avg(r.rating), 2), 0) AS rating,
+      count(r.id)::INTEGER AS rating_count
+    FROM public.hirer_reviews r
+    WHERE r.hirer_id = _hirer_id AND r.revealed_at IS NOT NULL
+  ) stats
+  WHERE p.id = _hirer_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_hirer_reputation(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_hirer_reputation_from_reviews()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.refresh_hirer_reputation(OLD.hirer_id);
+  END IF;
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND NEW.hirer_id IS DISTINCT FROM OLD.hirer_id) THEN
+    PERFORM public.refresh_hirer_reputation(NEW.hirer_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_hirer_reviews_reputation
+  AFTER INSERT OR UPDATE OF rating, hirer_id, revealed_at OR DELETE ON public.hirer_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_hirer_reputation_from_reviews();
+
+CREATE OR REPLACE FUNCTION public.protect_hirer_reputation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.hirer_rating := 0;
+    NEW.hirer_rating_count := 0;
+  ELSIF (NEW.hirer_rating, NEW.hirer_rating_count) IS DISTINCT FROM (OLD.hirer_rating, OLD.hirer_rating_count) THEN
+    RAISE EXCEPTION 'Ratings are calculated automatically' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_hirer_reputation
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_hirer_reputation();
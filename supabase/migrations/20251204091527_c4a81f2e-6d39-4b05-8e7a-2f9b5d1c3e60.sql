@@ -0,0 +1,214 @@
+-- Detailed reviews of workers: a 1-5 rating per criterion on top of the
+-- overall rating, and before/after photos of the job.
+CREATE TABLE public.review_criteria (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  -- NULL applies to every category
+  category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (category_id, key)
+);
+
+ALTER TABLE public.review_criteria ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view review criteria"
+  ON public.review_criteria
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage review criteria"
+  ON public.review_criteria
+  FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.review_criteria (key, label, category_id, sort_order) VALUES
+  ('punctuality', 'Punctuality', NULL, 1),
+  ('quality', 'Quality of work', NULL, 2),
+  ('cleanliness', 'Cleanliness', NULL, 3),
+  ('value', 'Value for money', NULL, 4);
+
+INSERT INTO public.review_criteria (key, label, category_id, sort_order)
+SELECT 'safety', 'Safety', id, 5 FROM public.categories WHERE name IN ('Electrician', 'Mason');
+
+INSERT INTO public.review_criteria (key, label, category_id, sort_order)
+SELECT 'taste', 'Taste', id, 5 FROM public.categories WHERE name = 'Chef';
+
+-- Written together with the review so the whole review is in place before
+-- it can be published.
+--   criteria_ratings  {"punctuality": 5, "quality": 4, ...}
+--   photos            [{"path": "<user_id>/<booking_id>/<file>", "kind": "before" | "after"}, ...]
+ALTER TABLE public.reviews
+  ADD COLUMN criteria_ratings JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(criteria_ratings) = 'object'),
+  ADD COLUMN photos JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(photos) = 'array' AND jsonb_array_length(photos) <= 6);
+
+-- Criteria must apply to the worker's category and photos must be the
+-- reviewer's own uploads
+CREATE OR REPLACE FUNCTION public.validate_review_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _category_id UUID;
+  _criterion RECORD;
+  _photo JSONB;
+BEGIN
+  SELECT category_id INTO _category_id FROM public.worker_profiles WHERE id = NEW.worker_id;
+
+  FOR _criterion IN SELECT * FROM jsonb_each(NEW.criteria_ratings) LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM public.review_criteria
+      WHERE key = _criterion.key
+      AND (category_id IS NULL OR category_id = _category_id)
+    ) THEN
+      RAISE EXCEPTION 'Unknown review criterion: %', _criterion.key USING ERRCODE = '22023';
+    END IF;
+
+    IF jsonb_typeof(_criterion.value) <> 'number'
+       OR _criterion.value::TEXT::NUMERIC NOT IN (1, 2, 3, 4, 5) THEN
+      RAISE EXCEPTION 'Criterion ratings must be whole stars from 1 to 5' USING ERRCODE = '22023';
+    END IF;
+  END LOOP;
+
+  FOR _photo IN SELECT * FROM jsonb_array_elements(NEW.photos) LOOP
+    IF _photo->>'kind' IS NULL OR _photo->>'kind' NOT IN ('before', 'after')
+       OR _photo->>'path' IS NULL OR _photo->>'path' NOT LIKE NEW.hirer_id::TEXT || '/%' THEN
+      RAISE EXCEPTION 'Invalid review photo' USING ERRCODE = '22023';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_reviews_details
+  BEFORE INSERT OR UPDATE OF criteria_ratings, photos, worker_id ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_review_details();
+
+-- Private bucket; photos follow the visibility of their review
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'review-photos',
+  'review-photos',
+  false,
+  5242880,
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+);
+
+-- Files live under the uploader's user id: <user_id>/<booking_id>/<file>
+CREATE POLICY "Users can upload own review photos"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'review-photos' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Review photos are visible with their review"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'review-photos' AND (
+    auth.uid()::text = (storage.foldername(name))[1] OR
+    EXISTS (
+      SELECT 1 FROM public.reviews
+      WHERE reviews.photos @> jsonb_build_array(jsonb_build_object('path', objects.name))
+      AND reviews.revealed_at IS NOT NULL
+    )
+  )
+);
+
+CREATE POLICY "Users can delete own review photos"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'review-photos' AND
+  auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Per-criterion averages over published reviews, e.g. {"punctuality": 4.5}
+ALTER TABLE public.worker_profiles
+  ADD COLUMN rating_criteria JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE OR REPLACE FUNCTION public.refresh_worker_stats(_worker_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.worker_profiles wp
+  SET rating = stats.rating,
+      rating_count = stats.rating_count,
+      rating_distribution = stats.rating_distribution,
+      rating_criteria = (
+        SELECT COALESCE(jsonb_object_agg(criteria.key, criteria.average), '{}'::jsonb)
+        FROM (
+          SELECT c.key, round(avg(c.value::TEXT::NUMERIC), 2) AS average
+          FROM public.reviews r, jsonb_each(r.criteria_ratings) c
+          WHERE r.worker_id = _worker_id AND r.revealed_at IS NOT NULL
+          GROUP BY c.key
+        ) criteria
+      ),
+      total_jobs = (
+        SELECT count(*) FROM public.bookings
+        WHERE bookings.worker_id = _worker_id AND bookings.status = 'completed'
+      )
+  FROM (
+    SELECT
+      COALESCE(round(avg(r.rating), 2), 0) AS rating,
+      count(r.id)::INTEGER AS rating_count,
+      jsonb_build_object(
+        '1', count(*) FILTER (WHERE r.rating = 1),
+        '2', count(*) FILTER (WHERE r.rating = 2),
+        '3', count(*) FILTER (WHERE r.rating = 3),
+        '4', count(*) FILTER (WHERE r.rating = 4),
+        '5', count(*) FILTER (WHERE r.rating = 5)
+      ) AS rating_distribution
+    FROM public.reviews r
+    WHERE r.worker_id = _worker_id AND r.revealed_at IS NOT NULL
+  ) stats
+  WHERE wp.id = _worker_id;
+END;
+$$;
+
+DROP TRIGGER refresh_reviews_worker_stats ON public.reviews;
+
+CREATE TRIGGER refresh_reviews_worker_stats
+  AFTER INSERT OR UPDATE OF rating, criteria_ratings, worker_id, revealed_at OR DELETE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_worker_stats_from_reviews();
+
+CREATE OR REPLACE FUNCTION public.protect_worker_stats()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.rating := 0;
+    NEW.rating_count := 0;
+    NEW.rating_distribution := '{"1": 0, "2": 0, "3": 0, "4": 0, "5": 0}'::jsonb;
+    NEW.rating_criteria := '{}'::jsonb;
+    NEW.total_jobs := 0;
+  ELSIF (NEW.rating, NEW.rating_count, NEW.rating_distribution, NEW.rating_criteria, NEW.total_jobs)
+        IS DISTINCT FROM
+        (OLD.rating, OLD.rating_count, OLD.rating_distribution, OLD.rating_criteria, OLD.total_jobs) THEN
+    RAISE EXCEPTION 'Ratings and job counts are calculated automatically' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
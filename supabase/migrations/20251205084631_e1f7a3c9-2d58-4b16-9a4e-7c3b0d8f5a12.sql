@@ -0,0 +1,271 @@
+-- Worker replies to reviews, review reports and admin moderation. Hidden
+-- reviews disappear from the public and from the worker's rating but are
+-- kept for the moderation record.
+ALTER TABLE public.reviews ADD COLUMN hidden_at TIMESTAMP WITH TIME ZONE;
+
+DROP POLICY "Anyone can view published reviews" ON public.reviews;
+
+CREATE POLICY "Anyone can view published reviews"
+  ON public.reviews
+  FOR SELECT
+  USING (
+    (revealed_at IS NOT NULL AND hidden_at IS NULL) OR
+    auth.uid() = hirer_id OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+-- hidden_at is only changed by moderate_review
+CREATE OR REPLACE FUNCTION public.protect_review_moderation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.hidden_at := NULL;
+  ELSIF NEW.hidden_at IS DISTINCT FROM OLD.hidden_at THEN
+    RAISE EXCEPTION 'Reviews are hidden through moderation' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_reviews_moderation
+  BEFORE INSERT OR UPDATE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_review_moderation();
+
+-- One public reply per review, from the reviewed worker
+CREATE TABLE public.review_replies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  review_id UUID NOT NULL UNIQUE REFERENCES public.reviews(id) ON DELETE CASCADE,
+  worker_id UUID NOT NULL REFERENCES public.worker_profiles(id) ON DELETE CASCADE,
+  reply_text TEXT NOT NULL CHECK (length(btrim(reply_text)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.review_replies ENABLE ROW LEVEL SECURITY;
+
+-- Replies are visible wherever their review is
+CREATE POLICY "Anyone can view replies to visible reviews"
+  ON public.review_replies
+  FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.reviews WHERE reviews.id = review_replies.review_id));
+
+CREATE POLICY "Workers can reply to their published reviews"
+  ON public.review_replies
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    worker_id IN (SELECT id FROM public.worker_profiles WHERE user_id = auth.uid()) AND
+    EXISTS (
+      SELECT 1 FROM public.reviews
+      WHERE reviews.id = review_replies.review_id
+      AND reviews.worker_id = review_replies.worker_id
+      AND reviews.revealed_at IS NOT NULL
+      AND reviews.hidden_at IS NULL
+    )
+  );
+
+CREATE POLICY "Workers can edit their replies"
+  ON public.review_replies
+  FOR UPDATE
+  TO authenticated
+  USING (worker_id IN (SELECT id FROM public.worker_profiles WHERE user_id = auth.uid()))
+  WITH CHECK (worker_id IN (SELECT id FROM public.worker_profiles WHERE user_id = auth.uid()));
+
+CREATE POLICY "Workers can delete their replies"
+  ON public.review_replies
+  FOR DELETE
+  TO authenticated
+  USING (worker_id IN (SELECT id FROM public.worker_profiles WHERE user_id = auth.uid()));
+
+CREATE TRIGGER update_review_replies_updated_at
+  BEFORE UPDATE ON public.review_replies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Reports of reviews that break the rules; each user reports a review once
+CREATE TABLE public.review_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  review_id UUID NOT NULL REFERENCES public.reviews(id) ON DELETE CASCADE,
+  reporter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('abusive', 'spam', 'false_information', 'conflict_of_interest', 'other')),
+  details TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (review_id, reporter_id),
+  CHECK (reason <> 'other' OR details IS NOT NULL)
+);
+
+ALTER TABLE public.review_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reporters and admins can view review reports"
+  ON public.review_reports
+  FOR SELECT
+  TO authenticated
+  USING (reporter_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+-- Reports are resolved through moderate_review
+CREATE POLICY "Users can report reviews they can see"
+  ON public.review_reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    reporter_id = auth.uid() AND
+    status = 'open' AND
+    resolved_by IS NULL AND
+    resolved_at IS NULL AND
+    EXISTS (SELECT 1 FROM public.reviews WHERE reviews.id = review_reports.review_id)
+  );
+
+CREATE INDEX idx_review_reports_open ON public.review_reports(review_id) WHERE status = 'open';
+
+-- Every moderation action. review_id is kept without a foreign key so the
+-- record survives deletion; the review is snapshotted for that case.
+CREATE TABLE public.review_moderation_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  review_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('hide', 'restore', 'delete', 'dismiss')),
+  notes TEXT,
+  admin_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  review_snapshot JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.review_moderation_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the review moderation log"
+  ON public.review_moderation_log
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_review_moderation_log_review_id ON public.review_moderation_log(review_id, created_at);
+
+-- Applies a moderation action, closes the review's open reports and logs it
+--   hide     review disappears from the public and the worker's rating
+--   restore  hidden review is shown again
+--   delete   review is removed for good
+--   dismiss  reports are unfounded; the review is left as it is
+CREATE OR REPLACE FUNCTION public.moderate_review(_review_id UUID, _action TEXT, _notes TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _review public.reviews;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can moderate reviews' USING ERRCODE = '42501';
+  END IF;
+
+  IF _action NOT IN ('hide', 'restore', 'delete', 'dismiss') THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', _action USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _review FROM public.reviews WHERE id = _review_id FOR UPDATE;
+  IF _review.id IS NULL THEN
+    RAISE EXCEPTION 'Review not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.review_moderation_log (review_id, action, notes, admin_id, review_snapshot)
+  VALUES (_review_id, _action, NULLIF(btrim(_notes), ''), auth.uid(), to_jsonb(_review));
+
+  UPDATE public.review_reports
+  SET status = CASE WHEN _action IN ('dismiss', 'restore') THEN 'dismissed' ELSE 'resolved' END,
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE review_id = _review_id AND status = 'open';
+
+  CASE _action
+    WHEN 'hide' THEN
+      UPDATE public.reviews SET hidden_at = now() WHERE id = _review_id AND hidden_at IS NULL;
+    WHEN 'restore' THEN
+      UPDATE public.reviews SET hidden_at = NULL WHERE id = _review_id;
+    WHEN 'delete' THEN
+      DELETE FROM public.reviews WHERE id = _review_id;
+    ELSE
+      -- dismiss leaves the review as it is
+      NULL;
+  END CASE;
+END;
+$$;
+
+-- Hidden reviews don't count towards the worker's rating
+CREATE OR REPLACE FUNCTION public.refresh_worker_stats(_worker_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.worker_profiles wp
+  SET rating = stats.rating,
+      rating_count = stats.rating_count,
+      rating_distribution = stats.rating_distribution,
+      rating_criteria = (
+        SELECT COALESCE(jsonb_object_agg(criteria.key, criteria.average), '{}'::jsonb)
+        FROM (
+          SELECT c.key, round(avg(c.value::TEXT::NUMERIC), 2) AS average
+          FROM public.reviews r, jsonb_each(r.criteria_ratings) c
+          WHERE r.worker_id = _worker_id AND r.revealed_at IS NOT NULL AND r.hidden_at IS NULL
+          GROUP BY c.key
+        ) criteria
+      ),
+      total_jobs = (
+        SELECT count(*) FROM public.bookings
+        WHERE bookings.worker_id = _worker_id AND bookings.status = 'completed'
+      )
+  FROM (
+    SELECT
+      COALESCE(round(avg(r.rating), 2), 0) AS rating,
+      count(r.id)::INTEGER AS rating_count,
+      jsonb_build_object(
+        '1', count(*) FILTER (WHERE r.rating = 1),
+        '2', count(*) FILTER (WHERE r.rating = 2),
+        '3', count(*) FILTER (WHERE r.rating = 3),
+        '4', count(*) FILTER (WHERE r.rating = 4),
+        '5', count(*) FILTER (WHERE r.rating = 5)
+      ) AS rating_distribution
+    FROM public.reviews r
+    WHERE r.worker_id = _worker_id AND r.revealed_at IS NOT NULL AND r.hidden_at IS NULL
+  ) stats
+  WHERE wp.id = _worker_id;
+END;
+$$;
+
+DROP TRIGGER refresh_reviews_worker_stats ON public.reviews;
+
+CREATE TRIGGER refresh_reviews_worker_stats
+  AFTER INSERT OR UPDATE OF rating, criteria_ratings, worker_id, revealed_at, hidden_at OR DELETE ON public.reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_worker_stats_from_reviews();
+
+-- Photos of hidden reviews are hidden with them; admins see them all
+DROP POLICY "Review photos are visible with their review" ON storage.objects;
+
+CREATE POLICY "Review photos are visible with their review"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'review-photos' AND (
+    auth.uid()::text = (storage.foldername(name))[1] OR
+    public.has_role(auth.uid(), 'admin') OR
+    EXISTS (
+      SELECT 1 FROM public.reviews
+      WHERE reviews.photos @> jsonb_build_array(jsonb_build_object('path', objects.name))
+      AND reviews.revealed_at IS NOT NULL
+      AND reviews.hidden_at IS NULL
+    )
+  )
+);
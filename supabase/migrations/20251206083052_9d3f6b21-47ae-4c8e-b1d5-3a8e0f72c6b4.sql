@@ -0,0 +1,144 @@
+-- Unified inbox of direct and booking conversations. Booking threads get the
+-- same read tracking as direct messages.
+ALTER TABLE public.messages ADD COLUMN read_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_messages_booking_created_at ON public.messages(booking_id, created_at DESC);
+CREATE INDEX idx_messages_unread ON public.messages(booking_id) WHERE read_at IS NULL;
+CREATE INDEX idx_direct_messages_unread ON public.direct_messages(receiver_id, sender_id) WHERE read_at IS NULL;
+
+-- Neither message table has an UPDATE policy, so messages are marked read
+-- through these functions. Only messages sent to the caller are touched.
+CREATE OR REPLACE FUNCTION public.mark_direct_messages_read(_partner_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.direct_messages
+  SET read_at = now()
+  WHERE receiver_id = auth.uid()
+  AND sender_id = _partner_id
+  AND read_at IS NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_booking_messages_read(_booking_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.messages m
+  SET read_at = now()
+  FROM public.bookings b
+  JOIN public.worker_profiles wp ON wp.id = b.worker_id
+  WHERE m.booking_id = _booking_id
+  AND b.id = m.booking_id
+  AND (b.hirer_id = auth.uid() OR wp.user_id = auth.uid())
+  AND m.sender_id <> auth.uid()
+  AND m.read_at IS NULL;
+$$;
+
+-- One row per conversation of the caller, newest first: a direct thread per
+-- partner and a booking thread per booking that has messages
+CREATE OR REPLACE FUNCTION public.get_inbox_conversations()
+RETURNS TABLE (
+  conversation_type TEXT,
+  partner_id UUID,
+  partner_name TEXT,
+  partner_avatar_url TEXT,
+  booking_id UUID,
+  booking_status TEXT,
+  work_description TEXT,
+  last_message TEXT,
+  last_message_file_type TEXT,
+  last_message_sender_id UUID,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  unread_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH direct_threads AS (
+    SELECT DISTINCT ON (partner_id) *
+    FROM (
+      SELECT
+        CASE WHEN dm.sender_id = auth.uid() THEN dm.receiver_id ELSE dm.sender_id END AS partner_id,
+        dm.content,
+        dm.file_type,
+        dm.sender_id,
+        dm.created_at
+      FROM public.direct_messages dm
+      WHERE dm.sender_id = auth.uid() OR dm.receiver_id = auth.uid()
+    ) dm
+    ORDER BY partner_id, created_at DESC
+  ),
+  direct_unread AS (
+    SELECT sender_id AS partner_id, count(*)::INTEGER AS unread_count
+    FROM public.direct_messages
+    WHERE receiver_id = auth.uid() AND read_at IS NULL
+    GROUP BY sender_id
+  ),
+  my_bookings AS (
+    SELECT
+      b.id,
+      b.status,
+      b.work_description,
+      CASE WHEN b.hirer_id = auth.uid() THEN wp.user_id ELSE b.hirer_id END AS partner_id
+    FROM public.bookings b
+    JOIN public.worker_profiles wp ON wp.id = b.worker_id
+    WHERE b.hirer_id = auth.uid() OR wp.user_id = auth.uid()
+  ),
+  booking_threads AS (
+    SELECT DISTINCT ON (m.booking_id) m.booking_id, m.content, m.file_type, m.sender_id, m.created_at
+    FROM public.messages m
+    JOIN my_bookings mb ON mb.id = m.booking_id
+    ORDER BY m.booking_id, m.created_at DESC
+  ),
+  booking_unread AS (
+    SELECT m.booking_id, count(*)::INTEGER AS unread_count
+    FROM public.messages m
+    JOIN my_bookings mb ON mb.id = m.booking_id
+    WHERE m.sender_id <> auth.uid() AND m.read_at IS NULL
+    GROUP BY m.booking_id
+  )
+  SELECT * FROM (
+    SELECT
+      'direct'::TEXT,
+      t.partner_id,
+      p.full_name,
+      p.avatar_url,
+      NULL::UUID,
+      NULL::TEXT,
+      NULL::TEXT,
+      t.content,
+      t.file_type,
+      t.sender_id,
+      t.created_at,
+      COALESCE(u.unread_count, 0)
+    FROM direct_threads t
+    LEFT JOIN public.profiles p ON p.id = t.partner_id
+    LEFT JOIN direct_unread u ON u.partner_id = t.partner_id
+
+    UNION ALL
+
+    SELECT
+      'booking'::TEXT,
+      mb.partner_id,
+      p.full_name,
+      p.avatar_url,
+      mb.id,
+      mb.status,
+      mb.work_description,
+      t.content,
+      t.file_type,
+      t.sender_id,
+      t.created_at,
+      COALESCE(u.unread_count, 0)
+    FROM booking_threads t
+    JOIN my_bookings mb ON mb.id = t.booking_id
+    LEFT JOIN public.profiles p ON p.id = mb.partner_id
+    LEFT JOIN booking_unread u ON u.booking_id = t.booking_id
+  ) conversations
+  ORDER BY 11 DESC;
+$$;
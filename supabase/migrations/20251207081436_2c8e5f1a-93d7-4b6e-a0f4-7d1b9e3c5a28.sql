@@ -0,0 +1,47 @@
+-- Chat attachments are private: only the two people in the conversation can
+-- read them, through short-lived signed URLs. Messages store the object path
+-- instead of a public URL.
+UPDATE storage.buckets
+SET public = false,
+    file_size_limit = 10485760,
+    allowed_mime_types = ARRAY[
+      'image/jpeg', 'image/png', 'image/webp', 'image/gif',
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'text/plain'
+    ]
+WHERE id = 'chat-files';
+
+ALTER TABLE public.direct_messages RENAME COLUMN file_url TO file_path;
+
+-- Existing public links become paths within the bucket
+UPDATE public.direct_messages
+SET file_path = substring(file_path FROM '/storage/v1/object/public/chat-files/([^?]+)')
+WHERE file_path ~ '/storage/v1/object/public/chat-files/';
+
+-- A message can only attach the sender's own uploads; otherwise quoting
+-- another user's path would grant access to their file. NOT VALID leaves any
+-- legacy rows alone.
+ALTER TABLE public.direct_messages
+  ADD CONSTRAINT direct_messages_file_path_owner
+  CHECK (file_path IS NULL OR file_path LIKE sender_id::text || '/%') NOT VALID;
+
+CREATE INDEX idx_direct_messages_file_path ON public.direct_messages(file_path) WHERE file_path IS NOT NULL;
+
+DROP POLICY "Users can view chat files" ON storage.objects;
+
+CREATE POLICY "Conversation participants can view chat files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-files' AND (
+    auth.uid()::text = (storage.foldername(name))[1] OR
+    EXISTS (
+      SELECT 1 FROM public.direct_messages
+      WHERE direct_messages.file_path = objects.name
+      AND auth.uid() IN (direct_messages.sender_id, direct_messages.receiver_id)
+    )
+  )
+);
@@ -0,0 +1,39 @@
+-- Attachments in booking threads, stored like direct message attachments:
+-- the object path in the private chat-files bucket, readable by both parties
+-- to the booking.
+ALTER TABLE public.messages RENAME COLUMN file_url TO file_path;
+
+UPDATE public.messages
+SET file_path = substring(file_path FROM '/storage/v1/object/public/chat-files/([^?]+)')
+WHERE file_path ~ '/storage/v1/object/public/chat-files/';
+
+-- Only the sender's own uploads can be attached
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_file_path_owner
+  CHECK (file_path IS NULL OR file_path LIKE sender_id::text || '/%') NOT VALID;
+
+CREATE INDEX idx_messages_file_path ON public.messages(file_path) WHERE file_path IS NOT NULL;
+
+DROP POLICY "Conversation participants can view chat files" ON storage.objects;
+
+CREATE POLICY "Conversation participants can view chat files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-files' AND (
+    auth.uid()::text = (storage.foldername(name))[1] OR
+    EXISTS (
+      SELECT 1 FROM public.direct_messages
+      WHERE direct_messages.file_path = objects.name
+      AND auth.uid() IN (direct_messages.sender_id, direct_messages.receiver_id)
+    ) OR
+    EXISTS (
+      SELECT 1 FROM public.messages
+      JOIN public.bookings ON bookings.id = messages.booking_id
+      JOIN public.worker_profiles ON worker_profiles.id = bookings.worker_id
+      WHERE messages.file_path = objects.name
+      AND auth.uid() IN (bookings.hirer_id, worker_profiles.user_id)
+    )
+  )
+);
@@ -0,0 +1,14 @@
+-- Last time a user was online, shown in chats when they are away. Live
+-- online status and typing come from Realtime presence; this is only the
+-- fallback once they have left.
+ALTER TABLE public.profiles ADD COLUMN last_seen_at TIMESTAMP WITH TIME ZONE;
+
+-- Called by the client while it is connected
+CREATE OR REPLACE FUNCTION public.touch_last_seen()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.profiles SET last_seen_at = now() WHERE id = auth.uid();
+$$;
@@ -0,0 +1,236 @@
+-- Editing and deleting direct messages, and reporting them to admins. Every
+-- earlier version of a message is kept as a revision, and reports snapshot
+-- the message, so evidence survives edits and deletion.
+ALTER TABLE public.direct_messages
+  ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Previous versions of edited or deleted messages; only admins read them
+CREATE TABLE public.direct_message_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.direct_messages(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  file_path TEXT,
+  file_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.direct_message_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view message revisions"
+  ON public.direct_message_revisions
+  FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_direct_message_revisions_message_id ON public.direct_message_revisions(message_id, created_at);
+
+-- Senders can edit a message for this long after sending it
+CREATE OR REPLACE FUNCTION public.direct_message_edit_window()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT interval '15 minutes';
+$$;
+
+-- There is no UPDATE policy on direct_messages; content only changes here
+CREATE OR REPLACE FUNCTION public.edit_direct_message(_message_id UUID, _content TEXT)
+RETURNS public.direct_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _message public.direct_messages;
+BEGIN
+  SELECT * INTO _message FROM public.direct_messages WHERE id = _message_id FOR UPDATE;
+  IF _message.id IS NULL OR _message.sender_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Message not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Message has been deleted' USING ERRCODE = 'MS002';
+  END IF;
+
+  IF now() > _message.created_at + public.direct_message_edit_window() THEN
+    RAISE EXCEPTION 'Messages can only be edited for % after sending', public.direct_message_edit_window()
+      USING ERRCODE = 'MS001';
+  END IF;
+
+  IF length(btrim(COALESCE(_content, ''))) = 0 THEN
+    RAISE EXCEPTION 'Message cannot be empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF btrim(_content) = _message.content THEN
+    RETURN _message;
+  END IF;
+
+  INSERT INTO public.direct_message_revisions (message_id, content, file_path, file_type)
+  VALUES (_message.id, _message.content, _message.file_path, _message.file_type);
+
+  UPDATE public.direct_messages
+  SET content = btrim(_content), edited_at = now()
+  WHERE id = _message_id
+  RETURNING * INTO _message;
+
+  RETURN _message;
+END;
+$$;
+
+-- Removes a message for both participants. The sender can delete their own
+-- messages at any time; moderation uses the same path.
+CREATE OR REPLACE FUNCTION public.remove_direct_message(_message_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _message public.direct_messages;
+BEGIN
+  SELECT * INTO _message FROM public.direct_messages WHERE id = _message_id FOR UPDATE;
+  IF _message.id IS NULL THEN
+    RAISE EXCEPTION 'Message not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _message.sender_id IS DISTINCT FROM auth.uid() AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only the sender can delete this message' USING ERRCODE = '42501';
+  END IF;
+
+  IF _message.deleted_at IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.direct_message_revisions (message_id, content, file_path, file_type)
+  VALUES (_message.id, _message.content, _message.file_path, _message.file_type);
+
+  -- The attachment stays in storage for the uploader and admins only
+  UPDATE public.direct_messages
+  SET content = '', file_path = NULL, file_type = NULL, deleted_at = now()
+  WHERE id = _message_id;
+END;
+$$;
+
+-- Reports of harassment or spam; each participant reports a message once
+CREATE TABLE public.direct_message_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES public.direct_messages(id) ON DELETE CASCADE,
+  reporter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('harassment', 'spam', 'other')),
+  details TEXT,
+  message_snapshot JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'dismissed')),
+  resolution_notes TEXT,
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (message_id, reporter_id),
+  CHECK (reason <> 'other' OR details IS NOT NULL)
+);
+
+ALTER TABLE public.direct_message_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reporters and admins can view message reports"
+  ON public.direct_message_reports
+  FOR SELECT
+  TO authenticated
+  USING (reporter_id = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+-- Reports are resolved through moderate_direct_message
+CREATE POLICY "Participants can report messages"
+  ON public.direct_message_reports
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    reporter_id = auth.uid() AND
+    status = 'open' AND
+    resolution_notes IS NULL AND
+    resolved_by IS NULL AND
+    resolved_at IS NULL AND
+    EXISTS (
+      SELECT 1 FROM public.direct_messages
+      WHERE direct_messages.id = direct_message_reports.message_id
+      AND auth.uid() IN (direct_messages.sender_id, direct_messages.receiver_id)
+    )
+  );
+
+CREATE INDEX idx_direct_message_reports_open ON public.direct_message_reports(message_id) WHERE status = 'open';
+
+-- The snapshot is taken from the message itself, never from the client
+CREATE OR REPLACE FUNCTION public.snapshot_reported_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT to_jsonb(dm) INTO NEW.message_snapshot
+  FROM public.direct_messages dm
+  WHERE dm.id = NEW.message_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER snapshot_direct_message_reports
+  BEFORE INSERT ON public.direct_message_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.snapshot_reported_message();
+
+-- Closes a message's open reports
+--   remove   message is deleted for both participants
+--   dismiss  reports are unfounded; the message is left as it is
+CREATE OR REPLACE FUNCTION public.moderate_direct_message(_message_id UUID, _action TEXT, _notes TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can moderate messages' USING ERRCODE = '42501';
+  END IF;
+
+  IF _action NOT IN ('remove', 'dismiss') THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', _action USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.direct_message_reports
+  SET status = CASE WHEN _action = 'dismiss' THEN 'dismissed' ELSE 'resolved' END,
+      resolution_notes = NULLIF(btrim(_notes), ''),
+      resolved_by = auth.uid(),
+      resolved_at = now()
+  WHERE message_id = _message_id AND status = 'open';
+
+  IF _action = 'remove' THEN
+    PERFORM public.remove_direct_message(_message_id);
+  END IF;
+END;
+$$;
+
+-- Admins can open attachments that were reported as evidence
+DROP POLICY "Conversation participants can view chat files" ON storage.objects;
+
+CREATE POLICY "Conversation participants can view chat files"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'chat-files' AND (
+    auth.uid()::text = (storage.foldername(name))[1] OR
+    public.has_role(auth.uid(), 'admin') OR
+    EXISTS (
+      SELECT 1 FROM public.direct_messages
+      WHERE direct_messages.file_path = objects.name
+      AND auth.uid() IN (direct_messages.sender_id, direct_messages.receiver_id)
+    ) OR
+    EXISTS (
+      SELECT 1 FROM public.messages
+      JOIN public.bookings ON bookings.id = messages.booking_id
+      JOIN public.worker_profiles ON worker_profiles.id = bookings.worker_id
+      WHERE messages.file_path = objects.name
+      AND auth.uid() IN (bookings.hirer_id, worker_profiles.user_id)
+    )
+  )
+);
@@ -0,0 +1,346 @@
+-- Blocking and muting. A block works in both directions: neither user can
+-- message the other, the blocked user can't book the blocker (or the other
+-- way round), and they drop out of each other's search results. Muting only
+-- quiets one conversation for one user.
+CREATE TABLE public.user_blocks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  blocker_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  blocked_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+ALTER TABLE public.user_blocks ENABLE ROW LEVEL SECURITY;
+
+-- Users only list their own blocks. Being blocked isn't secret, though: a
+-- block works both ways, so messages and bookings to the blocker fail, and
+-- is_blocked_with answers for any user id.
+CREATE POLICY "Users can view own blocks"
+  ON public.user_blocks
+  FOR SELECT
+  TO authenticated
+  USING (blocker_id = auth.uid());
+
+CREATE POLICY "Users can block others"
+  ON public.user_blocks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (blocker_id = auth.uid());
+
+CREATE POLICY "Users can unblock others"
+  ON public.user_blocks
+  FOR DELETE
+  TO authenticated
+  USING (blocker_id = auth.uid());
+
+CREATE INDEX idx_user_blocks_blocked_id ON public.user_blocks(blocked_id);
+
+-- Whether the caller and _user_id have blocked each other, either way round.
+-- Runs as definer so policies can see blocks made by the other user. The
+-- policies run as the caller, so it stays callable as an RPC; together with
+-- their own blocks, that tells the caller who has blocked them.
+CREATE OR REPLACE FUNCTION public.is_blocked_with(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_blocks
+    WHERE (blocker_id = auth.uid() AND blocked_id = _user_id)
+    OR (blocker_id = _user_id AND blocked_id = auth.uid())
+  );
+$$;
+
+DROP POLICY "Users can send direct messages" ON public.direct_messages;
+
+CREATE POLICY "Users can send direct messages"
+ON public.direct_messages
+FOR INSERT
+WITH CHECK (auth.uid() = sender_id AND NOT public.is_blocked_with(receiver_id));
+
+DROP POLICY "Users can send messages in their bookings" ON public.messages;
+
+CREATE POLICY "Users can send messages in their bookings"
+  ON public.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid() AND
+    EXISTS (
+      SELECT 1 FROM public.bookings
+      JOIN public.worker_profiles ON worker_profiles.id = bookings.worker_id
+      WHERE bookings.id = messages.booking_id
+      AND auth.uid() IN (bookings.hirer_id, worker_profiles.user_id)
+      AND NOT public.is_blocked_with(
+        CASE WHEN bookings.hirer_id = auth.uid() THEN worker_profiles.user_id ELSE bookings.hirer_id END
+      )
+    )
+  );
+
+DROP POLICY "Hirers can create bookings" ON public.bookings;
+
+CREATE POLICY "Hirers can create bookings"
+  ON public.bookings
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = hirer_id AND
+    NOT EXISTS (
+      SELECT 1 FROM public.worker_profiles
+      WHERE worker_profiles.id = bookings.worker_id
+      AND public.is_blocked_with(worker_profiles.user_id)
+    )
+  );
+
+-- A muted conversation is either a direct chat with a partner or a booking thread
+CREATE TABLE public.conversation_mutes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  partner_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(partner_id, booking_id) = 1)
+);
+
+ALTER TABLE public.conversation_mutes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own mutes"
+  ON public.conversation_mutes
+  FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE UNIQUE INDEX idx_conversation_mutes_partner ON public.conversation_mutes(user_id, partner_id) WHERE partner_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_conversation_mutes_booking ON public.conversation_mutes(user_id, booking_id) WHERE booking_id IS NOT NULL;
+
+-- Search leaves out workers the caller has a block with
+CREATE OR REPLACE FUNCTION public.search_workers(
+  _query TEXT DEFAULT NULL,
+  _category_id UUID DEFAULT NULL,
+  _lat DOUBLE PRECISION DEFAULT NULL,
+  _lng DOUBLE PRECISION DEFAULT NULL,
+  _radius_km DOUBLE PRECISION DEFAULT NULL,
+  _min_hourly_rate NUMERIC DEFAULT NULL,
+  _max_hourly_rate NUMERIC DEFAULT NULL,
+  _min_daily_rate NUMERIC DEFAULT NULL,
+  _max_daily_rate NUMERIC DEFAULT NULL,
+  _min_experience INTEGER DEFAULT NULL,
+  _min_rating NUMERIC DEFAULT NULL,
+  _verification_status TEXT DEFAULT NULL,
+  _available_on DATE DEFAULT NULL,
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  worker_id UUID,
+  rank REAL,
+  distance_km DOUBLE PRECISION,
+  name_highlight TEXT,
+  bio_highlight TEXT,
+  matched_skills TEXT[],
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+#variable_conflict use_column
+DECLARE
+  _search TEXT := NULLIF(trim(_query), '');
+  _tsq tsquery;
+  _geo BOOLEAN := _lat IS NOT NULL AND _lng IS NOT NULL AND _radius_km IS NOT NULL;
+  _headline_opts TEXT := 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12';
+BEGIN
+  IF _search IS NOT NULL THEN
+    -- Prefix-match every word so results keep up while the hirer is still typing
+    SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & '))
+      INTO _tsq
+      FROM regexp_split_to_table(lower(_search), '[^[:alnum:]]+') AS word
+      WHERE word <> '';
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      wp.id,
+      wp.rating,
+      wp.skills,
+      wp.bio,
+      p.full_name,
+      CASE
+        WHEN _search IS NULL THEN 0::REAL
+        ELSE (COALESCE(ts_rank_cd(wp.search_vector, _tsq), 0) + word_similarity(_search, wp.search_document))::REAL
+      END AS score,
+      CASE
+        WHEN _geo THEN public.haversine_km(_lat, _lng, p.location_lat, p.location_lng)
+      END AS km
+    FROM public.worker_profiles wp
+    JOIN public.profiles p ON p.id = wp.user_id
+    WHERE (_category_id IS NULL OR wp.category_id = _category_id)
+      -- Full-text match, or a trigram word match to tolerate typos ("plumbr")
+      AND (_search IS NULL OR wp.search_vector @@ _tsq OR _search <% wp.search_document)
+      AND (NOT _geo OR (
+        p.location_lat BETWEEN _lat - _radius_km / 111.0 AND _lat + _radius_km / 111.0
+        AND p.location_lng BETWEEN _lng - _radius_km / (111.0 * GREATEST(cos(radians(_lat)), 0.01))
+                               AND _lng + _radius_km / (111.0 * GREATEST(cos(radians(_lat)), 0.01))
+      ))
+      AND (_min_hourly_rate IS NULL OR wp.hourly_rate >= _min_hourly_rate)
+      AND (_max_hourly_rate IS NULL OR wp.hourly_rate <= _max_hourly_rate)
+      AND (_min_daily_rate IS NULL OR wp.daily_rate >= _min_daily_rate)
+      AND (_max_daily_rate IS NULL OR wp.daily_rate <= _max_daily_rate)
+      AND (_min_experience IS NULL OR COALESCE(wp.experience_years, 0) >= _min_experience)
+      AND (_min_rating IS NULL OR COALESCE(wp.rating, 0) >= _min_rating)
+      AND (_verification_status IS NULL OR wp.verification_status = _verification_status)
+      AND NOT public.is_blocked_with(wp.user_id)
+      -- Same rules as the booking form, including recurring availability
+      AND (_available_on IS NULL OR (
+        public.worker_day_status(wp.id, _available_on) = 'available'
+        AND NOT public.is_worker_booked_on(wp.id, _available_on)
+      ))
+  )
+  SELECT
+    m.id,
+    m.score,
+    m.km,
+    CASE WHEN _tsq IS NOT NULL
+      THEN ts_headline('english', m.full_name, _tsq, _headline_opts || ', HighlightAll=true')
+      ELSE m.full_name
+    END,
+    CASE WHEN _tsq IS NOT NULL AND m.bio IS NOT NULL
+      THEN ts_headline('english', m.bio, _tsq, _headline_opts)
+      ELSE m.bio
+    END,
+    CASE WHEN _search IS NOT NULL
+      THEN ARRAY(
+        SELECT skill FROM unnest(m.skills) AS skill
+        WHERE to_tsvector('english', skill) @@ _tsq OR _search <% skill
+      )
+      ELSE ARRAY[]::TEXT[]
+    END,
+    count(*) OVER ()
+  FROM matches m
+  WHERE NOT _geo OR m.km <= _radius_km
+  ORDER BY m.score DESC, m.km ASC NULLS LAST, m.rating DESC NULLS LAST, m.id
+  LIMIT _limit
+  OFFSET _offset;
+END;
+$$;
+
+-- Inbox rows say whether the conversation is muted
+DROP FUNCTION public.get_inbox_conversations();
+
+CREATE OR REPLACE FUNCTION public.get_inbox_conversations()
+RETURNS TABLE (
+  conversation_type TEXT,
+  partner_id UUID,
+  partner_name TEXT,
+  partner_avatar_url TEXT,
+  booking_id UUID,
+  booking_status TEXT,
+  work_description TEXT,
+  last_message TEXT,
+  last_message_file_type TEXT,
+  last_message_sender_id UUID,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  unread_count INTEGER,
+  muted BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH direct_threads AS (
+    SELECT DISTINCT ON (partner_id) *
+    FROM (
+      SELECT
+        CASE WHEN dm.sender_id = auth.uid() THEN dm.receiver_id ELSE dm.sender_id END AS partner_id,
+        dm.content,
+        dm.file_type,
+        dm.sender_id,
+        dm.created_at
+      FROM public.direct_messages dm
+      WHERE dm.sender_id = auth.uid() OR dm.receiver_id = auth.uid()
+    ) dm
+    ORDER BY partner_id, created_at DESC
+  ),
+  direct_unread AS (
+    SELECT sender_id AS partner_id, count(*)::INTEGER AS unread_count
+    FROM public.direct_messages
+    WHERE receiver_id = auth.uid() AND read_at IS NULL
+    GROUP BY sender_id
+  ),
+  my_bookings AS (
+    SELECT
+      b.id,
+      b.status,
+      b.work_description,
+      CASE WHEN b.hirer_id = auth.uid() THEN wp.user_id ELSE b.hirer_id END AS partner_id
+    FROM public.bookings b
+    JOIN public.worker_profiles wp ON wp.id = b.worker_id
+    WHERE b.hirer_id = auth.uid() OR wp.user_id = auth.uid()
+  ),
+  booking_threads AS (
+    SELECT DISTINCT ON (m.booking_id) m.booking_id, m.content, m.file_type, m.sender_id, m.created_at
+    FROM public.messages m
+    JOIN my_bookings mb ON mb.id = m.booking_id
+    ORDER BY m.booking_id, m.created_at DESC
+  ),
+  booking_unread AS (
+    SELECT m.booking_id, count(*)::INTEGER AS unread_count
+    FROM public.messages m
+    JOIN my_bookings mb ON mb.id = m.booking_id
+    WHERE m.sender_id <> auth.uid() AND m.read_at IS NULL
+    GROUP BY m.booking_id
+  )
+  SELECT * FROM (
+    SELECT
+      'direct'::TEXT,
+      t.partner_id,
+      p.full_name,
+      p.avatar_url,
+      NULL::UUID,
+      NULL::TEXT,
+      NULL::TEXT,
+      t.content,
+      t.file_type,
+      t.sender_id,
+      t.created_at,
+      COALESCE(u.unread_count, 0),
+      EXISTS (
+        SELECT 1 FROM public.conversation_mutes cm
+        WHERE cm.user_id = auth.uid() AND cm.partner_id = t.partner_id
+      )
+    FROM direct_threads t
+    LEFT JOIN public.profiles p ON p.id = t.partner_id
+    LEFT JOIN direct_unread u ON u.partner_id = t.partner_id
+
+    UNION ALL
+
+    SELECT
+      'booking'::TEXT,
+      mb.partner_id,
+      p.full_name,
+      p.avatar_url,
+      mb.id,
+      mb.status,
+      mb.work_description,
+      t.content,
+      t.file_type,
+      t.sender_id,
+      t.created_at,
+      COALESCE(u.unread_count, 0),
+      EXISTS (
+        SELECT 1 FROM public.conversation_mutes cm
+        WHERE cm.user_id = auth.uid() AND cm.booking_id = t.booking_id
+      )
+    FROM booking_threads t
+    JOIN my_bookings mb ON mb.id = t.booking_id
+    LEFT JOIN public.profiles p ON p.id = mb.partner_id
+    LEFT JOIN booking_unread u ON u.booking_id = t.booking_id
+  ) conversations
+  ORDER BY 11 DESC;
+$$;
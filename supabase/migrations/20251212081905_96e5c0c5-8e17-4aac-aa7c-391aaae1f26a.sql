@@ -0,0 +1,135 @@
+-- The payment ledger is written by the booking-escrow edge function, which
+-- calls the provider and records its result with the service role. Clients
+-- used to post entries themselves, so any participant could record a hold
+-- of any amount, or a capture or payout marked succeeded.
+ALTER TABLE public.payments
+  ADD CONSTRAINT payments_amount_positive CHECK (amount > 0) NOT VALID;
+
+-- A zero hold left confirmed bookings refunded with nothing in the ledger,
+-- and refunded bookings can't be held again. Put them back to pending.
+UPDATE public.bookings
+SET payment_status = 'pending'
+WHERE status IN ('confirmed', 'in_progress')
+AND payment_status IN ('authorized', 'refunded')
+AND NOT EXISTS (
+  SELECT 1 FROM public.payments
+  WHERE payments.booking_id = bookings.id
+  AND payments.status = 'succeeded'
+  AND payments.amount > 0
+);
+
+DROP FUNCTION public.record_payment_entry(UUID, TEXT, NUMERIC, TEXT, TEXT, TEXT, TEXT);
+
+-- As before, but callers are trusted to have checked the booking's
+-- participants; amounts must be positive and a hold must be for exactly
+-- the agreed rate.
+CREATE OR REPLACE FUNCTION public.record_payment_entry(
+  _booking_id UUID,
+  _entry_type TEXT,
+  _amount NUMERIC,
+  _status TEXT,
+  _provider TEXT,
+  _provider_reference TEXT DEFAULT NULL,
+  _failure_reason TEXT DEFAULT NULL,
+  _created_by UUID DEFAULT NULL
+)
+RETURNS public.payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+  _balance NUMERIC;
+  _captured NUMERIC;
+  _paid_out NUMERIC;
+  _fee_to_capture NUMERIC;
+  _entry public.payments;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amounts must be positive' USING ERRCODE = 'PY003';
+  END IF;
+
+  _balance := public.booking_payment_balance(_booking_id);
+  SELECT
+    COALESCE(sum(amount) FILTER (WHERE entry_type = 'capture'), 0),
+    COALESCE(sum(amount) FILTER (WHERE entry_type = 'payout'), 0)
+  INTO _captured, _paid_out
+  FROM public.payments
+  WHERE booking_id = _booking_id AND status = 'succeeded';
+  _fee_to_capture := GREATEST(COALESCE(_booking.cancellation_fee, 0) - _captured, 0);
+
+  IF _entry_type = 'authorization' THEN
+    IF _booking.status NOT IN ('confirmed', 'in_progress') OR _booking.payment_status NOT IN ('pending', 'failed') THEN
+      RAISE EXCEPTION 'Funds can only be held once a booking is confirmed' USING ERRCODE = 'PY001';
+    END IF;
+    IF _amount <> _booking.agreed_rate THEN
+      RAISE EXCEPTION 'The hold must be for the agreed rate of %', _booking.agreed_rate USING ERRCODE = 'PY003';
+    END IF;
+  ELSIF _entry_type = 'capture' THEN
+    IF _booking.status NOT IN ('completed', 'cancelled') OR _booking.payment_status <> 'authorized' THEN
+      RAISE EXCEPTION 'Funds can only be captured for a completed booking with a hold' USING ERRCODE = 'PY001';
+    END IF;
+    IF _amount > _balance OR (_booking.status = 'cancelled' AND _amount > _fee_to_capture) THEN
+      RAISE EXCEPTION 'Capture exceeds the held amount' USING ERRCODE = 'PY002';
+    END IF;
+  ELSIF _entry_type = 'payout' THEN
+    IF _booking.status NOT IN ('completed', 'cancelled') OR _booking.payment_status <> 'authorized' THEN
+      RAISE EXCEPTION 'Payouts require a completed booking with captured funds' USING ERRCODE = 'PY001';
+    END IF;
+    IF _amount > _captured - _paid_out THEN
+      RAISE EXCEPTION 'Payout exceeds the captured amount' USING ERRCODE = 'PY002';
+    END IF;
+  ELSIF _entry_type = 'refund' THEN
+    IF _booking.status <> 'cancelled' OR _booking.payment_status <> 'authorized' THEN
+      RAISE EXCEPTION 'Refunds are only issued for cancelled bookings with funds held' USING ERRCODE = 'PY001';
+    END IF;
+    IF _amount > _balance - _fee_to_capture THEN
+      RAISE EXCEPTION 'Refund exceeds the held amount' USING ERRCODE = 'PY002';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown payment entry type %', _entry_type USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.payments (
+    booking_id, entry_type, amount, status, provider, provider_reference, failure_reason, created_by
+  )
+  VALUES (
+    _booking_id, _entry_type, _amount, _status, _provider, _provider_reference, _failure_reason, _created_by
+  )
+  RETURNING * INTO _entry;
+
+  IF _status = 'succeeded' THEN
+    _balance := public.booking_payment_balance(_booking_id);
+    SELECT
+      COALESCE(sum(amount) FILTER (WHERE entry_type = 'capture'), 0),
+      COALESCE(sum(amount) FILTER (WHERE entry_type = 'payout'), 0)
+    INTO _captured, _paid_out
+    FROM public.payments
+    WHERE booking_id = _booking_id AND status = 'succeeded';
+
+    UPDATE public.bookings
+    SET payment_status = CASE
+      WHEN _balance > 0 OR _captured > _paid_out THEN 'authorized'
+      WHEN _paid_out > 0 THEN 'paid'
+      ELSE 'refunded'
+    END
+    WHERE id = _booking_id;
+  ELSIF _entry_type = 'authorization' THEN
+    UPDATE public.bookings SET payment_status = 'failed' WHERE id = _booking_id;
+  END IF;
+
+  RETURN _entry;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_payment_entry(UUID, TEXT, NUMERIC, TEXT, TEXT, TEXT, TEXT, UUID)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_entry(UUID, TEXT, NUMERIC, TEXT, TEXT, TEXT, TEXT, UUID)
+  TO service_role;
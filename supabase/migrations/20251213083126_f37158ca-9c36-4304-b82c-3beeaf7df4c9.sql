@@ -0,0 +1,159 @@
+-- Blocks also cover negotiation. make_booking_offer and accept_booking_offer
+-- run as definer, so the RLS checks on messages and bookings never applied
+-- to them: a blocked user could keep countering (with a message) or confirm
+-- the booking by accepting an open offer.
+
+-- The other participant of a booking, from the caller's side
+CREATE OR REPLACE FUNCTION public.booking_counterparty(_booking public.bookings)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE public.booking_actor(_booking)
+    WHEN 'hirer' THEN (SELECT user_id FROM public.worker_profiles WHERE id = _booking.worker_id)
+    WHEN 'worker' THEN _booking.hirer_id
+  END;
+$$;
+
+-- BK009  either party has blocked the other
+CREATE OR REPLACE FUNCTION public.make_booking_offer(
+  _booking_id UUID,
+  _rate NUMERIC,
+  _booking_date DATE,
+  _start_time TIME DEFAULT NULL,
+  _duration_hours NUMERIC DEFAULT NULL,
+  _message TEXT DEFAULT NULL
+)
+RETURNS public.booking_offers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+  _actor TEXT;
+  _open public.booking_offers;
+  _offer public.booking_offers;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+  _actor := public.booking_actor(_booking);
+
+  IF _actor IS NULL THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF public.is_blocked_with(public.booking_counterparty(_booking)) THEN
+    RAISE EXCEPTION 'Offers can''t be made while either party has blocked the other' USING ERRCODE = 'BK009';
+  END IF;
+
+  IF _booking.status <> 'pending' THEN
+    RAISE EXCEPTION 'Offers can only be made on pending bookings' USING ERRCODE = 'BK007';
+  END IF;
+
+  SELECT * INTO _open FROM public.booking_offers WHERE booking_id = _booking_id AND status = 'open';
+  IF FOUND AND _open.offered_by_role = _actor THEN
+    RAISE EXCEPTION 'Your last offer is still waiting for a response' USING ERRCODE = 'BK008';
+  END IF;
+
+  UPDATE public.booking_offers
+  SET status = 'superseded', responded_at = now()
+  WHERE id = _open.id;
+
+  INSERT INTO public.booking_offers (
+    booking_id, version, offered_by, offered_by_role, rate, booking_date, start_time, duration_hours, message
+  )
+  SELECT
+    _booking_id, COALESCE(max(version), 0) + 1, auth.uid(), _actor,
+    _rate, _booking_date, _start_time, _duration_hours, NULLIF(btrim(_message), '')
+  FROM public.booking_offers
+  WHERE booking_id = _booking_id
+  RETURNING * INTO _offer;
+
+  RETURN _offer;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_booking_offer(_offer_id UUID)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _offer public.booking_offers;
+  _booking public.bookings;
+  _actor TEXT;
+BEGIN
+  SELECT * INTO _offer FROM public.booking_offers WHERE id = _offer_id FOR UPDATE;
+  SELECT * INTO _booking FROM public.bookings WHERE id = _offer.booking_id FOR UPDATE;
+  _actor := public.booking_actor(_booking);
+
+  IF _offer.id IS NULL OR _actor IS NULL THEN
+    RAISE EXCEPTION 'Offer not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF public.is_blocked_with(public.booking_counterparty(_booking)) THEN
+    RAISE EXCEPTION 'Offers can''t be accepted while either party has blocked the other' USING ERRCODE = 'BK009';
+  END IF;
+
+  IF _offer.status <> 'open' OR _booking.status <> 'pending' THEN
+    RAISE EXCEPTION 'This offer is no longer open' USING ERRCODE = 'BK007';
+  END IF;
+
+  IF _offer.offered_by_role = _actor THEN
+    RAISE EXCEPTION 'Your last offer is still waiting for a response' USING ERRCODE = 'BK008';
+  END IF;
+
+  UPDATE public.booking_offers
+  SET status = 'accepted', responded_at = now()
+  WHERE id = _offer_id;
+
+  PERFORM set_config('app.booking_change_reason', format('Offer v%s accepted', _offer.version), true);
+
+  UPDATE public.bookings
+  SET agreed_rate = _offer.rate,
+      booking_date = _offer.booking_date,
+      start_time = _offer.start_time,
+      duration_hours = _offer.duration_hours
+  WHERE id = _booking.id;
+
+  UPDATE public.bookings
+  SET status = 'confirmed'
+  WHERE id = _booking.id
+  RETURNING * INTO _booking;
+
+  PERFORM set_config('app.booking_change_reason', '', true);
+  RETURN _booking;
+END;
+$$;
+
+-- Blocking someone closes the open offers on pending bookings between the
+-- two, so nothing is left for either side to accept
+CREATE OR REPLACE FUNCTION public.close_offers_on_block()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.booking_offers o
+  SET status = 'closed', responded_at = now()
+  FROM public.bookings b
+  JOIN public.worker_profiles wp ON wp.id = b.worker_id
+  WHERE o.booking_id = b.id
+  AND o.status = 'open'
+  AND b.status = 'pending'
+  AND (
+    (b.hirer_id = NEW.blocker_id AND wp.user_id = NEW.blocked_id) OR
+    (b.hirer_id = NEW.blocked_id AND wp.user_id = NEW.blocker_id)
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER close_user_blocks_offers
+  AFTER INSERT ON public.user_blocks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.close_offers_on_block();
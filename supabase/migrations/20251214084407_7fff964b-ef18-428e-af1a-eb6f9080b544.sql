@@ -0,0 +1,89 @@
+-- Review update policies only checked the row being updated, so a reviewer
+-- could move a hidden review onto another booking, worker or hirer before it
+-- was published. Updates now re-check the booking the same way inserts do.
+-- Reviews past their deadline are also visible without waiting for
+-- reveal_due_reviews, which only runs where pg_cron is installed.
+DROP POLICY "Hirers can update their hidden reviews" ON public.reviews;
+
+CREATE POLICY "Hirers can update their hidden reviews"
+  ON public.reviews
+  FOR UPDATE
+  USING (
+    auth.uid() = hirer_id AND
+    revealed_at IS NULL AND
+    now() < public.booking_review_deadline(booking_id)
+  )
+  WITH CHECK (
+    auth.uid() = hirer_id AND
+    EXISTS (
+      SELECT 1 FROM public.bookings
+      WHERE bookings.id = reviews.booking_id
+      AND bookings.hirer_id = auth.uid()
+      AND bookings.worker_id = reviews.worker_id
+      AND bookings.status = 'completed'
+    )
+  );
+
+DROP POLICY "Workers can update their hidden hirer reviews" ON public.hirer_reviews;
+
+CREATE POLICY "Workers can update their hidden hirer reviews"
+  ON public.hirer_reviews
+  FOR UPDATE
+  TO authenticated
+  USING (
+    worker_id IN (SELECT id FROM public.worker_profiles WHERE user_id = auth.uid()) AND
+    revealed_at IS NULL AND
+    now() < public.booking_review_deadline(booking_id)
+  )
+  WITH CHECK (
+    worker_id IN (SELECT id FROM public.worker_profiles WHERE user_id = auth.uid()) AND
+    EXISTS (
+      SELECT 1 FROM public.bookings
+      WHERE bookings.id = hirer_reviews.booking_id
+      AND bookings.worker_id = hirer_reviews.worker_id
+      AND bookings.hirer_id = hirer_reviews.hirer_id
+      AND bookings.status = 'completed'
+    )
+  );
+
+DROP POLICY "Anyone can view published reviews" ON public.reviews;
+
+CREATE POLICY "Anyone can view published reviews"
+  ON public.reviews
+  FOR SELECT
+  USING (
+    ((revealed_at IS NOT NULL OR public.booking_review_deadline(booking_id) <= now()) AND hidden_at IS NULL) OR
+    auth.uid() = hirer_id OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+DROP POLICY "Authenticated users can view published hirer reviews" ON public.hirer_reviews;
+
+CREATE POLICY "Authenticated users can view published hirer reviews"
+  ON public.hirer_reviews
+  FOR SELECT
+  TO authenticated
+  USING (
+    revealed_at IS NOT NULL OR
+    public.booking_review_deadline(booking_id) <= now() OR
+    worker_id IN (SELECT id FROM public.worker_profiles WHERE user_id = auth.uid())
+  );
+
+-- Photos follow their review
+DROP POLICY "Review photos are visible with their review" ON storage.objects;
+
+CREATE POLICY "Review photos are visible with their review"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'review-photos' AND (
+    auth.uid()::text = (storage.foldername(name))[1] OR
+    public.has_role(auth.uid(), 'admin') OR
+    EXISTS (
+      SELECT 1 FROM public.reviews
+      WHERE reviews.photos @> jsonb_build_array(jsonb_build_object('path', objects.name))
+      AND (reviews.revealed_at IS NOT NULL OR public.booking_review_deadline(reviews.booking_id) <= now())
+      AND reviews.hidden_at IS NULL
+    )
+  )
+);
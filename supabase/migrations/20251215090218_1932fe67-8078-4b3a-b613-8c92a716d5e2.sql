@@ -0,0 +1,3 @@
+-- Counter-offers don't update the booking row, so the offer history is
+-- published on its own for the booking page to follow.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.booking_offers;
@@ -0,0 +1,82 @@
+-- The booking-escrow function called the payment provider before anything
+-- checked the booking, so a step that record_payment_entry then rejected
+-- had already moved money with nothing in the ledger. Each step now starts
+-- with begin_escrow_step, which locks the booking, checks the caller and the
+-- booking's state, and reserves the booking until finish_escrow_step.
+CREATE TABLE public.escrow_step_reservations (
+  booking_id UUID PRIMARY KEY REFERENCES public.bookings(id) ON DELETE CASCADE,
+  step TEXT NOT NULL CHECK (step IN ('hold', 'release', 'settle')),
+  reserved_by UUID NOT NULL,
+  reserved_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Only the service role reads or writes reservations
+ALTER TABLE public.escrow_step_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Reserves an escrow step for a booking participant
+-- P0002  the booking doesn't exist or the user isn't one of its participants
+-- PY001  the step doesn't fit the booking's status and payment status
+-- PY004  another step is still running for the booking
+CREATE OR REPLACE FUNCTION public.begin_escrow_step(_booking_id UUID, _step TEXT, _user_id UUID)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings;
+  _payment_status TEXT;
+  _allowed BOOLEAN;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    _booking.hirer_id = _user_id
+    OR EXISTS (SELECT 1 FROM public.worker_profiles WHERE id = _booking.worker_id AND user_id = _user_id)
+  ) THEN
+    RAISE EXCEPTION 'Booking not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  _payment_status := COALESCE(_booking.payment_status, 'pending');
+
+  _allowed := CASE _step
+    WHEN 'hold' THEN _booking.status IN ('confirmed', 'in_progress') AND _payment_status IN ('pending', 'failed')
+    WHEN 'release' THEN _booking.status = 'completed' AND _payment_status = 'authorized'
+    WHEN 'settle' THEN _booking.status = 'cancelled' AND _payment_status = 'authorized'
+    ELSE false
+  END;
+
+  IF NOT _allowed THEN
+    RAISE EXCEPTION 'Payment step % is not allowed for this booking', _step USING ERRCODE = 'PY001';
+  END IF;
+
+  -- A reservation left behind by a crashed run expires after five minutes
+  IF EXISTS (
+    SELECT 1 FROM public.escrow_step_reservations
+    WHERE booking_id = _booking_id AND reserved_at > now() - interval '5 minutes'
+  ) THEN
+    RAISE EXCEPTION 'A payment step is already running for this booking' USING ERRCODE = 'PY004';
+  END IF;
+
+  INSERT INTO public.escrow_step_reservations (booking_id, step, reserved_by)
+  VALUES (_booking_id, _step, _user_id)
+  ON CONFLICT (booking_id) DO UPDATE
+  SET step = EXCLUDED.step, reserved_by = EXCLUDED.reserved_by, reserved_at = now();
+
+  RETURN _booking;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.finish_escrow_step(_booking_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.escrow_step_reservations WHERE booking_id = _booking_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.begin_escrow_step(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.begin_escrow_step(UUID, TEXT, UUID) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.finish_escrow_step(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.finish_escrow_step(UUID) TO service_role;
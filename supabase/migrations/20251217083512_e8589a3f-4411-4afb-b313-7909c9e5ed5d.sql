@@ -0,0 +1,125 @@
+-- Invoices were labelled GST tax invoices without the supplier's or the
+-- recipient's GSTIN or the place of supply, and always split the tax into
+-- CGST + SGST. Profiles now carry an optional GSTIN and the GST state code,
+-- and invoices snapshot them and charge IGST when the supply is interstate.
+ALTER TABLE public.profiles
+  ADD COLUMN gstin TEXT
+    CHECK (gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$'),
+  -- Two digit state code used by GST, e.g. 29 for Karnataka
+  ADD COLUMN gst_state_code TEXT
+    CHECK (gst_state_code ~ '^[0-9]{2}$'),
+  -- A GSTIN starts with the state it is registered in
+  ADD CONSTRAINT profiles_gstin_state_check
+    CHECK (gstin IS NULL OR gst_state_code IS NOT DISTINCT FROM left(gstin, 2));
+
+ALTER TABLE public.invoices
+  ADD COLUMN supplier_gstin TEXT,
+  ADD COLUMN supplier_state_code TEXT,
+  ADD COLUMN recipient_gstin TEXT,
+  ADD COLUMN recipient_state_code TEXT,
+  ADD COLUMN place_of_supply TEXT,
+  ADD COLUMN igst_rate NUMERIC(5, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN igst_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  DROP CONSTRAINT invoices_check,
+  ADD CONSTRAINT invoices_total_check
+    CHECK (taxable_amount + cgst_amount + sgst_amount + igst_amount = total_amount);
+
+-- As before, with the parties' GSTINs and states. The place of supply is
+-- the recipient's state, or the supplier's when the recipient hasn't set
+-- one; a supply to another state is charged IGST instead of CGST + SGST.
+CREATE OR REPLACE FUNCTION public.issue_booking_invoice(_booking_id UUID)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _gst_rate CONSTANT NUMERIC := 18;
+  _invoice public.invoices;
+  _booking public.bookings;
+  _worker RECORD;
+  _hirer public.profiles;
+  _financial_year TEXT;
+  _number INTEGER;
+  _place_of_supply TEXT;
+  _interstate BOOLEAN;
+  _taxable NUMERIC;
+  _cgst NUMERIC;
+BEGIN
+  SELECT * INTO _invoice FROM public.invoices WHERE booking_id = _booking_id;
+  IF FOUND THEN
+    RETURN _invoice;
+  END IF;
+
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id AND status = 'completed';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoices are only issued for completed bookings' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT profiles.full_name, profiles.address, profiles.gstin, profiles.gst_state_code,
+    categories.name AS category_name
+  INTO _worker
+  FROM public.worker_profiles
+  JOIN public.profiles ON profiles.id = worker_profiles.user_id
+  JOIN public.categories ON categories.id = worker_profiles.category_id
+  WHERE worker_profiles.id = _booking.worker_id;
+
+  SELECT * INTO _hirer FROM public.profiles WHERE id = _booking.hirer_id;
+
+  _financial_year := public.financial_year_of((now() AT TIME ZONE 'Asia/Kolkata')::DATE);
+
+  INSERT INTO public.invoice_counters (financial_year, last_number)
+  VALUES (_financial_year, 1)
+  ON CONFLICT (financial_year) DO UPDATE SET last_number = invoice_counters.last_number + 1
+  RETURNING last_number INTO _number;
+
+  _place_of_supply := COALESCE(_hirer.gst_state_code, _worker.gst_state_code);
+  -- Without the supplier's state the supply is treated as intra-state
+  _interstate := _worker.gst_state_code IS NOT NULL AND _place_of_supply <> _worker.gst_state_code;
+
+  _taxable := round(_booking.agreed_rate * 100 / (100 + _gst_rate), 2);
+  _cgst := CASE WHEN _interstate THEN 0 ELSE round((_booking.agreed_rate - _taxable) / 2, 2) END;
+
+  INSERT INTO public.invoices (
+    booking_id, invoice_number, financial_year, worker_id, hirer_id,
+    supplier_name, supplier_address, supplier_gstin, supplier_state_code,
+    recipient_name, recipient_email, recipient_address, recipient_gstin, recipient_state_code,
+    place_of_supply, category_name, description, quantity, unit,
+    taxable_amount, cgst_rate, cgst_amount, sgst_rate, sgst_amount, igst_rate, igst_amount, total_amount
+  )
+  VALUES (
+    _booking_id,
+    'INV/' || _financial_year || '/' || lpad(_number::TEXT, 5, '0'),
+    _financial_year,
+    _booking.worker_id,
+    _booking.hirer_id,
+    _worker.full_name,
+    _worker.address,
+    _worker.gstin,
+    _worker.gst_state_code,
+    _hirer.full_name,
+    _hirer.email,
+    _hirer.address,
+    _hirer.gstin,
+    _hirer.gst_state_code,
+    _place_of_supply,
+    _worker.category_name,
+    _booking.work_description,
+    COALESCE(_booking.duration_hours, 1),
+    CASE WHEN _booking.duration_hours IS NULL THEN 'job' ELSE 'hour' END,
+    _taxable,
+    CASE WHEN _interstate THEN 0 ELSE _gst_rate / 2 END,
+    _cgst,
+    CASE WHEN _interstate THEN 0 ELSE _gst_rate / 2 END,
+    CASE WHEN _interstate THEN 0 ELSE _booking.agreed_rate - _taxable - _cgst END,
+    CASE WHEN _interstate THEN _gst_rate ELSE 0 END,
+    CASE WHEN _interstate THEN _booking.agreed_rate - _taxable ELSE 0 END,
+    _booking.agreed_rate
+  )
+  RETURNING * INTO _invoice;
+
+  RETURN _invoice;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_booking_invoice(UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,133 @@
+-- Presence ran on public Realtime channels with predictable names, so any
+-- signed-in user could see who was online, or join a conversation's channel
+-- and watch the participants type, and last_seen_at could be read by users
+-- the person had blocked. Presence channels are now private and authorized
+-- by the realtime.messages policies below, each user is online in a channel
+-- of their own, and last seen times moved to a table with the same rules.
+
+-- Whether the caller may see _user_id's online status and last seen time.
+-- Workers are listed publicly, so anyone may see theirs; anyone else only
+-- shows up to people they share a booking or direct messages with. Never
+-- across a block.
+CREATE OR REPLACE FUNCTION public.can_see_presence_of(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() = _user_id OR (
+    auth.uid() IS NOT NULL
+    AND NOT public.is_blocked_with(_user_id)
+    AND (
+      EXISTS (SELECT 1 FROM public.worker_profiles WHERE user_id = _user_id)
+      OR EXISTS (
+        SELECT 1 FROM public.bookings
+        JOIN public.worker_profiles ON worker_profiles.id = bookings.worker_id
+        WHERE (bookings.hirer_id = auth.uid() AND worker_profiles.user_id = _user_id)
+        OR (bookings.hirer_id = _user_id AND worker_profiles.user_id = auth.uid())
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.direct_messages
+        WHERE (sender_id = auth.uid() AND receiver_id = _user_id)
+        OR (sender_id = _user_id AND receiver_id = auth.uid())
+      )
+    )
+  );
+$$;
+
+-- Whether the caller may join (or, with _track, announce themselves in) a
+-- presence channel. Channel names are:
+--   online-<user id>           the user's own online status; only they track in it
+--   presence-dm-<id>-<id>      a direct conversation, ids sorted
+--   presence-booking-<id>      a booking conversation
+CREATE OR REPLACE FUNCTION public.can_use_presence_topic(_topic TEXT, _track BOOLEAN)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uuid CONSTANT TEXT := '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}';
+  _ids TEXT[];
+  _booking public.bookings;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN false;
+  END IF;
+
+  _ids := regexp_match(_topic, '^online-(' || _uuid || ')$');
+  IF _ids IS NOT NULL THEN
+    IF _track THEN
+      RETURN _ids[1]::UUID = auth.uid();
+    END IF;
+    RETURN public.can_see_presence_of(_ids[1]::UUID);
+  END IF;
+
+  _ids := regexp_match(_topic, '^presence-dm-(' || _uuid || ')-(' || _uuid || ')$');
+  IF _ids IS NOT NULL THEN
+    RETURN auth.uid() IN (_ids[1]::UUID, _ids[2]::UUID)
+      AND NOT public.is_blocked_with(CASE WHEN _ids[1]::UUID = auth.uid() THEN _ids[2] ELSE _ids[1] END::UUID);
+  END IF;
+
+  _ids := regexp_match(_topic, '^presence-booking-(' || _uuid || ')$');
+  IF _ids IS NOT NULL THEN
+    SELECT * INTO _booking FROM public.bookings WHERE id = _ids[1]::UUID;
+    RETURN FOUND
+      AND public.booking_actor(_booking) IS NOT NULL
+      AND NOT public.is_blocked_with(public.booking_counterparty(_booking));
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+CREATE POLICY "Users can receive presence they are allowed to see"
+  ON realtime.messages
+  FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence' AND
+    public.can_use_presence_topic((SELECT realtime.topic()), false)
+  );
+
+CREATE POLICY "Users can track presence in their own channels"
+  ON realtime.messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence' AND
+    public.can_use_presence_topic((SELECT realtime.topic()), true)
+  );
+
+CREATE TABLE public.user_last_seen (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_last_seen ENABLE ROW LEVEL SECURITY;
+
+-- Written only by touch_last_seen
+CREATE POLICY "Users can view last seen times they are allowed to see"
+  ON public.user_last_seen
+  FOR SELECT
+  TO authenticated
+  USING (public.can_see_presence_of(user_id));
+
+INSERT INTO public.user_last_seen (user_id, last_seen_at)
+SELECT id, last_seen_at FROM public.profiles WHERE last_seen_at IS NOT NULL;
+
+ALTER TABLE public.profiles DROP COLUMN last_seen_at;
+
+CREATE OR REPLACE FUNCTION public.touch_last_seen()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.user_last_seen (user_id, last_seen_at)
+  SELECT auth.uid(), now()
+  WHERE auth.uid() IS NOT NULL
+  ON CONFLICT (user_id) DO UPDATE SET last_seen_at = EXCLUDED.last_seen_at;
+$$;
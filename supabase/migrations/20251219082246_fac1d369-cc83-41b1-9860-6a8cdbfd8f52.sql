@@ -0,0 +1,64 @@
+-- Status changes by someone who isn't on the booking were reported as BK002
+-- ("only the other party can make this change"). They are now refused as a
+-- permission error; BK002 is left for the participant who may not make the
+-- change.
+
+-- Rejects illegal status changes:
+--   BK001  the transition does not exist from the current state
+--   BK002  the transition exists but the caller's role may not perform it
+--   42501  the caller isn't a participant of the booking
+CREATE OR REPLACE FUNCTION public.enforce_booking_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _allowed TEXT[];
+  _actor TEXT;
+BEGIN
+  -- Service role and maintenance scripts are not bound by the state machine
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'New bookings must start as pending'
+        USING ERRCODE = 'BK001', DETAIL = format('Requested status: %s', NEW.status);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  _allowed := public.booking_transition_roles(OLD.status, NEW.status);
+  IF _allowed IS NULL THEN
+    RAISE EXCEPTION 'Booking cannot move from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'BK001';
+  END IF;
+
+  IF auth.uid() = OLD.hirer_id THEN
+    _actor := 'hirer';
+  ELSIF EXISTS (
+    SELECT 1 FROM public.worker_profiles
+    WHERE id = OLD.worker_id AND user_id = auth.uid()
+  ) THEN
+    _actor := 'worker';
+  END IF;
+
+  IF _actor IS NULL THEN
+    RAISE EXCEPTION 'Only the booking''s hirer or worker can change its status'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT _actor = ANY(_allowed) THEN
+    RAISE EXCEPTION 'Only the % can move a booking from % to %', array_to_string(_allowed, ' or '), OLD.status, NEW.status
+      USING ERRCODE = 'BK002';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;